@@ -38,7 +38,7 @@
  *    - Same count across thresholds is valid behavior
  * 
  * 7. LARGE-DATA SAFETY:
- *    - Chunked ingestion (2K tx/chunk)
+ *    - Streaming chunked ingestion (files parsed straight into the engine)
  *    - Limited rendering (1.5K nodes max)
  *    - Per-node transaction cap (50 tx for display)
  * 
@@ -65,11 +65,17 @@ import { PatternFilters } from './components/PatternFilters';
 import { EvidenceActions } from './components/EvidenceActions';
 import { FraudRingSelector } from './components/FraudRingSelector';
 import { AnalysisProgress, ProgressState } from './components/AnalysisProgress';
-import { GraphAnalysisResult, Transaction } from './lib/types';
-import { uploadAndAnalyze } from './lib/chunked-uploader';
+import { GraphAnalysisResult } from './lib/types';
+import { AnalysisRun, startAnalysis } from './lib/analysis-client';
+import { AnalysisSource } from './lib/analysis-protocol';
+import { DEFAULT_MAX_TRANSACTIONS } from './lib/transaction-parser';
 import { getCurrentUser, logout, CurrentUser } from './lib/local-auth';
 import { addHistoryEntry, migrateLegacyHistory } from './lib/local-history';
+import { getActiveRuleset } from './lib/ruleset';
+import { buildResultsJson } from './lib/result-export';
+import { DEFAULT_RISK_THRESHOLD } from './lib/forensics-semantics';
 import { GroundTruthPanel } from './components/GroundTruthPanel';
+import { CalibrationPanel } from './components/CalibrationPanel';
 import { UserSettings } from './components/SettingsView';
 import {
   Download,
@@ -87,7 +93,8 @@ import {
   Cpu,
   User as UserIcon,
   Filter,
-  Scale
+  Scale,
+  AlertTriangle
 } from 'lucide-react';
 
 // ── Footer legal modal state type ──
@@ -118,7 +125,7 @@ function App() {
   const savedSettings = loadSavedSettings();
 
   // New investigation controls state — initialized from saved settings
-  const [riskThreshold, setRiskThreshold] = useState(savedSettings?.defaultRiskThreshold ?? 50);
+  const [riskThreshold, setRiskThreshold] = useState(savedSettings?.defaultRiskThreshold ?? DEFAULT_RISK_THRESHOLD);
   const [timeWindow, setTimeWindow] = useState<'24h' | '7d' | '30d' | 'custom'>(savedSettings?.defaultTimeWindow ?? '7d');
   const [enabledPatterns, setEnabledPatterns] = useState(
     savedSettings?.patternVisibility ?? {
@@ -130,10 +137,13 @@ function App() {
   const [showLabels, setShowLabels] = useState(true);
   const [showDirectionArrows, setShowDirectionArrows] = useState(true);
   const [highlightMoneyFlow, setHighlightMoneyFlow] = useState(false);
+  const [colorByTaint, setColorByTaint] = useState(false);
   const [isIntelligencePanelOpen, setIsIntelligencePanelOpen] = useState(false);
 
   // Chunked processing state
   const [progressState, setProgressState] = useState<ProgressState | null>(null);
+  const [analysisNotice, setAnalysisNotice] = useState<string | null>(null);
+  const analysisRunRef = useRef<AnalysisRun | null>(null);
   const [graphDisplayMode, setGraphDisplayMode] = useState<'top-risk' | 'selected-ring' | 'filtered' | 'all'>('top-risk');
 
   // No cyRef needed — GraphView manages its own Cytoscape instance internally
@@ -178,10 +188,11 @@ function App() {
     }
   }, [user]);
 
-  const handleDataLoaded = useCallback(async (transactions: Transaction[], filename?: string) => {
+  const handleDataLoaded = useCallback(async (source: AnalysisSource, filename?: string) => {
     setStatus('PROCESSING');
     setView('DASHBOARD');
     setCurrentFilename(filename || 'unknown-file.csv');
+    setAnalysisNotice(null);
 
     // Initialize progress tracking
     setProgressState({
@@ -190,42 +201,70 @@ function App() {
       message: 'Preparing to upload...'
     });
 
-    setTimeout(async () => {
-      try {
-        const startTime = performance.now();
-
-        // Use chunked uploader with progress tracking
-        const result = await uploadAndAnalyze(transactions, (progress) => {
-          setProgressState(progress);
-        });
+    const startTime = performance.now();
+
+    // Parsing and analysis both run in the background worker
+    const run = startAnalysis(source, {
+      config: {
+        jurisdiction: loadSavedSettings()?.jurisdiction,
+        dormancyDays: loadSavedSettings()?.dormancyDays ?? undefined, // unset → the ruleset's DORMANCY_DAYS
+        disabledDetectors: loadSavedSettings()?.disabledDetectors,
+        ruleset: getActiveRuleset(),
+        customRules: loadSavedSettings()?.customRules,
+        taintModel: loadSavedSettings()?.taintModel,
+        taintSeeds: loadSavedSettings()?.confirmedFraud,
+        taintLabelSeeds: loadSavedSettings()?.taintLabelSeeds,
+        riskThreshold,
+      },
+      maxTransactions: loadSavedSettings()?.maxTransactions ?? DEFAULT_MAX_TRANSACTIONS,
+    }, {
+      onProgress: setProgressState,
+      onNotice: setAnalysisNotice,
+    });
+    analysisRunRef.current = run;
 
-        const endTime = performance.now();
-        const time = endTime - startTime;
+    try {
+      const result = await run.result;
+      if (analysisRunRef.current !== run) return;
+      analysisRunRef.current = null;
+
+      // Cancelled — back to the upload screen
+      if (!result) {
+        setStatus('IDLE');
+        setProgressState(null);
+        return;
+      }
 
-        setExecutionTime(time);
-        setData(result);
-        setStatus('ANALYZED');
+      setExecutionTime(performance.now() - startTime);
+      setData(result);
+      setStatus('ANALYZED');
 
-        // Auto-save if logged in — use the local filename parameter (not stale state)
-        if (user && filename) {
-          saveAnalysisToHistory(result, filename);
-        }
-      } catch (error: any) {
-        console.error("Processing failed", error);
-        setProgressState({
-          status: 'failed',
-          percent: 0,
-          message: error.message || "Processing failed. Please try again."
-        });
-
-        // Allow user to retry
-        setTimeout(() => {
-          setStatus('IDLE');
-          setProgressState(null);
-        }, 5000);
+      // Auto-save if logged in — use the local filename parameter (not stale state)
+      if (user && filename) {
+        saveAnalysisToHistory(result, filename);
       }
-    }, 100);
-  }, [user]);
+    } catch (error: any) {
+      if (analysisRunRef.current !== run) return;
+      analysisRunRef.current = null;
+      console.error("Processing failed", error);
+      setProgressState({
+        status: 'failed',
+        percent: 0,
+        message: error.message || "Processing failed. Please try again."
+      });
+
+      // Allow user to retry
+      setTimeout(() => {
+        setStatus('IDLE');
+        setProgressState(null);
+      }, 5000);
+    }
+  }, [user, saveAnalysisToHistory, riskThreshold]);
+
+  const handleCancelAnalysis = useCallback(() => {
+    analysisRunRef.current?.cancel();
+    setProgressState(prev => prev && { ...prev, message: 'Cancelling...' });
+  }, []);
 
   const handleHistorySelect = useCallback((historyData: GraphAnalysisResult, filename: string) => {
     setData(historyData);
@@ -248,29 +287,7 @@ function App() {
 
   const handleDownloadJSON = useCallback(() => {
     if (!data) return;
-    const output = {
-      metadata: {
-        timestamp: new Date().toISOString(),
-        execution_time_ms: executionTime,
-        total_transactions: data.metadata.total_transactions,
-        total_volume: data.metadata.total_volume,
-        algorithm_version: '1.0.0',
-      },
-      suspicious_entities: data.suspicious_nodes.sort((a, b) => b.score.total - a.score.total).map(n => ({
-        account_id: n.id,
-        suspicion_score: parseFloat(n.score.total.toFixed(2)),
-        score_breakdown: { structural: n.score.structural, behavioral: n.score.behavioral, network: n.score.network },
-        risk_factors: n.score.details?.risk_factors || [],
-        patterns: n.score.details?.patterns || [],
-      })),
-      fraud_rings: data.rings.map(r => ({
-        ring_id: r.id,
-        risk_score: parseFloat(r.risk_score.toFixed(2)),
-        member_count: r.nodes.length,
-        members: r.nodes,
-        patterns: r.patterns,
-      })),
-    };
+    const output = buildResultsJson(data, executionTime);
     const blob = new Blob([JSON.stringify(output, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -303,6 +320,7 @@ function App() {
   const handleToggleLabels = useCallback(() => setShowLabels(v => !v), []);
   const handleToggleDirectionArrows = useCallback(() => setShowDirectionArrows(v => !v), []);
   const handleToggleMoneyFlow = useCallback(() => setHighlightMoneyFlow(v => !v), []);
+  const handleToggleTaintColor = useCallback(() => setColorByTaint(v => !v), []);
 
   // Stable callback for AlertsPanel node clicks
   const handleAlertNodeClick = useCallback((nodeId: string) => {
@@ -330,12 +348,18 @@ function App() {
         total_outbound: node.transactions_out.reduce((s, t) => s + t.amount, 0),
         velocity: node.velocity,
         active_days: node.active_days,
+        taint: node.taint ?? null,
       } : null,
       risk_assessment: susp ? {
         total_score: susp.score.total, structural: susp.score.structural,
         behavioral: susp.score.behavioral, network: susp.score.network,
         patterns: susp.score.details?.patterns || [], risk_factors: susp.score.details?.risk_factors || [],
+        evidence: susp.score.details?.evidence || [],
+        contributions: susp.score.details?.contributions || [],
       } : null,
+      rings: data.rings
+        .filter(r => r.nodes.includes(selectedNodeId) || r.structure?.members.some(m => m.id === selectedNodeId))
+        .map(r => ({ ring_id: r.id, risk_score: r.risk_score, patterns: r.patterns, structure: r.structure ?? null })),
       transactions: node ? [...node.transactions_in, ...node.transactions_out] : [],
     };
     const blob = new Blob([JSON.stringify(evidenceBundle, null, 2)], { type: 'application/json' });
@@ -391,7 +415,7 @@ function App() {
         }
 
         if (enabledPatterns.rapidPassThrough) {
-          matches = matches && patterns.includes('shell');
+          matches = matches && patterns.includes('rapid_pass_through');
         }
 
         if (!matches) return false;
@@ -674,7 +698,7 @@ function App() {
             )}
 
             {status === 'PROCESSING' && progressState && (
-              <AnalysisProgress progress={progressState} />
+              <AnalysisProgress progress={progressState} onCancel={handleCancelAnalysis} />
             )}
 
             {status === 'ANALYZED' && data && (
@@ -702,6 +726,14 @@ function App() {
                   />
                 </div>
 
+                {/* Notice from parsing, e.g. the upload was sampled */}
+                {analysisNotice && (
+                  <div className="mb-4 bg-amber-950/30 border border-amber-800/40 rounded-lg px-4 py-2.5 flex items-center gap-3">
+                    <AlertTriangle className="w-4 h-4 text-amber-400 shrink-0" />
+                    <p className="text-sm text-amber-300">{analysisNotice}</p>
+                  </div>
+                )}
+
                 {/* Small inline warning when no matches */}
                 {filteredData && filteredData.suspicious_nodes.length === 0 && (enabledPatterns.circular || enabledPatterns.fanPattern || enabledPatterns.rapidPassThrough) && (
                   <div className="mb-4 bg-amber-950/30 border border-amber-800/40 rounded-lg px-4 py-2.5 flex items-center gap-3">
@@ -723,6 +755,17 @@ function App() {
                   </div>
                 )}
 
+                {/* Warning: A budgeted detector stopped before covering the whole graph */}
+                {data.coverage?.filter(c => c.budget_exhausted).map(c => (
+                  <div key={c.detector} className="mb-4 bg-amber-950/30 border border-amber-800/40 rounded-lg px-4 py-2.5 flex items-center gap-3">
+                    <AlertTriangle className="w-4 h-4 text-amber-400 shrink-0" />
+                    <p className="text-sm text-amber-300">
+                      Partial results — {c.detector} search hit its budget; {c.components_searched.toLocaleString()} of {c.components_total.toLocaleString()} components searched completely ({c.instances_found.toLocaleString()} found).
+                      <span className="text-amber-400/60 ml-1">Some {c.detector} rings may be missing.</span>
+                    </p>
+                  </div>
+                ))}
+
                 {/* ══════════ MAIN 3-COLUMN DASHBOARD ══════════ */}
                 <div className="grid grid-cols-1 lg:grid-cols-12 gap-4">
                   {/* ─ Left Column: Ring Selector + Actions (2 cols) ─ */}
@@ -761,6 +804,8 @@ function App() {
                           onToggleDirectionArrows={handleToggleDirectionArrows}
                           highlightMoneyFlow={highlightMoneyFlow}
                           onToggleMoneyFlow={handleToggleMoneyFlow}
+                          colorByTaint={colorByTaint}
+                          onToggleTaintColor={handleToggleTaintColor}
                         />
                         <GraphView
                           data={filteredData || data}
@@ -771,6 +816,7 @@ function App() {
                           showLabels={showLabels}
                           showDirectionArrows={showDirectionArrows}
                           highlightMoneyFlow={highlightMoneyFlow}
+                          colorByTaint={colorByTaint}
                           onZoomIn={handleZoomIn}
                           onZoomOut={handleZoomOut}
                           onResetView={handleResetView}
@@ -787,9 +833,11 @@ function App() {
                     />
 
                     {data.ground_truth && data.ground_truth.available && (
-                      <GroundTruthPanel groundTruth={data.ground_truth} />
+                      <GroundTruthPanel groundTruth={data.ground_truth} riskThreshold={riskThreshold} />
                     )}
 
+                    {data.ground_truth?.available && <CalibrationPanel key={data.metadata.processed_at} data={data} />}
+
                     {/* Analysis Performance — compact */}
                     <div className="bg-[#0d1117] rounded-xl border border-[#21262d] p-5">
                       <h3 className="text-base font-semibold text-slate-100 mb-3 flex items-center gap-2">
@@ -60,6 +60,46 @@ export const AlertsPanel = memo(function AlertsPanel({ data, onNodeClick, riskTh
           explanation: 'High flow-through ratio suggests entity is being used as a pass-through vehicle',
         });
       }
+      if (patterns.includes('layering')) {
+        result.push({
+          type: 'critical',
+          entity: node.id,
+          message: 'Multi-hop layering path detected',
+          explanation: 'Funds moved through a chain of accounts with amounts conserved and short dwell at each hop',
+        });
+      }
+      if (patterns.includes('scatter_gather_mule')) {
+        result.push({
+          type: 'critical',
+          entity: node.id,
+          message: 'Scatter-gather intermediary',
+          explanation: 'Received part of a split from one source and forwarded it to a sink shared with other mules',
+        });
+      }
+      if (patterns.includes('round_trip')) {
+        result.push({
+          type: 'warning',
+          entity: node.id,
+          message: 'Repeated two-party round trips',
+          explanation: 'Funds sent to a counterparty came back in matching amounts shortly afterwards — typical wash activity',
+        });
+      }
+      if (patterns.includes('mule_lifecycle')) {
+        result.push({
+          type: 'critical',
+          entity: node.id,
+          message: 'Burner mule lifecycle',
+          explanation: 'New account received funds, cashed almost all of it out within days and then went silent',
+        });
+      }
+      if (patterns.includes('dormant_reactivation')) {
+        result.push({
+          type: 'warning',
+          entity: node.id,
+          message: 'Dormant account reactivated',
+          explanation: 'Long inactive account suddenly received funds and moved them on — possible takeover or sold account',
+        });
+      }
       // PaySim-calibrated signals
       if (patterns.includes('balance_discrepancy')) {
         result.push({
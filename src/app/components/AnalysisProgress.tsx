@@ -5,7 +5,7 @@
  */
 
 import React from 'react';
-import { Loader2, CheckCircle2, AlertCircle, Activity } from 'lucide-react';
+import { Loader2, CheckCircle2, AlertCircle, Activity, X } from 'lucide-react';
 
 export interface ProgressState {
   status: 'uploading' | 'processing' | 'completed' | 'failed';
@@ -17,9 +17,11 @@ export interface ProgressState {
 
 interface AnalysisProgressProps {
   progress: ProgressState;
+  /** Shown as a Cancel button while the analysis is running */
+  onCancel?: () => void;
 }
 
-export function AnalysisProgress({ progress }: AnalysisProgressProps) {
+export function AnalysisProgress({ progress, onCancel }: AnalysisProgressProps) {
   const { status, percent, message, chunksProcessed, totalChunks } = progress;
 
   const getStatusColor = () => {
@@ -83,7 +85,7 @@ export function AnalysisProgress({ progress }: AnalysisProgressProps) {
       </h2>
 
       {/* Message */}
-      <p className="text-[#4a5565] dark:text-[#a1a1a1] mb-6 text-center">
+      <p className="text-[#4a5565] dark:text-[#a1a1a1] mb-6 text-center whitespace-pre-line">
         {message}
       </p>
 
@@ -125,12 +127,24 @@ export function AnalysisProgress({ progress }: AnalysisProgressProps) {
             </div>
             <div className="flex items-center gap-2 mt-1 pt-2 border-t border-[#e5e7eb] dark:border-[#262626]">
               <div className="w-2 h-2 rounded-full bg-purple-400 animate-pulse" />
-              <span className="text-xs text-[#6b7280] dark:text-[#6b7280]">Large datasets may take 30–90 s — the page is still working</span>
+              <span className="text-xs text-[#6b7280] dark:text-[#6b7280]">Large datasets may take 30–90 s — the page stays responsive meanwhile</span>
             </div>
           </div>
         </div>
       )}
 
+      {/* Cancel */}
+      {onCancel && (status === 'uploading' || status === 'processing') && (
+        <button
+          type="button"
+          onClick={onCancel}
+          className="mt-4 inline-flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium text-slate-300 bg-[#161b22] border border-[#30363d] hover:bg-[#1c2128] hover:text-white transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Cancel Analysis
+        </button>
+      )}
+
       {/* Error Details */}
       {status === 'failed' && (
         <div className="bg-red-50 dark:bg-red-900/10 rounded-lg p-4 border border-red-200 dark:border-red-800 w-full">
@@ -138,7 +152,7 @@ export function AnalysisProgress({ progress }: AnalysisProgressProps) {
             The analysis could not be completed. This may be due to:
           </p>
           <ul className="mt-2 text-sm text-red-600 dark:text-red-400 list-disc list-inside space-y-1">
-            <li>Dataset too large — try uploading a smaller CSV (under 300 k rows)</li>
+            <li>Dataset too large — lower the row limit in Settings</li>
             <li>Invalid transaction data format</li>
             <li>Browser memory limit exceeded</li>
           </ul>
@@ -0,0 +1,166 @@
+import { memo, useState } from 'react';
+import { SlidersHorizontal, Save, Check } from 'lucide-react';
+import { GraphAnalysisResult } from '../lib/types';
+import { DEFAULT_RULESET, Ruleset, cloneRuleset, saveRuleset, setActiveRuleset } from '../lib/ruleset';
+import { CalibrationMetrics, CalibrationReport, calibrateWeights } from '../lib/calibration';
+
+const buttonClass =
+  'px-2.5 py-1 bg-[#171717] hover:bg-[#262626] border border-[#404040] rounded-lg text-xs text-white transition-colors flex items-center gap-1.5 disabled:opacity-40 disabled:cursor-not-allowed';
+
+/**
+ * Weight calibration for labelled datasets: fits the signal weights of the
+ * ruleset that produced `data` to its isFraud labels, shows the held-out
+ * lift before and after, and saves the fitted weights as a new ruleset.
+ */
+export const CalibrationPanel = memo(function CalibrationPanel({ data }: { data: GraphAnalysisResult }) {
+  const base: Ruleset = data.ruleset ?? DEFAULT_RULESET;
+  const [running, setRunning] = useState(false);
+  const [report, setReport] = useState<CalibrationReport | null | undefined>(undefined);
+  const [name, setName] = useState(`${base.name} (calibrated)`);
+  const [saved, setSaved] = useState<Ruleset | null>(null);
+  const [activated, setActivated] = useState(false);
+
+  const handleCalibrate = () => {
+    setRunning(true);
+    setSaved(null);
+    setActivated(false);
+    // Let the spinner render before the fit blocks the thread
+    setTimeout(() => {
+      setReport(calibrateWeights(data, base.scores));
+      setRunning(false);
+    }, 0);
+  };
+
+  const handleSave = () => {
+    if (!report) return;
+    const { after, before } = report;
+    const { ruleset, errors } = saveRuleset({
+      ...cloneRuleset(base, name.trim() || `${base.name} (calibrated)`),
+      scores: report.scores,
+      description: `Signal weights fitted to isFraud labels (${report.train.accounts.toLocaleString()} training accounts). ` +
+        `Held-out ROC AUC ${before.rocAuc.toFixed(3)} → ${after.rocAuc.toFixed(3)}, PR AUC ${before.prAuc.toFixed(3)} → ${after.prAuc.toFixed(3)}.`,
+    });
+    if (!ruleset) {
+      alert(errors.join('\n'));
+      return;
+    }
+    setSaved(ruleset);
+  };
+
+  const handleActivate = () => {
+    if (!saved) return;
+    setActiveRuleset(saved.id);
+    setActivated(true);
+  };
+
+  return (
+    <div className="bg-[#0a0a0a] border border-[#1f1f1f] rounded-xl shadow-sm p-6 transition-colors">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-cyan-400" />
+          <h3 className="text-lg font-semibold text-slate-200">Weight Calibration</h3>
+        </div>
+        <button onClick={handleCalibrate} disabled={running} className={buttonClass}>
+          {running ? 'Fitting…' : report ? 'Recalibrate' : 'Calibrate'}
+        </button>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        Fits the signal weights of <span className="text-slate-300">{base.name} v{base.version}</span> to this dataset's
+        labels with regularised logistic regression on 70% of the accounts and measures lift on the other 30%. Runs locally.
+      </p>
+
+      {report === null && (
+        <p className="text-xs text-amber-400">Not enough labelled fraud and legitimate accounts in both splits to calibrate.</p>
+      )}
+
+      {report && (
+        <div className="space-y-4">
+          <div className="text-[10px] text-slate-500">
+            Train {report.train.accounts.toLocaleString()} accounts ({report.train.fraud.toLocaleString()} fraud) ·
+            Held out {report.holdout.accounts.toLocaleString()} ({report.holdout.fraud.toLocaleString()} fraud)
+          </div>
+
+          {/* Held-out lift */}
+          <div>
+            <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Held-Out Evaluation</h4>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-[10px] text-slate-500 text-left">
+                  <th className="font-medium py-1">Metric</th>
+                  <th className="font-medium py-1 text-right">Before</th>
+                  <th className="font-medium py-1 text-right">After</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {metricRows(report.before, report.after).map(row => (
+                  <tr key={row.label} className="border-t border-[#1f1f1f]">
+                    <td className="py-1 font-sans text-slate-400">{row.label}</td>
+                    <td className="py-1 text-right text-slate-300">{row.before}</td>
+                    <td className={`py-1 text-right font-semibold ${row.delta > 0 ? 'text-emerald-400' : row.delta < 0 ? 'text-red-400' : 'text-slate-300'}`}>
+                      {row.after}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Fitted weights */}
+          <div>
+            <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Fitted Weights</h4>
+            {report.weights.length === 0 ? (
+              <p className="text-xs text-slate-500">No signal fired often enough to fit.</p>
+            ) : (
+              <div className="space-y-1 max-h-56 overflow-y-auto custom-scrollbar pr-1">
+                {report.weights.map(w => (
+                  <div key={w.key} className="flex items-center gap-2 text-xs" title={`Coefficient ${w.coefficient} · fired on ${w.support} training accounts`}>
+                    <span className="font-mono text-slate-400 truncate flex-1">{w.key}</span>
+                    <span className="font-mono text-slate-500 w-8 text-right">{w.before}</span>
+                    <span className="text-slate-600">→</span>
+                    <span className={`font-mono w-8 text-right font-semibold ${w.after > w.before ? 'text-red-300' : w.after < w.before ? 'text-emerald-300' : 'text-slate-300'}`}>
+                      {w.after}
+                    </span>
+                    <span className="text-[10px] text-slate-600 w-14 text-right">n={w.support}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Save */}
+          <div className="flex items-center gap-2 pt-2 border-t border-[#1f1f1f]">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="flex-1 px-2.5 py-1 bg-[#171717] border border-[#404040] rounded-lg text-xs text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {saved ? (
+              <button onClick={handleActivate} disabled={activated} className={buttonClass}>
+                <Check className="w-3.5 h-3.5" />
+                {activated ? 'Active for new scans' : `Activate v${saved.version}`}
+              </button>
+            ) : (
+              <button onClick={handleSave} disabled={report.weights.length === 0} className={buttonClass}>
+                <Save className="w-3.5 h-3.5" />
+                Save as Ruleset
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+function metricRows(before: CalibrationMetrics, after: CalibrationMetrics) {
+  return [
+    { label: 'ROC AUC', before: before.rocAuc.toFixed(3), after: after.rocAuc.toFixed(3), delta: after.rocAuc - before.rocAuc },
+    { label: 'PR AUC', before: before.prAuc.toFixed(3), after: after.prAuc.toFixed(3), delta: after.prAuc - before.prAuc },
+    ...before.lift.map((l, i) => ({
+      label: `Lift @ top ${l.share * 100}%`,
+      before: `${l.lift.toFixed(2)}×`,
+      after: `${after.lift[i].lift.toFixed(2)}×`,
+      delta: after.lift[i].lift - l.lift,
+    })),
+  ];
+}
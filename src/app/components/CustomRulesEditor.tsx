@@ -0,0 +1,89 @@
+import { memo, useState, useMemo } from 'react';
+import { Check, AlertCircle } from 'lucide-react';
+import { parseRules } from '../lib/rule-dsl';
+
+const EXAMPLE = `# Many cash-ins from distinct senders, then a single transfer out
+rule cash_in_funnel "Cash-in funnel" {
+  score behavioral 15
+  risk "Funnel: >20 cash-ins from distinct senders, then one transfer out"
+  when distinct(in where type = CASH_IN) > 20 within 24h
+  then count(out where type = TRANSFER) = 1 within 24h
+}`;
+
+/**
+ * Editor for custom detection rules (Settings). Source is syntax-checked on
+ * every keystroke and can only be saved when it parses cleanly; saved rules
+ * run as extra detectors on the next scan.
+ */
+export const CustomRulesEditor = memo(function CustomRulesEditor({
+  value,
+  onSave,
+}: {
+  value: string;
+  onSave: (source: string) => void;
+}) {
+  const [draft, setDraft] = useState(value);
+  const { rules, errors } = useMemo(() => parseRules(draft), [draft]);
+  const dirty = draft !== value;
+
+  return (
+    <div className="space-y-3">
+      <textarea
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        placeholder={EXAMPLE}
+        spellCheck={false}
+        rows={12}
+        className="w-full px-3 py-2 font-mono text-xs bg-black border border-[#262626] rounded-lg text-slate-200 placeholder:text-slate-600 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+      />
+
+      {errors.length > 0 ? (
+        <ul className="text-xs text-red-400 bg-red-900/20 p-2 rounded border border-red-900/30 space-y-0.5 max-h-32 overflow-y-auto">
+          {errors.map(err => (
+            <li key={`${err.line}:${err.column}:${err.message}`} className="flex items-start gap-1.5">
+              <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-px" />
+              <span><span className="font-mono">line {err.line}:{err.column}</span> — {err.message}</span>
+            </li>
+          ))}
+        </ul>
+      ) : rules.length > 0 && (
+        <ul className="text-xs text-slate-300 space-y-1">
+          {rules.map(rule => (
+            <li key={rule.id} className="flex items-center gap-2">
+              <Check className="w-3.5 h-3.5 text-emerald-400 shrink-0" />
+              <span className="font-medium text-white">{rule.label}</span>
+              <span className="font-mono text-slate-500">{rule.pattern}</span>
+              <span className="font-mono text-slate-400">
+                {rule.component} {rule.points > 0 ? '+' : ''}{rule.points}
+              </span>
+              <span className="text-slate-500">· {rule.stages.length} stage{rule.stages.length === 1 ? '' : 's'}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-slate-500">
+          {draft.trim() ? `${rules.length} rule${rules.length === 1 ? '' : 's'} parsed` : 'No custom rules — the placeholder shows the syntax.'}
+        </p>
+        <div className="flex items-center gap-2">
+          {dirty && (
+            <button
+              onClick={() => setDraft(value)}
+              className="px-3 py-1.5 bg-[#262626] text-slate-300 text-sm rounded-lg font-medium transition-colors"
+            >
+              Revert
+            </button>
+          )}
+          <button
+            onClick={() => onSave(draft)}
+            disabled={!dirty || errors.length > 0}
+            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Save Rules
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
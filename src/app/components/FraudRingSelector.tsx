@@ -97,6 +97,155 @@ export const FraudRingSelector = memo(function FraudRingSelector({
             </div>
           )}
 
+          {selectedRing.hops && selectedRing.hops.length > 0 && (
+            <div className="p-3 bg-[#0f0f0f] border border-[#262626] rounded-lg">
+              <div className="text-[10px] text-slate-500 uppercase font-semibold tracking-wider mb-2">
+                Time-Ordered Hops
+              </div>
+              <div className="space-y-1">
+                {selectedRing.hops.map((hop, idx) => (
+                  <div key={idx} className="flex items-center justify-between gap-2 text-[10px]">
+                    <span className="font-mono text-slate-300 truncate">{hop.from} → {hop.to}</span>
+                    <span className="text-slate-400 font-mono shrink-0">${hop.amount.toLocaleString()}</span>
+                    <span className="text-slate-500 shrink-0">{new Date(hop.timestamp).toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {selectedRing.layering && (
+            <div className="p-3 bg-[#0f0f0f] border border-[#262626] rounded-lg">
+              <div className="text-[10px] text-slate-500 uppercase font-semibold tracking-wider mb-2">
+                Layering Path
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-[10px]">
+                <div>
+                  <div className="text-slate-500">Source → Sink</div>
+                  <div className="text-slate-200 font-mono truncate">
+                    {selectedRing.layering.source} → {selectedRing.layering.sink}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-slate-500">Hops</div>
+                  <div className="text-slate-200 font-mono">{selectedRing.layering.hop_count}</div>
+                </div>
+                <div>
+                  <div className="text-slate-500">In / Out</div>
+                  <div className="text-slate-200 font-mono">
+                    ${selectedRing.layering.amount_in.toLocaleString()} / ${selectedRing.layering.amount_out.toLocaleString()}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-slate-500">Cumulative Skim</div>
+                  <div className="text-slate-200 font-mono">
+                    ${selectedRing.layering.cumulative_skim.toLocaleString()} ({selectedRing.layering.skim_pct.toFixed(1)}%)
+                  </div>
+                </div>
+                <div>
+                  <div className="text-slate-500">Max Dwell</div>
+                  <div className="text-slate-200 font-mono">{selectedRing.layering.max_dwell_hours.toFixed(1)}h</div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {selectedRing.scatter_gather && (
+            <div className="p-3 bg-[#0f0f0f] border border-[#262626] rounded-lg">
+              <div className="text-[10px] text-slate-500 uppercase font-semibold tracking-wider mb-2">
+                Scatter → Gather
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-[10px]">
+                <div>
+                  <div className="text-slate-500">Source → Sink</div>
+                  <div className="text-slate-200 font-mono truncate">
+                    {selectedRing.scatter_gather.source} → {selectedRing.scatter_gather.sink}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-slate-500">Intermediaries</div>
+                  <div className="text-slate-200 font-mono">{selectedRing.scatter_gather.intermediaries.length}</div>
+                </div>
+                <div>
+                  <div className="text-slate-500">Scattered / Gathered</div>
+                  <div className="text-slate-200 font-mono">
+                    ${selectedRing.scatter_gather.total_value.toLocaleString()} / ${selectedRing.scatter_gather.gathered_value.toLocaleString()}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-slate-500">Span</div>
+                  <div className="text-slate-200 font-mono">{selectedRing.scatter_gather.span_hours.toFixed(1)}h</div>
+                </div>
+              </div>
+              <div className="mt-2 flex flex-wrap gap-1">
+                {selectedRing.scatter_gather.intermediaries.map(id => (
+                  <span key={id} className="px-1.5 py-0.5 bg-black/40 border border-[#1f1f1f] rounded font-mono text-[10px] text-slate-300">
+                    {id}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {selectedRing.round_trip && (
+            <div className="p-3 bg-[#0f0f0f] border border-[#262626] rounded-lg">
+              <div className="text-[10px] text-slate-500 uppercase font-semibold tracking-wider mb-2">
+                Round Trip
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-[10px] mb-2">
+                <div>
+                  <div className="text-slate-500">Gross (matched)</div>
+                  <div className="text-slate-200 font-mono">${selectedRing.round_trip.gross_volume.toLocaleString()}</div>
+                </div>
+                <div>
+                  <div className="text-slate-500">Net {selectedRing.round_trip.accounts[0]} → {selectedRing.round_trip.accounts[1]}</div>
+                  <div className="text-slate-200 font-mono">${selectedRing.round_trip.net_flow.toLocaleString()}</div>
+                </div>
+              </div>
+              <div className="space-y-1">
+                {selectedRing.round_trip.pairs.map((pair, idx) => (
+                  <div key={idx} className="flex items-center justify-between gap-2 text-[10px]">
+                    <span className="font-mono text-slate-300 truncate">{pair.out_tx} ⇄ {pair.back_tx}</span>
+                    <span className="text-slate-400 font-mono shrink-0">
+                      ${pair.out_amount.toLocaleString()} / ${pair.back_amount.toLocaleString()}
+                    </span>
+                    <span className="text-slate-500 shrink-0">{pair.lag_hours.toFixed(1)}h</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {selectedRing.community && (
+            <div className="p-3 bg-[#0f0f0f] border border-[#262626] rounded-lg">
+              <div className="text-[10px] text-slate-500 uppercase font-semibold tracking-wider mb-2">
+                Community Structure
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-[10px]">
+                <div>
+                  <div className="text-slate-500">Members</div>
+                  <div className="text-slate-200 font-mono">
+                    {selectedRing.community.suspicious_members} / {selectedRing.community.member_count} suspicious
+                  </div>
+                </div>
+                <div>
+                  <div className="text-slate-500">Modularity</div>
+                  <div className="text-slate-200 font-mono">
+                    {selectedRing.community.modularity.toFixed(3)} (Q {selectedRing.community.global_modularity.toFixed(2)})
+                  </div>
+                </div>
+                <div>
+                  <div className="text-slate-500">Internal Flow</div>
+                  <div className="text-slate-200 font-mono">${selectedRing.community.internal_flow.toLocaleString()}</div>
+                </div>
+                <div>
+                  <div className="text-slate-500">Internal / External</div>
+                  <div className="text-slate-200 font-mono">{selectedRing.community.flow_ratio.toFixed(2)}×</div>
+                </div>
+              </div>
+            </div>
+          )}
+
           <div className="p-3 bg-gradient-to-r from-red-950/10 to-orange-950/10 border border-red-900/20 rounded-lg">
             <div className="flex justify-between items-center">
               <div className="text-xs text-red-400 font-semibold">Average Suspicion Score</div>
@@ -1,5 +1,5 @@
 import React, { memo } from 'react';
-import { Tag, GitBranch, TrendingUp } from 'lucide-react';
+import { Tag, GitBranch, TrendingUp, Droplet } from 'lucide-react';
 
 interface GraphControlsProps {
   onZoomIn?: () => void;
@@ -11,6 +11,8 @@ interface GraphControlsProps {
   onToggleDirectionArrows: () => void;
   highlightMoneyFlow: boolean;
   onToggleMoneyFlow: () => void;
+  colorByTaint: boolean;
+  onToggleTaintColor: () => void;
 }
 
 export const GraphControls = memo(function GraphControls({
@@ -20,6 +22,8 @@ export const GraphControls = memo(function GraphControls({
   onToggleDirectionArrows,
   highlightMoneyFlow,
   onToggleMoneyFlow,
+  colorByTaint,
+  onToggleTaintColor,
 }: GraphControlsProps) {
   return (
     <div className="absolute top-4 right-4 z-30 flex flex-col gap-2">
@@ -45,11 +49,20 @@ export const GraphControls = memo(function GraphControls({
         <CtrlBtn
           onClick={onToggleMoneyFlow}
           title={highlightMoneyFlow ? 'Disable Flow Highlight' : 'Highlight Money Flow'}
+          border
           active={highlightMoneyFlow}
           activeClass="bg-green-900/30 text-green-400 hover:bg-green-900/40"
         >
           <TrendingUp className="w-4 h-4" />
         </CtrlBtn>
+        <CtrlBtn
+          onClick={onToggleTaintColor}
+          title={colorByTaint ? 'Colour by Risk' : 'Colour by Taint'}
+          active={colorByTaint}
+          activeClass="bg-rose-900/30 text-rose-400 hover:bg-rose-900/40"
+        >
+          <Droplet className="w-4 h-4" />
+        </CtrlBtn>
       </div>
     </div>
   );
@@ -1,6 +1,6 @@
 import { useEffect, useRef, useState, useMemo, memo } from 'react';
 import cytoscape from 'cytoscape';
-import { GraphAnalysisResult } from '../lib/types';
+import { EdgeData, GraphAnalysisResult, NodeData } from '../lib/types';
 import { getRiskLevel, getRiskColor } from '../lib/risk-utils';
 import { ZoomIn, ZoomOut, Maximize, RefreshCw, AlertTriangle, Clock, AlertCircle } from 'lucide-react';
 import { cn } from './ui/utils';
@@ -11,6 +11,25 @@ import { cn } from './ui/utils';
 const MAX_RENDER_NODES = 1_500;
 const MAX_RENDER_EDGES = 8_000;
 
+/** Rendered edge; ring legs carry their hop number and transaction count. */
+type DisplayEdge = EdgeData & { hop?: number; txCount?: number };
+
+// Taint colouring: tainted share of inflows (upper bound, %) → colour
+const TAINT_SEED_COLOR = '#a855f7';
+const TAINT_NONE_COLOR = '#334155';
+const TAINT_BUCKETS: { max: number; color: string; label: string }[] = [
+  { max: 25, color: '#fcd34d', label: '< 25%' },
+  { max: 50, color: '#f59e0b', label: '25–49%' },
+  { max: 75, color: '#ea580c', label: '50–74%' },
+  { max: Infinity, color: '#dc2626', label: '≥ 75%' },
+];
+
+function getTaintColor(taint: NodeData['taint']): string {
+  if (!taint) return TAINT_NONE_COLOR;
+  if (taint.seed) return TAINT_SEED_COLOR;
+  return TAINT_BUCKETS.find(b => taint.tainted_pct < b.max)!.color;
+}
+
 interface GraphViewProps {
   data: GraphAnalysisResult | null;
   onNodeSelect: (nodeId: string | null) => void;
@@ -20,6 +39,8 @@ interface GraphViewProps {
   showLabels?: boolean;
   showDirectionArrows?: boolean;
   highlightMoneyFlow?: boolean;
+  /** Colour nodes by tainted share of inflows instead of risk */
+  colorByTaint?: boolean;
   onZoomIn?: () => void;
   onZoomOut?: () => void;
   onResetView?: () => void;
@@ -37,6 +58,7 @@ export const GraphView = memo(function GraphView({
   showLabels = true,
   showDirectionArrows = true,
   highlightMoneyFlow = false,
+  colorByTaint = false,
   onZoomIn: externalZoomIn,
   onZoomOut: externalZoomOut,
   onResetView: externalResetView,
@@ -83,10 +105,11 @@ export const GraphView = memo(function GraphView({
   }, [data, timeWindow]);
 
   // Derive the capped node/edge sets before building the Cytoscape instance
-  const { displayNodeIds, displayEdges, isTruncated, hiddenCount, visibleTxCount, totalTxCount, isRingIsolated } = useMemo(() => {
+  const { displayNodeIds, displayEdges, unflaggedIds, isTruncated, hiddenCount, visibleTxCount, totalTxCount, isRingIsolated } = useMemo(() => {
     if (!data) return {
       displayNodeIds: new Set<string>(),
-      displayEdges: [],
+      displayEdges: [] as DisplayEdge[],
+      unflaggedIds: new Set<string>(),
       isTruncated: false,
       hiddenCount: 0,
       visibleTxCount: 0,
@@ -98,6 +121,31 @@ export const GraphView = memo(function GraphView({
     // Ring isolation = rings[selectedRing].members — no heuristics, no DFS, no recomputation.
     if (selectedRingId) {
       const ring = data.rings.find(r => r.id === selectedRingId);
+
+      // Full structure: every member (unscored ones included) and one edge per
+      // leg, independent of the capped edge sample and the time window
+      if (ring?.structure && ring.structure.members.length > 0) {
+        const ordered = ring.structure.shape === 'cycle' || ring.structure.shape === 'path';
+        return {
+          displayNodeIds: new Set(ring.structure.members.map(m => m.id)),
+          displayEdges: ring.structure.legs.slice(0, MAX_RENDER_EDGES).map((leg, i): DisplayEdge => ({
+            id: `${ring.id}_leg_${i}`,
+            source: leg.from,
+            target: leg.to,
+            amount: leg.amount,
+            timestamp: leg.first_ts,
+            hop: ordered ? i + 1 : undefined,
+            txCount: leg.tx_count,
+          })),
+          unflaggedIds: new Set(ring.structure.members.filter(m => !m.suspicious).map(m => m.id)),
+          isTruncated: false,
+          hiddenCount: 0,
+          visibleTxCount: ring.structure.tx_count,
+          totalTxCount: data.metadata.total_transactions,
+          isRingIsolated: true,
+        };
+      }
+
       if (ring && ring.nodes.length > 0) {
         const ringMemberSet = new Set(ring.nodes);
 
@@ -119,7 +167,8 @@ export const GraphView = memo(function GraphView({
 
         return {
           displayNodeIds: ringMemberSet,
-          displayEdges: ringEdges,
+          displayEdges: ringEdges as DisplayEdge[],
+          unflaggedIds: new Set<string>(),
           isTruncated: false,
           hiddenCount: 0,
           visibleTxCount: ringEdges.length,
@@ -156,11 +205,11 @@ export const GraphView = memo(function GraphView({
     const visibleTxCount = timeFilteredEdges.length;
 
     // Only edges where BOTH endpoints are in the display set AND within time window
-    const displayEdges = timeFilteredEdges.filter(
+    const displayEdges: DisplayEdge[] = timeFilteredEdges.filter(
       e => displayNodeIds.has(e.source) && displayNodeIds.has(e.target)
     ).slice(0, MAX_RENDER_EDGES);
 
-    return { displayNodeIds, displayEdges, isTruncated, hiddenCount, visibleTxCount, totalTxCount, isRingIsolated: false };
+    return { displayNodeIds, displayEdges, unflaggedIds: new Set<string>(), isTruncated, hiddenCount, visibleTxCount, totalTxCount, isRingIsolated: false };
   }, [data, timeWindowCutoff, selectedRingId, riskThreshold, allSuspiciousNodes]);
 
   // Ring highlighting — only needed when NOT in ring isolation mode (highlight among many nodes)
@@ -181,8 +230,8 @@ export const GraphView = memo(function GraphView({
     const nodeColor = isDarkMode ? '#e5e5e5' : '#1e293b';
     const edgeColor = isDarkMode ? '#525252' : '#cbd5e1';
     const outlineColor = isDarkMode ? '#000000' : '#f8fafc';
-    cyRef.current.style(buildStylesheet(nodeColor, edgeColor, outlineColor, showLabels, showDirectionArrows, highlightMoneyFlow));
-  }, [isDarkMode, showLabels, showDirectionArrows, highlightMoneyFlow]);
+    cyRef.current.style(buildStylesheet(nodeColor, edgeColor, outlineColor, showLabels, showDirectionArrows, highlightMoneyFlow, colorByTaint));
+  }, [isDarkMode, showLabels, showDirectionArrows, highlightMoneyFlow, colorByTaint]);
 
   // Main Cytoscape build — runs when data changes
   useEffect(() => {
@@ -209,9 +258,11 @@ export const GraphView = memo(function GraphView({
             label: nodeId.substring(0, 8) + '…',
             suspicionScore,  // CANONICAL RISK FIELD
             ringId: ring?.id,
+            unflagged: unflaggedIds.has(nodeId) || undefined,
             degree: node.total_degree,
             patterns: suspNode?.score.details.patterns || [],
             mappedColor: getRiskColor(getRiskLevel(suspicionScore)),
+            taintColor: getTaintColor(node.taint),
             mappedSize: Math.max(20, Math.min(60, 20 + (node.total_degree || 0) * 2)),
           },
         });
@@ -226,6 +277,10 @@ export const GraphView = memo(function GraphView({
             target: edge.target,
             amount: edge.amount,
             timestamp: edge.timestamp,
+            ...(edge.hop !== undefined || edge.txCount !== undefined ? {
+              legLabel: `${edge.hop !== undefined ? `#${edge.hop} · ` : ''}$${edge.amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}` +
+                (edge.txCount && edge.txCount > 1 ? ` (${edge.txCount} tx)` : ''),
+            } : {}),
           },
         });
       });
@@ -237,7 +292,7 @@ export const GraphView = memo(function GraphView({
       const cy = cytoscape({
         container: containerRef.current,
         elements,
-        style: buildStylesheet(nodeColor, edgeColor, outlineColor, showLabels, showDirectionArrows, highlightMoneyFlow),
+        style: buildStylesheet(nodeColor, edgeColor, outlineColor, showLabels, showDirectionArrows, highlightMoneyFlow, colorByTaint),
         layout: {
           name: 'cose',
           animate: false,
@@ -300,7 +355,7 @@ export const GraphView = memo(function GraphView({
     }
 
     return () => { cyRef.current?.destroy(); cyRef.current = null; };
-  }, [data, onNodeSelect, displayNodeIds, displayEdges, isDarkMode, showLabels, showDirectionArrows, highlightMoneyFlow]);
+  }, [data, onNodeSelect, displayNodeIds, displayEdges, unflaggedIds, isDarkMode, showLabels, showDirectionArrows, highlightMoneyFlow, colorByTaint]);
 
   const handleZoomIn = () => cyRef.current?.zoom(cyRef.current.zoom() * 1.2);
   const handleZoomOut = () => cyRef.current?.zoom(cyRef.current.zoom() * 0.8);
@@ -431,26 +486,49 @@ export const GraphView = memo(function GraphView({
 
       {/* Legend */}
       <div className="absolute top-4 left-4 bg-[#0a0a0a]/95 backdrop-blur-sm p-4 rounded-lg shadow-xl border border-[#262626] z-20 text-xs space-y-2.5 transition-colors">
-        <div className="font-semibold text-slate-200 mb-2 uppercase tracking-wider text-[10px]">Risk Legend</div>
-        <div className="space-y-2 pb-2 border-b border-[#262626]">
-          <div className="flex items-center gap-2">
-            <div className="w-4 h-4 rounded-full bg-green-500 shadow-sm" /><span className="text-slate-300">Low Risk</span>
-            <span className="text-slate-500 text-[10px] ml-auto">&lt; 40</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-4 h-4 rounded-full bg-orange-500 shadow-sm" /><span className="text-slate-300">Medium Risk</span>
-            <span className="text-slate-500 text-[10px] ml-auto">40–69</span>
+        <div className="font-semibold text-slate-200 mb-2 uppercase tracking-wider text-[10px]">{colorByTaint ? 'Taint Legend' : 'Risk Legend'}</div>
+        {colorByTaint ? (
+          <div className="space-y-2 pb-2 border-b border-[#262626]">
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-4 rounded-full shadow-sm" style={{ backgroundColor: TAINT_SEED_COLOR }} /><span className="text-slate-300">Confirmed Fraud</span>
+            </div>
+            {TAINT_BUCKETS.map(b => (
+              <div key={b.label} className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded-full shadow-sm" style={{ backgroundColor: b.color }} /><span className="text-slate-300">Tainted</span>
+                <span className="text-slate-500 text-[10px] ml-auto">{b.label}</span>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-4 rounded-full shadow-sm" style={{ backgroundColor: TAINT_NONE_COLOR }} /><span className="text-slate-300">Clean</span>
+            </div>
           </div>
-          <div className="flex items-center gap-2">
-            <div className="w-4 h-4 rounded-full bg-red-500 shadow-sm" /><span className="text-slate-300">High Risk</span>
-            <span className="text-slate-500 text-[10px] ml-auto">≥ 70</span>
+        ) : (
+          <div className="space-y-2 pb-2 border-b border-[#262626]">
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-4 rounded-full bg-green-500 shadow-sm" /><span className="text-slate-300">Low Risk</span>
+              <span className="text-slate-500 text-[10px] ml-auto">&lt; 40</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-4 rounded-full bg-orange-500 shadow-sm" /><span className="text-slate-300">Medium Risk</span>
+              <span className="text-slate-500 text-[10px] ml-auto">40–69</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-4 rounded-full bg-red-500 shadow-sm" /><span className="text-slate-300">High Risk</span>
+              <span className="text-slate-500 text-[10px] ml-auto">≥ 70</span>
+            </div>
           </div>
-        </div>
+        )}
         <div className="pt-1">
           <div className="flex items-center gap-2">
             <div className="w-4 h-4 rounded-full bg-slate-600 border-2 border-double border-yellow-500" />
             <span className="text-slate-300">Fraud Ring</span>
           </div>
+          {unflaggedIds.size > 0 && (
+            <div className="flex items-center gap-2 mt-2">
+              <div className="w-4 h-4 rounded-full bg-slate-600 border-2 border-dashed border-slate-500 opacity-75" />
+              <span className="text-slate-300">Unscored Ring Member</span>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -458,7 +536,7 @@ export const GraphView = memo(function GraphView({
 });
 
 // ── Stylesheet factory ────────────────────────────────────────────────────────
-function buildStylesheet(nodeColor: string, edgeColor: string, outlineColor: string, showLabels: boolean, showDirectionArrows: boolean, highlightMoneyFlow: boolean): cytoscape.StylesheetStyle[] {
+function buildStylesheet(nodeColor: string, edgeColor: string, outlineColor: string, showLabels: boolean, showDirectionArrows: boolean, highlightMoneyFlow: boolean, colorByTaint: boolean): cytoscape.StylesheetStyle[] {
   return [
     {
       selector: 'node',
@@ -468,7 +546,7 @@ function buildStylesheet(nodeColor: string, edgeColor: string, outlineColor: str
         'text-halign': 'center',
         'font-size': '10px',
         color: nodeColor,
-        'background-color': 'data(mappedColor)' as any,
+        'background-color': (colorByTaint ? 'data(taintColor)' : 'data(mappedColor)') as any,
         width: 'data(mappedSize)' as any,
         height: 'data(mappedSize)' as any,
         'text-outline-width': 2,
@@ -490,6 +568,21 @@ function buildStylesheet(nodeColor: string, edgeColor: string, outlineColor: str
       selector: 'node[?ringId]',
       style: { 'border-width': 5, 'border-style': 'double', 'border-color': '#eab308' } as any,
     },
+    {
+      selector: 'node[?unflagged]',
+      style: { 'border-width': 3, 'border-style': 'dashed', 'border-color': '#64748b', opacity: 0.75 } as any,
+    },
+    {
+      selector: 'edge[legLabel]',
+      style: {
+        label: 'data(legLabel)',
+        'font-size': '8px',
+        color: nodeColor,
+        'text-rotation': 'autorotate',
+        'text-outline-width': 2,
+        'text-outline-color': outlineColor,
+      } as any,
+    },
     {
       selector: '.highlight-ring',
       style: { 'border-width': 4, 'border-color': '#eab308', 'line-color': '#eab308', 'target-arrow-color': '#eab308', width: 3 } as any,
@@ -1,19 +1,31 @@
 import React, { memo, useMemo } from 'react';
 import { GroundTruthMetrics } from '../lib/types';
-import { Target, TrendingUp, AlertTriangle, CheckCircle, XCircle, BarChart3, Crosshair } from 'lucide-react';
+import { Target, TrendingUp, AlertTriangle, CheckCircle, XCircle, BarChart3, Crosshair, Activity, ArrowRightLeft, Users, ListChecks } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceDot, ReferenceLine, CartesianGrid } from 'recharts';
 
 interface GroundTruthPanelProps {
   groundTruth: GroundTruthMetrics;
+  /** Flag threshold the confusion matrix and headline metrics are shown at */
+  riskThreshold: number;
 }
 
-export const GroundTruthPanel = memo(function GroundTruthPanel({ groundTruth }: GroundTruthPanelProps) {
+export const GroundTruthPanel = memo(function GroundTruthPanel({ groundTruth, riskThreshold }: GroundTruthPanelProps) {
   const {
     totalFraudTx, totalLegitTx,
-    truePositives, falsePositives, trueNegatives, falseNegatives,
-    precision, recall, f1Score, accuracy,
     fraudByType, avgScoreFraudNodes, avgScoreLegitNodes,
+    sweep, rocAuc, prAuc, precisionAtK,
+    transactions, rings,
   } = groundTruth;
 
+  // Confusion matrix at the analyst's current threshold
+  const threshold = Math.max(0, Math.min(100, Math.round(riskThreshold)));
+  const { tp: truePositives, fp: falsePositives, tn: trueNegatives, fn: falseNegatives, precision, recall } = sweep[threshold];
+  const f1Score = precision + recall > 0 && truePositives > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  // Curves ordered along their x axis; ROC gets its (0,0) origin
+  const rocCurve = useMemo(() => [{ threshold: 101, fpr: 0, recall: 0 }, ...[...sweep].reverse()], [sweep]);
+  const prCurve = useMemo(() => [...sweep].reverse().filter(p => p.tp + p.fp > 0), [sweep]);
+
   // Sorted fraud-by-type entries for the breakdown table
   const typeBreakdown = useMemo(() => {
     return Object.entries(fraudByType)
@@ -27,6 +39,7 @@ export const GroundTruthPanel = memo(function GroundTruthPanel({ groundTruth }:
   }, [fraudByType]);
 
   const totalNodes = truePositives + falsePositives + trueNegatives + falseNegatives;
+  const accuracy = totalNodes > 0 ? (truePositives + trueNegatives) / totalNodes : 0;
 
   // Score separation quality
   const scoreSeparation = avgScoreFraudNodes - avgScoreLegitNodes;
@@ -48,8 +61,8 @@ export const GroundTruthPanel = memo(function GroundTruthPanel({ groundTruth }:
       <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-5">
         <MetricCard
           label="Precision"
-          value={`${(precision * 100).toFixed(1)}%`}
-          sublabel="Flagged & actually fraud"
+          value={truePositives + falsePositives > 0 ? `${(precision * 100).toFixed(1)}%` : '—'}
+          sublabel={`Flagged at score ≥ ${threshold} & actually fraud`}
           color="text-blue-400"
           bgColor="bg-blue-950/20"
           borderColor="border-blue-900/30"
@@ -80,9 +93,55 @@ export const GroundTruthPanel = memo(function GroundTruthPanel({ groundTruth }:
         />
       </div>
 
+      {/* Threshold Sweep */}
+      <div className="mb-5">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <Activity className="w-4 h-4 text-cyan-400" />
+            <span className="text-xs font-semibold text-slate-400 uppercase">Threshold Sweep (0–100)</span>
+          </div>
+          <div className="flex gap-3 text-[10px] text-slate-500">
+            <span>ROC AUC <span className="font-mono font-semibold text-cyan-300">{rocAuc.toFixed(3)}</span></span>
+            <span>PR AUC <span className="font-mono font-semibold text-cyan-300">{prAuc.toFixed(3)}</span></span>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <CurveChart
+            title="ROC"
+            data={rocCurve}
+            xKey="fpr"
+            yKey="recall"
+            xLabel="False positive rate"
+            yLabel="Recall"
+            current={{ x: sweep[threshold].fpr, y: sweep[threshold].recall }}
+            diagonal
+          />
+          <CurveChart
+            title="Precision–Recall"
+            data={prCurve}
+            xKey="recall"
+            yKey="precision"
+            xLabel="Recall"
+            yLabel="Precision"
+            current={truePositives + falsePositives > 0 ? { x: recall, y: precision } : undefined}
+          />
+        </div>
+        {precisionAtK.length > 0 && (
+          <div className="mt-3 grid gap-2" style={{ gridTemplateColumns: `repeat(${precisionAtK.length}, minmax(0, 1fr))` }}>
+            {precisionAtK.map(({ k, hits, precision: p }) => (
+              <div key={k} className="p-2 rounded bg-[#0f0f0f] border border-[#1f1f1f] text-center">
+                <div className="text-[10px] text-slate-500">Precision@{k}</div>
+                <div className="text-sm font-bold font-mono text-white">{(p * 100).toFixed(0)}%</div>
+                <div className="text-[9px] text-slate-600">{hits}/{k} fraud</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Confusion Matrix */}
       <div className="mb-5">
-        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Confusion Matrix (Node-Level)</h4>
+        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Confusion Matrix (Node-Level, Score ≥ {threshold})</h4>
         <div className="grid grid-cols-2 gap-2">
           <div className="p-3 rounded-lg bg-emerald-950/15 border border-emerald-900/30">
             <div className="flex items-center gap-1.5 mb-1">
@@ -119,6 +178,71 @@ export const GroundTruthPanel = memo(function GroundTruthPanel({ groundTruth }:
         </div>
       </div>
 
+      {/* Transaction-Level Detection */}
+      <div className="mb-5 p-3 rounded-lg bg-[#0f0f0f] border border-[#1f1f1f]">
+        <div className="flex items-center gap-2 mb-2">
+          <ArrowRightLeft className="w-4 h-4 text-blue-400" />
+          <span className="text-xs font-semibold text-slate-400 uppercase">Transaction-Level Detection</span>
+        </div>
+        <p className="text-[10px] text-slate-500 mb-2">
+          Flagged = a ring leg or touching a high-risk account. {transactions.flagged.toLocaleString()} flagged
+          ({transactions.inRing.flagged.toLocaleString()} in rings, {transactions.highRiskNode.flagged.toLocaleString()} via high-risk accounts).
+        </p>
+        <div className="grid grid-cols-4 gap-3 mb-3">
+          <MiniStat label="Precision" value={`${(transactions.precision * 100).toFixed(1)}%`} />
+          <MiniStat label="Recall" value={`${(transactions.recall * 100).toFixed(1)}%`} />
+          <MiniStat label="Ring Tx Precision" value={`${(ratio(transactions.inRing.fraud, transactions.inRing.flagged) * 100).toFixed(1)}%`} />
+          <MiniStat label="High-Risk Tx Precision" value={`${(ratio(transactions.highRiskNode.fraud, transactions.highRiskNode.flagged) * 100).toFixed(1)}%`} />
+        </div>
+        {transactions.byPattern.length > 0 && (
+          <PatternBreakdown
+            rows={transactions.byPattern.map(p => ({ pattern: p.pattern, value: p.precision, detail: `${p.fraud}/${p.flagged} tx` }))}
+          />
+        )}
+      </div>
+
+      {/* Typology Recall */}
+      {transactions.byTypology.length > 0 && (
+        <div className="mb-5 p-3 rounded-lg bg-[#0f0f0f] border border-[#1f1f1f]">
+          <div className="flex items-center gap-2 mb-2">
+            <ListChecks className="w-4 h-4 text-amber-400" />
+            <span className="text-xs font-semibold text-slate-400 uppercase">Recall by Typology</span>
+          </div>
+          <p className="text-[10px] text-slate-500 mb-2">
+            Share of each injected typology's transactions that were flagged, and of its accounts that are high risk.
+          </p>
+          <PatternBreakdown
+            rows={transactions.byTypology.map(t => ({
+              pattern: t.typology,
+              value: t.txRecall,
+              detail: `${t.flaggedTx}/${t.tx} tx · accounts ${t.highRiskAccounts}/${t.accounts}`,
+            }))}
+          />
+        </div>
+      )}
+
+      {/* Ring Purity */}
+      {rings.rings.length > 0 && (
+        <div className="mb-5 p-3 rounded-lg bg-[#0f0f0f] border border-[#1f1f1f]">
+          <div className="flex items-center gap-2 mb-2">
+            <Users className="w-4 h-4 text-purple-400" />
+            <span className="text-xs font-semibold text-slate-400 uppercase">Ring Purity</span>
+          </div>
+          <div className="grid grid-cols-3 gap-3 mb-3">
+            <MiniStat label="Avg Tx Purity" value={`${(rings.avgTxPurity * 100).toFixed(1)}%`} />
+            <MiniStat label="Avg Member Purity" value={`${(rings.avgMemberPurity * 100).toFixed(1)}%`} />
+            <MiniStat label="Rings ≥ 50% Fraud Tx" value={`${rings.rings.filter(r => r.txPurity >= 0.5).length} / ${rings.rings.length}`} />
+          </div>
+          <PatternBreakdown
+            rows={rings.byPattern.map(p => ({
+              pattern: p.pattern,
+              value: p.txPurity,
+              detail: `${p.rings} ring${p.rings === 1 ? '' : 's'} · ${p.fraudTx}/${p.txCount} tx · members ${(p.memberPurity * 100).toFixed(0)}%`,
+            }))}
+          />
+        </div>
+      )}
+
       {/* Score Separation */}
       <div className="mb-5 p-3 rounded-lg bg-[#0f0f0f] border border-[#1f1f1f]">
         <div className="flex items-center gap-2 mb-2">
@@ -239,4 +363,89 @@ const MetricCard = memo(function MetricCard({
       <div className="text-[10px] text-slate-500 mt-0.5">{sublabel}</div>
     </div>
   );
-});
\ No newline at end of file
+});
+
+// ROC / PR curve with the current threshold marked
+const CurveChart = memo(function CurveChart({
+  title, data, xKey, yKey, xLabel, yLabel, current, diagonal,
+}: {
+  title: string;
+  data: { threshold: number }[];
+  xKey: string;
+  yKey: string;
+  xLabel: string;
+  yLabel: string;
+  current?: { x: number; y: number };
+  diagonal?: boolean;
+}) {
+  return (
+    <div className="p-2 rounded-lg bg-[#0f0f0f] border border-[#1f1f1f]">
+      <div className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider mb-1 px-1">{title}</div>
+      <div className="h-44">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 10, bottom: 15, left: -10 }}>
+            <CartesianGrid stroke="#1f1f1f" />
+            <XAxis
+              type="number" dataKey={xKey} domain={[0, 1]} ticks={[0, 0.25, 0.5, 0.75, 1]}
+              tick={{ fontSize: 9, fill: '#64748b' }}
+              label={{ value: xLabel, position: 'insideBottom', offset: -8, fontSize: 9, fill: '#64748b' }}
+            />
+            <YAxis
+              type="number" domain={[0, 1]} ticks={[0, 0.25, 0.5, 0.75, 1]}
+              tick={{ fontSize: 9, fill: '#64748b' }}
+              label={{ value: yLabel, angle: -90, position: 'insideLeft', offset: 18, fontSize: 9, fill: '#64748b' }}
+            />
+            <Tooltip
+              contentStyle={{ background: '#0a0a0a', border: '1px solid #262626', fontSize: 10 }}
+              labelFormatter={(_, payload) => payload?.[0] ? `Threshold ≥ ${(payload[0].payload as { threshold: number }).threshold}` : ''}
+              formatter={(v: number, name: string) => [v.toFixed(3), name === yKey ? yLabel : name]}
+            />
+            {diagonal && <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#334155" strokeDasharray="3 3" />}
+            <Line type="linear" dataKey={yKey} stroke="#22d3ee" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            {current && <ReferenceDot x={current.x} y={current.y} r={4} fill="#f59e0b" stroke="#0a0a0a" />}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+});
+
+const ratio = (a: number, b: number) => (b > 0 ? a / b : 0);
+
+const MiniStat = memo(function MiniStat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-[10px] text-slate-500">{label}</div>
+      <div className="text-base font-bold text-white font-mono">{value}</div>
+    </div>
+  );
+});
+
+// Per-pattern share of labelled fraud, one bar per pattern
+const PatternBreakdown = memo(function PatternBreakdown({
+  rows,
+}: {
+  rows: { pattern: string; value: number; detail: string }[];
+}) {
+  return (
+    <div className="space-y-1.5 max-h-56 overflow-y-auto custom-scrollbar pr-1">
+      {rows.map(({ pattern, value, detail }) => (
+        <div key={pattern} className="flex items-center gap-3">
+          <div className="w-36 text-[11px] font-mono text-slate-400 truncate" title={pattern}>{pattern}</div>
+          <div className="flex-1">
+            <div className="h-1.5 bg-[#1a1a1a] rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${value >= 0.5 ? 'bg-emerald-500' : value >= 0.2 ? 'bg-amber-500' : 'bg-red-500/70'}`}
+                style={{ width: `${Math.max(value > 0 ? 2 : 0, value * 100)}%` }}
+              />
+            </div>
+          </div>
+          <span className="text-[10px] text-slate-500 w-44 text-right truncate">{detail}</span>
+          <span className={`w-12 text-right text-[11px] font-semibold font-mono ${value >= 0.5 ? 'text-emerald-400' : value >= 0.2 ? 'text-amber-400' : 'text-red-400'}`}>
+            {(value * 100).toFixed(1)}%
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+});
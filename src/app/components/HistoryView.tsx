@@ -118,6 +118,14 @@ export function HistoryView({ onSelectHistory, user }: HistoryViewProps) {
               <span className="font-mono bg-slate-100 dark:bg-black px-1.5 py-0.5 rounded text-xs">
                 {item.stats.totalTransactions.toLocaleString()} txns
               </span>
+              {item.result.ruleset && (
+                <span
+                  className="font-mono bg-slate-100 dark:bg-black px-1.5 py-0.5 rounded text-xs truncate"
+                  title={`Ruleset ${item.result.ruleset.name} v${item.result.ruleset.version} · checksum ${item.result.ruleset.checksum}`}
+                >
+                  {item.result.ruleset.name} v{item.result.ruleset.version}
+                </span>
+              )}
             </div>
           </div>
 
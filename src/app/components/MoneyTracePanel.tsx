@@ -0,0 +1,137 @@
+import { memo, useState } from 'react';
+import { ArrowRight, ArrowLeft, Download, Repeat } from 'lucide-react';
+import { MoneyTrace, PeerIndex, TraceDirection, TraceNode, traceFunds } from '../lib/money-trace';
+
+const HOP_OPTIONS = [1, 2, 3, 4, 5, 6];
+
+const formatAmount = (v: number) => `$${v.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+/**
+ * Follow-the-money trace for the selected account (TransactionIntelligence):
+ * forward or backward for N hops over the uncapped peer refs, shown as an
+ * indented flow tree and exportable as JSON.
+ */
+export const MoneyTracePanel = memo(function MoneyTracePanel({
+  accountId,
+  peers,
+}: {
+  accountId: string;
+  peers?: PeerIndex;
+}) {
+  const [direction, setDirection] = useState<TraceDirection>('forward');
+  const [hops, setHops] = useState(3);
+  const [trace, setTrace] = useState<MoneyTrace | null>(null);
+
+  if (!peers) {
+    return (
+      <p className="text-xs text-slate-500">
+        Tracing needs the full transaction data — re-run the analysis on the original file.
+      </p>
+    );
+  }
+
+  const handleTrace = () => setTrace(traceFunds(peers, accountId, { direction, maxHops: hops }));
+
+  const handleExport = () => {
+    if (!trace) return;
+    const blob = new Blob([JSON.stringify({ generated_at: new Date().toISOString(), ...trace }, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `money-trace-${accountId}-${trace.direction}-${Date.now()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1.5">
+        {(['forward', 'backward'] as const).map(d => (
+          <button
+            key={d}
+            onClick={() => setDirection(d)}
+            className={`px-2 py-1 rounded text-xs border transition-colors flex items-center gap-1 ${
+              direction === d ? 'bg-blue-600/20 border-blue-700 text-blue-300' : 'bg-[#0f0f0f] border-[#262626] text-slate-400 hover:text-white'
+            }`}
+          >
+            {d === 'forward' ? <ArrowRight className="w-3 h-3" /> : <ArrowLeft className="w-3 h-3" />}
+            {d === 'forward' ? 'Forward' : 'Backward'}
+          </button>
+        ))}
+        <select
+          value={hops}
+          onChange={e => setHops(Number(e.target.value))}
+          className="px-2 py-1 bg-[#0f0f0f] border border-[#262626] rounded text-xs text-white focus:outline-none"
+        >
+          {HOP_OPTIONS.map(n => <option key={n} value={n}>{n} hop{n === 1 ? '' : 's'}</option>)}
+        </select>
+        <button
+          onClick={handleTrace}
+          className="ml-auto px-2.5 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs rounded font-medium transition-colors"
+        >
+          Trace
+        </button>
+        {trace && (
+          <button onClick={handleExport} className="p-1.5 text-slate-400 hover:text-white hover:bg-[#1f1f1f] rounded transition-colors" title="Export trace">
+            <Download className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {trace && (
+        <div className="p-2 bg-[#0f0f0f] rounded-lg border border-[#1f1f1f] max-h-80 overflow-y-auto custom-scrollbar">
+          <div className="text-[10px] text-slate-500 mb-1.5">
+            {formatAmount(trace.total_amount)} {trace.direction === 'forward' ? 'sent' : 'received'} · {trace.node_count - 1} accounts
+            {' '}over {trace.max_hops} hop{trace.max_hops === 1 ? '' : 's'}
+            {trace.truncated && <span className="text-amber-400"> · truncated</span>}
+          </div>
+          {trace.tree.children.length === 0 ? (
+            <p className="text-xs text-slate-500">No {trace.direction === 'forward' ? 'outgoing' : 'incoming'} funds to trace.</p>
+          ) : (
+            trace.tree.children.map((child, idx) => <TraceRow key={idx} node={child} direction={trace.direction} />)
+          )}
+          {!!trace.tree.other_count && <OtherRow node={trace.tree} />}
+        </div>
+      )}
+    </div>
+  );
+});
+
+function TraceRow({ node, direction }: { node: TraceNode; direction: TraceDirection }) {
+  const Arrow = direction === 'forward' ? ArrowRight : ArrowLeft;
+  return (
+    <div>
+      <div
+        className="flex items-center gap-1.5 py-0.5 text-xs"
+        title={`${node.tx_count} tx · ${new Date(node.first_ts).toLocaleString()} – ${new Date(node.last_ts).toLocaleString()}\n${node.tx_ids.join(', ')}`}
+      >
+        <Arrow className="w-3 h-3 text-slate-600 shrink-0" />
+        <span className="font-mono text-slate-200 truncate">{node.account}</span>
+        {node.revisit && <Repeat className="w-3 h-3 text-rose-400 shrink-0" />}
+        <span className="ml-auto flex items-center gap-1.5 shrink-0">
+          <span className="w-12 h-1 bg-[#1f1f1f] rounded overflow-hidden">
+            <span className="block h-full bg-blue-500" style={{ width: `${Math.min(100, node.share * 100)}%` }} />
+          </span>
+          <span className="font-mono text-white w-16 text-right">{formatAmount(node.amount)}</span>
+          <span className="text-[10px] text-slate-500 w-9 text-right">{node.tx_count} tx</span>
+        </span>
+      </div>
+      {(node.children.length > 0 || !!node.other_count) && (
+        <div className="pl-3 border-l border-[#1f1f1f] ml-1.5">
+          {node.children.map((child, idx) => <TraceRow key={idx} node={child} direction={direction} />)}
+          {!!node.other_count && <OtherRow node={node} />}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function OtherRow({ node }: { node: TraceNode }) {
+  return (
+    <div className="text-[10px] text-slate-600 py-0.5 pl-4">
+      +{node.other_count} smaller branch{node.other_count === 1 ? '' : 'es'} · {formatAmount(node.other_amount ?? 0)}
+    </div>
+  );
+}
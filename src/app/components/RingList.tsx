@@ -105,6 +105,19 @@ const RingRow = memo(function RingRow({
           <Hash className="w-3 h-3" />
           <span>{ring.nodes.length} Accounts Involved</span>
         </div>
+        {ring.structure && (
+          <div className="text-[10px] text-slate-500">
+            {ring.structure.members.length} in structure · {ring.structure.legs.length} legs
+            · ${ring.structure.total_value.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+            · {ring.structure.span_hours.toFixed(1)}h
+          </div>
+        )}
+        {ring.community && (
+          <div className="text-[10px] text-slate-500">
+            Q {ring.community.modularity.toFixed(3)} · {ring.community.flow_ratio.toFixed(1)}× internal flow
+            · {ring.community.suspicious_members}/{ring.community.member_count} suspicious
+          </div>
+        )}
         <div className="flex flex-wrap gap-1 mt-2">
           {ring.patterns.slice(0, 3).map((p, i) => (
             <span key={i} className="text-[10px] uppercase tracking-wider px-1.5 py-0.5 bg-[#1f1f1f] text-slate-400 rounded border border-[#262626]">
@@ -0,0 +1,238 @@
+import { memo, useState, useCallback } from 'react';
+import { Check, Copy, Pencil, GitCompare, Trash2, Lock } from 'lucide-react';
+import {
+  Ruleset,
+  DEFAULT_RULESET,
+  listRulesets,
+  getActiveRuleset,
+  setActiveRuleset,
+  saveRuleset,
+  deleteRuleset,
+  cloneRuleset,
+  diffRulesets,
+  rulesetChecksum,
+} from '../lib/ruleset';
+
+const buttonClass =
+  'px-2.5 py-1 bg-[#171717] hover:bg-[#262626] border border-[#404040] rounded-lg text-xs text-white transition-colors flex items-center gap-1.5 disabled:opacity-40 disabled:cursor-not-allowed';
+
+/** Editable JSON view of a ruleset — bookkeeping fields are managed by the store. */
+function toEditableJson(ruleset: Ruleset): string {
+  const { builtin, created_at, updated_at, ...editable } = ruleset;
+  return JSON.stringify(editable, null, 2);
+}
+
+/**
+ * Scoring ruleset manager (Settings): lists the built-in and custom rulesets
+ * and lets the analyst activate, clone, edit (as validated JSON), diff and
+ * delete them. Only the active ruleset is used by new scans.
+ */
+export const RulesetEditor = memo(function RulesetEditor() {
+  const [rulesets, setRulesets] = useState<Ruleset[]>(() => listRulesets());
+  const [activeId, setActiveId] = useState(() => getActiveRuleset().id);
+  const [editing, setEditing] = useState<{ id: string; text: string; errors: string[] } | null>(null);
+  const [diffing, setDiffing] = useState<{ id: string; againstId: string } | null>(null);
+
+  const refresh = useCallback(() => {
+    setRulesets(listRulesets());
+    setActiveId(getActiveRuleset().id);
+  }, []);
+
+  const handleActivate = (id: string) => {
+    setActiveRuleset(id);
+    refresh();
+  };
+
+  const handleClone = (source: Ruleset) => {
+    const { ruleset, errors } = saveRuleset(cloneRuleset(source));
+    if (!ruleset) {
+      alert(errors.join('\n'));
+      return;
+    }
+    refresh();
+    setDiffing(null);
+    setEditing({ id: ruleset.id, text: toEditableJson(ruleset), errors: [] });
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(editing.text);
+    } catch (err) {
+      setEditing({ ...editing, errors: [`Invalid JSON: ${(err as Error).message}`] });
+      return;
+    }
+    if ((parsed as { id?: unknown })?.id !== editing.id) {
+      setEditing({ ...editing, errors: ['id cannot be changed — clone the ruleset instead'] });
+      return;
+    }
+    const { ruleset, errors } = saveRuleset(parsed);
+    if (!ruleset) {
+      setEditing({ ...editing, errors });
+      return;
+    }
+    setEditing(null);
+    refresh();
+  };
+
+  const handleDelete = (ruleset: Ruleset) => {
+    if (!confirm(`Delete ruleset "${ruleset.name}" v${ruleset.version}? Past analyses keep their own snapshot.`)) return;
+    deleteRuleset(ruleset.id);
+    if (editing?.id === ruleset.id) setEditing(null);
+    if (diffing?.id === ruleset.id) setDiffing(null);
+    refresh();
+  };
+
+  const byId = (id: string) => rulesets.find(r => r.id === id) ?? DEFAULT_RULESET;
+  const diffFrom = diffing && byId(diffing.againstId);
+  const diffTo = diffing && byId(diffing.id);
+  const changes = diffFrom && diffTo ? diffRulesets(diffFrom, diffTo) : [];
+
+  return (
+    <div className="space-y-3">
+      {rulesets.map(ruleset => {
+        const isActive = ruleset.id === activeId;
+        return (
+          <div
+            key={ruleset.id}
+            className={`p-3 rounded-lg border ${isActive ? 'border-blue-600/60 bg-blue-900/10' : 'border-[#262626] bg-[#0f0f0f]'}`}
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-white truncate">{ruleset.name}</span>
+                  <span className="font-mono text-xs text-slate-400">v{ruleset.version}</span>
+                  {ruleset.builtin && <Lock className="w-3 h-3 text-slate-500" />}
+                  {isActive && (
+                    <span className="px-2 py-0.5 bg-blue-600/20 text-blue-300 text-[10px] font-semibold uppercase tracking-wider rounded">
+                      Active
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-slate-400 mt-1">
+                  {ruleset.description || (ruleset.parent_id ? `Cloned from ${byId(ruleset.parent_id).name}` : 'Custom ruleset')}
+                  {' · '}
+                  <span className="font-mono">#{rulesetChecksum(ruleset)}</span>
+                </p>
+              </div>
+              <div className="flex items-center gap-1.5 shrink-0">
+                {!isActive && (
+                  <button onClick={() => handleActivate(ruleset.id)} className={buttonClass}>
+                    <Check className="w-3.5 h-3.5" /> Activate
+                  </button>
+                )}
+                <button onClick={() => handleClone(ruleset)} className={buttonClass}>
+                  <Copy className="w-3.5 h-3.5" /> Clone
+                </button>
+                <button
+                  onClick={() => {
+                    setDiffing(null);
+                    setEditing(editing?.id === ruleset.id ? null : { id: ruleset.id, text: toEditableJson(ruleset), errors: [] });
+                  }}
+                  disabled={ruleset.builtin}
+                  title={ruleset.builtin ? 'The built-in ruleset is read-only — clone it to make changes' : undefined}
+                  className={buttonClass}
+                >
+                  <Pencil className="w-3.5 h-3.5" /> Edit
+                </button>
+                <button
+                  onClick={() => {
+                    setEditing(null);
+                    setDiffing(diffing?.id === ruleset.id ? null : {
+                      id: ruleset.id,
+                      againstId: ruleset.parent_id && rulesets.some(r => r.id === ruleset.parent_id) ? ruleset.parent_id : activeId,
+                    });
+                  }}
+                  className={buttonClass}
+                >
+                  <GitCompare className="w-3.5 h-3.5" /> Diff
+                </button>
+                {!ruleset.builtin && (
+                  <button
+                    onClick={() => handleDelete(ruleset)}
+                    disabled={isActive}
+                    title={isActive ? 'Activate another ruleset before deleting this one' : undefined}
+                    className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-900/20 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {editing?.id === ruleset.id && (
+              <div className="mt-3 space-y-2">
+                <textarea
+                  value={editing.text}
+                  onChange={e => setEditing({ ...editing, text: e.target.value, errors: [] })}
+                  spellCheck={false}
+                  rows={18}
+                  className="w-full px-3 py-2 font-mono text-xs bg-black border border-[#262626] rounded-lg text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                />
+                {editing.errors.length > 0 && (
+                  <ul className="text-xs text-red-400 bg-red-900/20 p-2 rounded border border-red-900/30 space-y-0.5 max-h-32 overflow-y-auto">
+                    {editing.errors.map(err => <li key={err}>• {err}</li>)}
+                  </ul>
+                )}
+                <div className="flex items-center justify-end gap-2">
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="px-3 py-1.5 bg-[#262626] text-slate-300 text-sm rounded-lg font-medium transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg font-medium transition-colors"
+                  >
+                    Validate & Save
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {diffing?.id === ruleset.id && diffFrom && (
+              <div className="mt-3 space-y-2">
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                  Compared with
+                  <select
+                    value={diffing.againstId}
+                    onChange={e => setDiffing({ ...diffing, againstId: e.target.value })}
+                    className="px-2 py-1 bg-[#171717] border border-[#404040] rounded-lg text-xs text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {rulesets.map(r => (
+                      <option key={r.id} value={r.id}>{r.name} v{r.version}</option>
+                    ))}
+                  </select>
+                </div>
+                {changes.length === 0 ? (
+                  <p className="text-xs text-slate-500">No parameter differences.</p>
+                ) : (
+                  <table className="w-full text-xs font-mono">
+                    <thead>
+                      <tr className="text-slate-500 text-left">
+                        <th className="py-1 font-medium">Parameter</th>
+                        <th className="py-1 font-medium text-right">{diffFrom.name}</th>
+                        <th className="py-1 font-medium text-right">{ruleset.name}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changes.map(c => (
+                        <tr key={c.path} className="border-t border-[#1f1f1f]">
+                          <td className="py-1 text-slate-300">{c.path}</td>
+                          <td className="py-1 text-right text-red-400">{c.before ?? '—'}</td>
+                          <td className="py-1 text-right text-emerald-400">{c.after ?? '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+});
@@ -9,8 +9,19 @@ import {
   Cpu,
   Check,
   Trash2,
+  Layers,
+  SlidersHorizontal,
+  Code,
 } from 'lucide-react';
 import { CurrentUser } from '../lib/local-auth';
+import { JurisdictionId, JURISDICTION_PRESETS, DEFAULT_JURISDICTION } from '../lib/structuring';
+import { detectorRegistry } from '../lib/detectors';
+import { TaintModel } from '../lib/types';
+import { DEFAULT_MAX_TRANSACTIONS } from '../lib/transaction-parser';
+import { getActiveRuleset } from '../lib/ruleset';
+import { DEFAULT_RISK_THRESHOLD } from '../lib/forensics-semantics';
+import { RulesetEditor } from './RulesetEditor';
+import { CustomRulesEditor } from './CustomRulesEditor';
 
 interface SettingsViewProps {
   onSettingsChange?: (settings: UserSettings) => void;
@@ -21,6 +32,14 @@ export interface UserSettings {
   defaultTimeWindow: '24h' | '7d' | '30d';
   nodeRenderingLimit: number;
   defaultRiskThreshold: number;
+  jurisdiction: JurisdictionId;
+  dormancyDays: number | null; // null = the active ruleset's DORMANCY_DAYS
+  maxTransactions: number; // rows read per upload (0 = no limit)
+  disabledDetectors: string[];
+  customRules: string;
+  taintModel: TaintModel;
+  confirmedFraud: string[]; // account ids seeding taint propagation
+  taintLabelSeeds: boolean; // isFraud labels also seed taint
   patternVisibility: {
     circular: boolean;
     fanPattern: boolean;
@@ -31,7 +50,15 @@ export interface UserSettings {
 const defaultSettings: UserSettings = {
   defaultTimeWindow: '7d',
   nodeRenderingLimit: 1500,
-  defaultRiskThreshold: 50,
+  defaultRiskThreshold: DEFAULT_RISK_THRESHOLD,
+  jurisdiction: DEFAULT_JURISDICTION,
+  dormancyDays: null,
+  maxTransactions: DEFAULT_MAX_TRANSACTIONS,
+  disabledDetectors: [],
+  customRules: '',
+  taintModel: 'haircut',
+  confirmedFraud: [],
+  taintLabelSeeds: false,
   patternVisibility: {
     circular: false,
     fanPattern: false,
@@ -299,6 +326,98 @@ export const SettingsView = memo(function SettingsView({ onSettingsChange, user
             </span>
           </div>
         </SettingRow>
+
+        <SettingRow
+          label="Reporting Jurisdiction"
+          description={`Thresholds used by the structuring detector: ${JURISDICTION_PRESETS[settings.jurisdiction].thresholds
+            .map(t => `${t.label} ${t.limit.toLocaleString()} ${JURISDICTION_PRESETS[settings.jurisdiction].currency}`).join(', ')}.`}
+        >
+          <select
+            value={settings.jurisdiction}
+            onChange={(e) => updateSetting('jurisdiction', e.target.value as JurisdictionId)}
+            className="px-3 py-1.5 bg-[#171717] border border-[#404040] rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.values(JURISDICTION_PRESETS).map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+        </SettingRow>
+
+        <SettingRow
+          label="Dormancy Period"
+          description="Gap in activity after which an account counts as dormant (used for reactivation detection). Overrides the active ruleset's DORMANCY_DAYS threshold unless left on the ruleset value."
+        >
+          <select
+            value={settings.dormancyDays ?? ''}
+            onChange={(e) => updateSetting('dormancyDays', e.target.value === '' ? null : Number(e.target.value))}
+            className="px-3 py-1.5 bg-[#171717] border border-[#404040] rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Ruleset value ({getActiveRuleset().thresholds.DORMANCY_DAYS} days)</option>
+            <option value={30}>30 Days</option>
+            <option value={60}>60 Days</option>
+            <option value={90}>90 Days</option>
+            <option value={180}>180 Days</option>
+          </select>
+        </SettingRow>
+
+        <SettingRow
+          label="Row Limit"
+          description="Transactions read per upload. Memory grows with every row: about 1–1.3 GB at 200,000 rows (roughly 4–6 KB per row). Raise the limit only if the browser has the memory to spare."
+        >
+          <select
+            value={settings.maxTransactions}
+            onChange={(e) => updateSetting('maxTransactions', Number(e.target.value))}
+            className="px-3 py-1.5 bg-[#171717] border border-[#404040] rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value={100_000}>100,000</option>
+            <option value={200_000}>200,000</option>
+            <option value={300_000}>300,000</option>
+            <option value={500_000}>500,000</option>
+            <option value={1_000_000}>1,000,000</option>
+            <option value={2_000_000}>2,000,000</option>
+            <option value={5_000_000}>5,000,000</option>
+            <option value={0}>No limit</option>
+          </select>
+        </SettingRow>
+
+        <SettingRow
+          label="Taint Model"
+          description="How taint from confirmed fraud accounts passes through an account: poison taints every later outflow, haircut carries the balance's tainted share, FIFO spends the oldest funds first."
+        >
+          <select
+            value={settings.taintModel}
+            onChange={(e) => updateSetting('taintModel', e.target.value as TaintModel)}
+            className="px-3 py-1.5 bg-[#171717] border border-[#404040] rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="poison">Poison</option>
+            <option value="haircut">Haircut</option>
+            <option value="fifo">FIFO</option>
+          </select>
+        </SettingRow>
+
+        <SettingRow
+          label="Confirmed Fraud Accounts"
+          description="Accounts confirmed as fraudulent, one per line. Every outflow from them seeds taint on the next analysis."
+        >
+          <textarea
+            defaultValue={settings.confirmedFraud.join('\n')}
+            onBlur={(e) => updateSetting('confirmedFraud', e.target.value.split('\n').map(l => l.trim()).filter(Boolean))}
+            rows={3}
+            spellCheck={false}
+            placeholder="C1234567890"
+            className="w-56 px-3 py-1.5 bg-[#171717] border border-[#404040] rounded-lg text-xs font-mono text-white focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+          />
+        </SettingRow>
+
+        <SettingRow
+          label="Seed Taint From Labels"
+          description="Also seed taint from transactions labelled isFraud. Ground-truth metrics are then measured without the taint detector, since the labels are their answer key."
+        >
+          <Toggle
+            enabled={settings.taintLabelSeeds}
+            onChange={(val) => updateSetting('taintLabelSeeds', val)}
+          />
+        </SettingRow>
       </SettingSection>
 
       {/* Detection Visibility */}
@@ -329,7 +448,7 @@ export const SettingsView = memo(function SettingsView({ onSettingsChange, user
 
         <SettingRow
           label="Rapid Pass-Through Pattern"
-          description="Show shell accounts with fast fund turnover (low balance retention)."
+          description="Show accounts that forward most of their inflow within hours (FIFO dwell time)."
         >
           <Toggle
             enabled={settings.patternVisibility.rapidPassThrough}
@@ -338,6 +457,48 @@ export const SettingsView = memo(function SettingsView({ onSettingsChange, user
         </SettingRow>
       </SettingSection>
 
+      {/* Detectors */}
+      <SettingSection
+        icon={<Layers className="w-5 h-5" />}
+        title="Detectors"
+        description="Enable or disable individual detectors for new scans. Disabled detectors contribute no scores or rings."
+      >
+        {detectorRegistry.list().map(detector => (
+          <SettingRow key={detector.id} label={detector.label} description={detector.description}>
+            <Toggle
+              enabled={!settings.disabledDetectors.includes(detector.id)}
+              onChange={(val) => updateSetting(
+                'disabledDetectors',
+                val
+                  ? settings.disabledDetectors.filter(id => id !== detector.id)
+                  : [...settings.disabledDetectors, detector.id]
+              )}
+            />
+          </SettingRow>
+        ))}
+      </SettingSection>
+
+      {/* Custom Rules */}
+      <SettingSection
+        icon={<Code className="w-5 h-5" />}
+        title="Custom Rules"
+        description="Bespoke detection rules with windowed aggregates, counterparty filters and transaction-type predicates. Matching accounts get the rule's points under its pattern name."
+      >
+        <CustomRulesEditor
+          value={settings.customRules}
+          onSave={(source) => updateSetting('customRules', source)}
+        />
+      </SettingSection>
+
+      {/* Scoring Ruleset */}
+      <SettingSection
+        icon={<SlidersHorizontal className="w-5 h-5" />}
+        title="Scoring Ruleset"
+        description="Weights, thresholds, caps and ring formulas used for new scans. Clone the built-in ruleset to change them; every analysis records the ruleset version and checksum it ran with."
+      >
+        <RulesetEditor />
+      </SettingSection>
+
       {/* Account & Security */}
       <SettingSection
         icon={<Shield className="w-5 h-5" />}
@@ -496,11 +657,11 @@ export const SettingsView = memo(function SettingsView({ onSettingsChange, user
         <AlertCircle className="w-5 h-5 text-blue-400 shrink-0 mt-0.5" />
         <div>
           <h3 className="text-sm font-semibold text-blue-200 mb-1">
-            Settings Do Not Affect Detection
+            Settings Apply to New Scans
           </h3>
           <p className="text-xs text-blue-300">
-            All configuration changes are visibility and workflow preferences only. Detection algorithms, scoring
-            formulas, and pattern thresholds remain unchanged.
+            Jurisdiction, dormancy, detector, custom rule and ruleset changes take effect on the next analysis. Past results keep
+            the ruleset snapshot they were produced with; visibility options only change what is displayed.
           </p>
         </div>
       </div>
@@ -56,7 +56,7 @@ export const StatsPanel = memo(function StatsPanel({ data }: StatsPanelProps) {
           icon={<Target className="w-6 h-6" />}
           iconBg="bg-emerald-900/20"
           iconColor="text-emerald-400"
-          label="Detection F1"
+          label={`Detection F1 (≥ ${data!.ground_truth!.threshold})`}
           value={`${(data!.ground_truth!.f1Score * 100).toFixed(1)}%`}
         />
       )}
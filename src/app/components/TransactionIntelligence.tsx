@@ -1,8 +1,52 @@
 import React from 'react';
 import { X, TrendingUp, TrendingDown, Users, Clock, AlertTriangle, Shield, Tag } from 'lucide-react';
-import { NodeData, GraphAnalysisResult } from '../lib/types';
+import { NodeData, GraphAnalysisResult, ScoreContribution } from '../lib/types';
 import { getRiskInfo } from '../lib/risk-utils';
 import { classifyAccountRole, getRoleBadgeColor } from '../lib/role-classifier';
+import { DWELL_BUCKETS } from '../lib/dwell-time';
+import { MoneyTracePanel } from './MoneyTracePanel';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+
+const COMPONENT_COLORS: Record<ScoreContribution['component'], string> = {
+  structural: '#f97316',
+  behavioral: '#a855f7',
+  network:    '#3b82f6',
+};
+
+interface WaterfallStep {
+  label: string;
+  base: number;
+  delta: number;
+  color: string;
+  value: number;
+}
+
+/**
+ * Waterfall steps for a score: one floating bar per contribution (its applied
+ * points, running left to right), a bar for anything the 100-point total cap
+ * removed, and the final total.
+ */
+function buildWaterfall(contributions: ScoreContribution[], total: number): WaterfallStep[] {
+  const steps: WaterfallStep[] = [];
+  let running = 0;
+  for (const c of contributions) {
+    if (c.applied === 0) continue;
+    const next = running + c.applied;
+    steps.push({
+      label: c.rule.replace(/_/g, ' '),
+      base: Math.min(running, next),
+      delta: Math.abs(c.applied),
+      color: c.applied < 0 ? '#22c55e' : COMPONENT_COLORS[c.component],
+      value: c.applied,
+    });
+    running = next;
+  }
+  if (running > total) {
+    steps.push({ label: 'total cap', base: total, delta: running - total, color: '#64748b', value: total - running });
+  }
+  steps.push({ label: 'total', base: 0, delta: total, color: '#ef4444', value: total });
+  return steps;
+}
 
 interface TransactionIntelligenceProps {
   selectedNodeId: string | null;
@@ -195,9 +239,147 @@ export function TransactionIntelligence({ selectedNodeId, data, onClose }: Trans
               <div className="text-[10px] text-slate-500 mb-1">Flow-Through</div>
               <div className="text-sm font-semibold text-white">{(node.flow_through * 100).toFixed(0)}%</div>
             </div>
+            <div className="p-3 bg-[#0f0f0f] rounded-lg border border-[#1f1f1f]">
+              <div className="text-[10px] text-slate-500 mb-1">Time Concentration</div>
+              <div className="text-sm font-semibold text-white">{(node.time_concentration ?? 0).toFixed(2)} adj. Gini</div>
+            </div>
+            <div className="p-3 bg-[#0f0f0f] rounded-lg border border-[#1f1f1f]">
+              <div className="text-[10px] text-slate-500 mb-1">Amount Variation</div>
+              <div className="text-sm font-semibold text-white">
+                {((node.amount_cv ?? 0) * 100).toFixed(0)}% CV
+              </div>
+              <div className="text-[10px] text-slate-600">σ² {(node.amount_variance ?? 0).toLocaleString(undefined, { maximumFractionDigits: 0 })}</div>
+            </div>
           </div>
         </div>
 
+        {/* Network Centrality */}
+        {node.pagerank !== undefined && (
+          <div>
+            <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Network Centrality</h4>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="p-3 bg-[#0f0f0f] rounded-lg border border-[#1f1f1f]">
+                <div className="text-[10px] text-slate-500 mb-1">PageRank (amount)</div>
+                <div className="text-sm font-semibold text-white">{(node.pagerank * data.nodes.size).toFixed(2)}× avg</div>
+              </div>
+              <div className="p-3 bg-[#0f0f0f] rounded-lg border border-[#1f1f1f]">
+                <div className="text-[10px] text-slate-500 mb-1">Betweenness</div>
+                <div className="text-sm font-semibold text-white">{((node.betweenness || 0) * 100).toFixed(3)}%</div>
+              </div>
+              <div className="p-3 bg-[#0f0f0f] rounded-lg border border-[#1f1f1f]">
+                <div className="text-[10px] text-slate-500 mb-1">HITS Hub</div>
+                <div className="text-sm font-semibold text-white">{(node.hub_score || 0).toFixed(3)}</div>
+              </div>
+              <div className="p-3 bg-[#0f0f0f] rounded-lg border border-[#1f1f1f]">
+                <div className="text-[10px] text-slate-500 mb-1">HITS Authority</div>
+                <div className="text-sm font-semibold text-white">{(node.authority_score || 0).toFixed(3)}</div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Dwell Time */}
+        {node.dwell && (
+          <div>
+            <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Dwell Time (FIFO)</h4>
+            <div className="grid grid-cols-2 gap-2 mb-2">
+              <div className="p-3 bg-[#0f0f0f] rounded-lg border border-[#1f1f1f]">
+                <div className="text-[10px] text-slate-500 mb-1">Median / P10 Hold</div>
+                <div className="text-sm font-semibold text-white">
+                  {node.dwell.median_hold_hours.toFixed(1)}h / {node.dwell.p10_hold_hours.toFixed(1)}h
+                </div>
+              </div>
+              <div className="p-3 bg-[#0f0f0f] rounded-lg border border-[#1f1f1f]">
+                <div className="text-[10px] text-slate-500 mb-1">Forwarded ≤1h / ≤24h</div>
+                <div className="text-sm font-semibold text-white">
+                  {node.dwell.forwarded_1h_pct.toFixed(0)}% / {node.dwell.forwarded_24h_pct.toFixed(0)}%
+                </div>
+              </div>
+            </div>
+            <div className="h-28 p-2 bg-[#0f0f0f] rounded-lg border border-[#1f1f1f]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={DWELL_BUCKETS.map((b, i) => ({ bucket: b.label, amount: node.dwell!.hold_histogram[i] }))}>
+                  <XAxis dataKey="bucket" tick={{ fontSize: 9, fill: '#64748b' }} axisLine={false} tickLine={false} />
+                  <YAxis hide />
+                  <Tooltip
+                    cursor={{ fill: '#1f1f1f' }}
+                    contentStyle={{ background: '#0a0a0a', border: '1px solid #262626', fontSize: 10 }}
+                    formatter={(v: number) => [`$${v.toLocaleString(undefined, { maximumFractionDigits: 0 })}`, 'Forwarded']}
+                  />
+                  <Bar dataKey="amount" fill="#f97316" radius={[2, 2, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+
+        {/* Taint Exposure */}
+        {node.taint && (
+          <div>
+            <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Taint Exposure ({node.taint.model})</h4>
+            {node.taint.seed ? (
+              <p className="text-xs text-purple-300">Confirmed fraud account — every outflow is tainted.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="p-3 bg-[#0f0f0f] rounded-lg border border-[#1f1f1f]">
+                  <div className="text-[10px] text-slate-500 mb-1">Tainted Inflow</div>
+                  <div className="text-sm font-semibold text-white">
+                    ${node.taint.tainted_amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                  </div>
+                </div>
+                <div className="p-3 bg-[#0f0f0f] rounded-lg border border-[#1f1f1f]">
+                  <div className="text-[10px] text-slate-500 mb-1">Share of Inflows</div>
+                  <div className="text-sm font-semibold text-white">{node.taint.tainted_pct.toFixed(1)}%</div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Activity Timeline */}
+        {node.lifecycle && (
+          <div>
+            <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Activity Timeline</h4>
+            <div className="space-y-1.5">
+              {node.lifecycle.phases.map((phase, idx) => (
+                <div
+                  key={idx}
+                  className={`p-2 rounded border text-[10px] ${
+                    phase.kind === 'active'
+                      ? phase.start === node.lifecycle!.reactivated_at
+                        ? 'bg-amber-950/20 border-amber-900/40'
+                        : 'bg-[#0f0f0f] border-[#1f1f1f]'
+                      : 'bg-black/20 border-dashed border-[#262626]'
+                  }`}
+                >
+                  <div className="flex justify-between">
+                    <span className={phase.kind === 'active' ? 'text-slate-200 font-semibold' : 'text-slate-500 italic'}>
+                      {phase.kind === 'active'
+                        ? phase.start === node.lifecycle!.reactivated_at ? 'Reactivated' : 'Active'
+                        : phase.kind === 'dormant' ? 'Dormant' : 'Silent'}
+                    </span>
+                    <span className="text-slate-500">
+                      {new Date(phase.start).toLocaleDateString()} – {new Date(phase.end).toLocaleDateString()}
+                      {' '}({Math.max(0, (phase.end - phase.start) / 86_400_000).toFixed(1)}d)
+                    </span>
+                  </div>
+                  {phase.kind === 'active' && (
+                    <div className="text-slate-500 mt-0.5">
+                      {phase.tx_count} tx · in ${phase.amount_in.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      {' '}· out ${phase.amount_out.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+            {node.lifecycle.mule_lifecycle && (
+              <div className="mt-2 text-[10px] text-rose-300">
+                New → funded → cashed out → silent: burner-mule lifecycle
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Ring Membership */}
         {rings.length > 0 && (
           <div>
@@ -230,6 +412,12 @@ export function TransactionIntelligence({ selectedNodeId, data, onClose }: Trans
           </div>
         )}
 
+        {/* Follow the Money */}
+        <div>
+          <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Follow the Money</h4>
+          <MoneyTracePanel key={node.id} accountId={node.id} peers={data.peers} />
+        </div>
+
         {/* Transaction Timeline Preview */}
         <div>
           <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Transaction Timeline</h4>
@@ -259,6 +447,60 @@ export function TransactionIntelligence({ selectedNodeId, data, onClose }: Trans
           </div>
         </div>
 
+        {/* Score Breakdown */}
+        {susp && susp.score.details?.contributions && susp.score.details.contributions.length > 0 && (
+          <div>
+            <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Score Breakdown</h4>
+            <div className="p-2 bg-[#0f0f0f] rounded-lg border border-[#1f1f1f] mb-2">
+              {(() => {
+                const steps = buildWaterfall(susp.score.details.contributions!, susp.score.total);
+                return (
+                  <ResponsiveContainer width="100%" height={steps.length * 22 + 10}>
+                    <BarChart data={steps} layout="vertical" barCategoryGap={3}>
+                      <XAxis type="number" domain={[0, 100]} hide />
+                      <YAxis type="category" dataKey="label" width={130} tick={{ fontSize: 9, fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+                      <Tooltip
+                        cursor={{ fill: '#1f1f1f' }}
+                        contentStyle={{ background: '#0a0a0a', border: '1px solid #262626', fontSize: 10 }}
+                        formatter={(_v: number, _name: string, item: { payload?: WaterfallStep }) =>
+                          [`${item.payload!.value > 0 ? '+' : ''}${item.payload!.value.toFixed(1)}`, 'Points']}
+                      />
+                      <Bar dataKey="base" stackId="w" fill="transparent" tooltipType="none" isAnimationActive={false} />
+                      <Bar dataKey="delta" stackId="w" radius={[0, 2, 2, 0]} isAnimationActive={false}>
+                        {steps.map((step, idx) => <Cell key={idx} fill={step.color} />)}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                );
+              })()}
+            </div>
+            <div className="space-y-1.5">
+              {susp.score.details.contributions.map((c, idx) => (
+                <div key={idx} className="p-2 bg-[#0f0f0f] border border-[#1f1f1f] rounded text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-slate-300 truncate" title={c.detector}>{c.rule.replace(/_/g, ' ')}</span>
+                    <span className="flex items-center gap-1.5 shrink-0">
+                      <span className="text-[10px] uppercase tracking-wider" style={{ color: COMPONENT_COLORS[c.component] }}>{c.component}</span>
+                      <span className="font-mono text-white">
+                        {c.capped ? `${c.points.toFixed(0)} → ${c.applied.toFixed(0)}` : `${c.applied > 0 ? '+' : ''}${c.applied.toFixed(0)}`}
+                      </span>
+                      {c.capped && (
+                        <span className="px-1.5 py-0.5 bg-slate-800 text-slate-400 text-[9px] font-semibold uppercase rounded">capped</span>
+                      )}
+                    </span>
+                  </div>
+                  {c.instance_ids && c.instance_ids.length > 0 && (
+                    <div className="font-mono text-[10px] text-orange-500/70 mt-1">{c.instance_ids.join(', ')}</div>
+                  )}
+                  {c.tx_ids && c.tx_ids.length > 0 && (
+                    <div className="font-mono text-[10px] text-slate-500 break-all mt-1">{c.tx_ids.join(', ')}</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Risk Factors */}
         {susp && susp.score.details?.patterns && susp.score.details.patterns.length > 0 && (
           <div>
@@ -273,6 +515,21 @@ export function TransactionIntelligence({ selectedNodeId, data, onClose }: Trans
             </div>
           </div>
         )}
+
+        {/* Cited evidence */}
+        {susp && susp.score.details?.evidence && susp.score.details.evidence.length > 0 && (
+          <div>
+            <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">Evidence</h4>
+            <div className="space-y-2">
+              {susp.score.details.evidence.map((ev, idx) => (
+                <div key={idx} className="p-2 bg-[#0f0f0f] border border-[#1f1f1f] rounded text-xs">
+                  <div className="text-slate-300 mb-1">{ev.note}</div>
+                  <div className="font-mono text-[10px] text-slate-500 break-all">{ev.tx_ids.join(', ')}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       <style>{`
@@ -0,0 +1,142 @@
+/**
+ * Per-account activity metrics shared by both graph engines.
+ *
+ *  - time_concentration: Gini coefficient over 24 hour-of-day (UTC) buckets,
+ *    corrected for chance. A handful of transactions at random hours already
+ *    has a high raw Gini (5 tx average 0.82), so the score is the Gini in
+ *    excess of its expectation under uniformly random hours for the same
+ *    count: 0 = no more concentrated than chance, 1 = everything in one hour.
+ *  - amount_variance / amount_cv: population variance and coefficient of
+ *    variation of an account's transaction amounts. A very low CV over many
+ *    transactions points at scripted, fixed-size transfers.
+ *
+ * Amounts are summarised in a fixed-size AmountSketch as they stream in, so
+ * a hub with a million transactions costs no more memory than a singleton.
+ * Count, mean, variance, min and max are exact (Welford); similar-amount
+ * pairs are counted against the first AMOUNT_SAMPLE_SIZE amounts only.
+ */
+
+export const HOURS_PER_DAY = 24;
+
+/** Adds one transaction to a node's 24-bucket hour-of-day histogram. */
+export function recordHour(buckets: Uint32Array, timestampMs: number): void {
+  if (!Number.isFinite(timestampMs)) return;
+  buckets[new Date(timestampMs).getUTCHours()]++;
+}
+
+/** Gini coefficient of a non-negative histogram (0 when empty). */
+export function giniCoefficient(buckets: ArrayLike<number>): number {
+  const n = buckets.length;
+  let total = 0;
+  for (let i = 0; i < n; i++) total += buckets[i];
+  if (n === 0 || total === 0) return 0;
+
+  // Sorted form: G = Σ (2i − n − 1)·x_i / (n·Σx), i = 1..n ascending
+  const sorted = Array.from(buckets).sort((a, b) => a - b);
+  let weighted = 0;
+  for (let i = 0; i < n; i++) weighted += (2 * (i + 1) - n - 1) * sorted[i];
+  return weighted / (n * total);
+}
+
+const MAX_HOUR_GINI = 1 - 1 / HOURS_PER_DAY; // every transaction in one hour
+
+// Exact expectations below this count, the normal approximation above it
+const EXACT_GINI_MAX_TX = 100;
+const exactGini: number[] = [];
+
+function binomialPmf(n: number, p: number): Float64Array {
+  const pmf = new Float64Array(n + 1);
+  let log = n * Math.log(1 - p);
+  pmf[0] = Math.exp(log);
+  for (let k = 1; k <= n; k++) {
+    log += Math.log((n - k + 1) / k) + Math.log(p / (1 - p));
+    pmf[k] = Math.exp(log);
+  }
+  return pmf;
+}
+
+/**
+ * Expected hour-of-day Gini of `n` transactions at uniformly random hours.
+ * G = Σᵢ Σⱼ |xᵢ − xⱼ| / (2·24·n), so E[G] = 23·E|xᵢ − xⱼ| / (2n) for any two
+ * buckets of the multinomial; for large n, E|xᵢ − xⱼ| ≈ 2·√(n / 24π).
+ */
+export function expectedHourGini(n: number): number {
+  if (n <= 1) return MAX_HOUR_GINI;
+  if (n > EXACT_GINI_MAX_TX) return (HOURS_PER_DAY - 1) / Math.sqrt(HOURS_PER_DAY * Math.PI * n);
+  if (exactGini[n] === undefined) {
+    const first = binomialPmf(n, 1 / HOURS_PER_DAY);
+    let meanAbsDiff = 0;
+    for (let a = 0; a <= n; a++) {
+      const second = binomialPmf(n - a, 1 / (HOURS_PER_DAY - 1)); // the other bucket, given a
+      let diff = 0;
+      for (let b = 0; b <= n - a; b++) diff += second[b] * Math.abs(a - b);
+      meanAbsDiff += first[a] * diff;
+    }
+    exactGini[n] = (HOURS_PER_DAY - 1) * meanAbsDiff / (2 * n);
+  }
+  return exactGini[n];
+}
+
+/** Hour-of-day Gini in excess of chance for the histogram's count, scaled to 0–1. */
+export function timeConcentration(buckets: ArrayLike<number>): number {
+  let n = 0;
+  for (let i = 0; i < buckets.length; i++) n += buckets[i];
+  const expected = expectedHourGini(n);
+  if (expected >= MAX_HOUR_GINI) return 0;
+  const excess = (giniCoefficient(buckets) - expected) / (MAX_HOUR_GINI - expected);
+  return Math.min(1, Math.max(0, excess));
+}
+
+/** Amounts kept per account for the similar-pair count. */
+export const AMOUNT_SAMPLE_SIZE = 32;
+
+/** Running summary of one account's transaction amounts. */
+export interface AmountSketch {
+  count: number;
+  mean: number;
+  m2: number;            // sum of squared deviations from the mean (Welford)
+  min: number;
+  max: number;
+  sample: number[];      // first AMOUNT_SAMPLE_SIZE amounts
+  similarPairs: number;  // pairs within the similarity band, counted up to the cap it was recorded with
+}
+
+export function createAmountSketch(): AmountSketch {
+  return { count: 0, mean: 0, m2: 0, min: Infinity, max: -Infinity, sample: [], similarPairs: 0 };
+}
+
+/**
+ * Adds one amount. `similarityPct` is the relative band (|a − b| / mean(a, b))
+ * within which two amounts count as similar; pair counting stops at `pairCap`.
+ */
+export function recordAmount(sketch: AmountSketch, amount: number, similarityPct: number, pairCap: number): void {
+  sketch.count++;
+  const delta = amount - sketch.mean;
+  sketch.mean += delta / sketch.count;
+  sketch.m2 += delta * (amount - sketch.mean);
+  if (amount < sketch.min) sketch.min = amount;
+  if (amount > sketch.max) sketch.max = amount;
+
+  for (let i = 0; i < sketch.sample.length && sketch.similarPairs < pairCap; i++) {
+    const other = sketch.sample[i];
+    const avg = (amount + other) / 2;
+    if (avg > 0 && Math.abs(amount - other) / avg <= similarityPct) sketch.similarPairs++;
+  }
+  if (sketch.sample.length < AMOUNT_SAMPLE_SIZE) sketch.sample.push(amount);
+}
+
+/** Population variance and coefficient of variation of the sketched amounts. */
+export function amountDispersion(sketch: AmountSketch): { variance: number; cv: number } {
+  if (sketch.count < 2) return { variance: 0, cv: 0 };
+  const variance = sketch.m2 / sketch.count;
+  const cv = sketch.mean !== 0 ? Math.sqrt(variance) / Math.abs(sketch.mean) : 0;
+  return { variance, cv };
+}
+
+/** Whether any amount lies `zScore` or more standard deviations from the mean (the min or the max does, if any). */
+export function hasAmountOutlier(sketch: AmountSketch, zScore: number): boolean {
+  const { variance } = amountDispersion(sketch);
+  const std = Math.sqrt(variance);
+  if (std <= 0) return false;
+  return Math.max(sketch.max - sketch.mean, sketch.mean - sketch.min) / std >= zScore;
+}
@@ -0,0 +1,100 @@
+/**
+ * Analysis Client — runs analyses in the background worker
+ *
+ * The page-side half of analysis-protocol.ts. A single worker is kept alive
+ * between runs and recreated after it has been terminated.
+ *
+ * Cancelling asks the worker to abort first, which keeps it warm for the next
+ * run. The engine only checks for cancellation between chunks and between
+ * detectors, so if the worker has not confirmed within CANCEL_GRACE_MS it is
+ * terminated instead — the run stops either way.
+ */
+
+import { GraphAnalysisResult } from './types';
+import { UploadProgress } from './chunked-uploader';
+import { AnalysisOptions, AnalysisRequest, AnalysisResponse, AnalysisSource } from './analysis-protocol';
+
+const CANCEL_GRACE_MS = 1_000;
+
+export interface AnalysisRun {
+  /** The result, or null when the run was cancelled. Rejects when the analysis fails. */
+  result: Promise<GraphAnalysisResult | null>;
+  cancel(): void;
+}
+
+export interface AnalysisHandlers {
+  onProgress: (progress: UploadProgress) => void;
+  onNotice?: (message: string) => void;
+}
+
+let worker: Worker | null = null;
+let nextRunId = 1;
+
+function getWorker(): Worker {
+  if (!worker) worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+  return worker;
+}
+
+function terminateWorker(): void {
+  worker?.terminate();
+  worker = null;
+}
+
+export function startAnalysis(source: AnalysisSource, options: AnalysisOptions, handlers: AnalysisHandlers): AnalysisRun {
+  const runId = nextRunId++;
+  const target = getWorker();
+  let done = false;
+  let graceTimer: ReturnType<typeof setTimeout> | undefined;
+  let resolveRun: (result: GraphAnalysisResult | null) => void;
+  let rejectRun: (error: Error) => void;
+  const result = new Promise<GraphAnalysisResult | null>((resolve, reject) => {
+    resolveRun = resolve;
+    rejectRun = reject;
+  });
+
+  const settle = (outcome: { result: GraphAnalysisResult | null } | { error: Error }) => {
+    if (done) return;
+    done = true;
+    clearTimeout(graceTimer);
+    target.removeEventListener('message', onMessage);
+    target.removeEventListener('error', onError);
+    if ('error' in outcome) rejectRun(outcome.error);
+    else resolveRun(outcome.result);
+  };
+
+  function onMessage(event: MessageEvent<AnalysisResponse>) {
+    const message = event.data;
+    if (message.runId !== runId) return;
+    switch (message.type) {
+      case 'progress':  handlers.onProgress(message.progress); break;
+      case 'notice':    handlers.onNotice?.(message.message); break;
+      case 'result':    settle({ result: message.result }); break;
+      case 'cancelled': settle({ result: null }); break;
+      case 'error':     settle({ error: new Error(message.message) }); break;
+    }
+  }
+
+  // The worker failed to load or crashed (e.g. ran out of memory)
+  function onError(event: ErrorEvent) {
+    event.preventDefault();
+    if (target === worker) terminateWorker();
+    settle({ error: new Error(event.message || 'The analysis worker stopped unexpectedly.') });
+  }
+
+  target.addEventListener('message', onMessage);
+  target.addEventListener('error', onError);
+  target.postMessage({ type: 'analyze', runId, source, options } satisfies AnalysisRequest);
+
+  return {
+    result,
+    cancel() {
+      if (done) return;
+      target.postMessage({ type: 'cancel', runId } satisfies AnalysisRequest);
+      graceTimer = setTimeout(() => {
+        // Still inside a detector pass — stop the worker outright
+        if (target === worker) terminateWorker();
+        settle({ result: null });
+      }, CANCEL_GRACE_MS);
+    },
+  };
+}
@@ -5,11 +5,12 @@
  */
 
 import { Transaction, GraphAnalysisResult } from './types';
-import { uploadAndAnalyze, UploadProgress } from './chunked-uploader';
+import { uploadAndAnalyze, UploadProgress, EngineConfig } from './chunked-uploader';
 
 export interface AnalysisOptions {
   transactions: Transaction[];
   onProgress: (progress: UploadProgress) => void;
+  config?: EngineConfig;
 }
 
 export async function handleAnalysis(options: AnalysisOptions): Promise<{
@@ -18,7 +19,7 @@ export async function handleAnalysis(options: AnalysisOptions): Promise<{
 }> {
   const startTime = performance.now();
   
-  const result = await uploadAndAnalyze(options.transactions, options.onProgress);
+  const result = await uploadAndAnalyze(options.transactions, options.onProgress, options.config);
   
   const endTime = performance.now();
   const executionTime = endTime - startTime;
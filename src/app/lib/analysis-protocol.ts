@@ -0,0 +1,41 @@
+/**
+ * Analysis Worker Protocol
+ *
+ * Messages between the page and the analysis worker (analysis.worker.ts).
+ * The worker does everything from parsing the upload to the final result, so
+ * the page only sends what to analyse and receives progress and the outcome.
+ *
+ * Every message carries the `runId` of the run it belongs to; the page
+ * ignores anything from a run it has since cancelled or replaced.
+ *
+ * The engine config is built on the page (settings and rulesets live in
+ * localStorage, which workers cannot read) and must stay structured-clonable.
+ */
+
+import { GraphAnalysisResult, Transaction } from './types';
+import { EngineConfig, UploadProgress } from './chunked-uploader';
+
+/** What to analyse: an uploaded file, pasted text, or transactions built in the page (demo, synthetic). */
+export type AnalysisSource =
+  | { kind: 'file'; file: File }
+  | { kind: 'text'; text: string }
+  | { kind: 'transactions'; transactions: Transaction[] };
+
+/** Per-run settings: the engine config, and how many rows to read from a file or paste (0 = no limit). */
+export interface AnalysisOptions {
+  config: EngineConfig;
+  maxTransactions: number;
+}
+
+/** Page → worker */
+export type AnalysisRequest =
+  | { type: 'analyze'; runId: number; source: AnalysisSource; options: AnalysisOptions }
+  | { type: 'cancel'; runId: number };
+
+/** Worker → page */
+export type AnalysisResponse =
+  | { type: 'progress'; runId: number; progress: UploadProgress }
+  | { type: 'notice'; runId: number; message: string }   // non-fatal, e.g. the row limit was reached
+  | { type: 'result'; runId: number; result: GraphAnalysisResult }
+  | { type: 'cancelled'; runId: number }
+  | { type: 'error'; runId: number; message: string };
@@ -0,0 +1,80 @@
+/**
+ * Analysis Worker — parses the upload and runs the engine off the main thread
+ *
+ * Files are streamed: the parser hands chunks to the engine as it reads
+ * them, so the whole file is never held in memory. The graph still grows
+ * with every row, which is what the row limit in the options guards.
+ *
+ * One run at a time: a new `analyze` request aborts the run in progress.
+ * `cancel` aborts through the engine's AbortSignal, which is checked between
+ * chunks and between detectors; the page terminates the worker instead if a
+ * long detector pass keeps it from answering (see analysis-client.ts).
+ */
+
+import { AnalysisRequest, AnalysisResponse, AnalysisSource } from './analysis-protocol';
+import { TransactionChunk, analyzeTransactionStream, chunkTransactions } from './chunked-uploader';
+import { ReadSummary, parseTransactionText, readTransactionFile } from './transaction-parser';
+
+const post = (message: AnalysisResponse) => self.postMessage(message);
+
+let current: { runId: number; controller: AbortController } | null = null;
+
+async function* readSource(source: AnalysisSource, maxTransactions: number): AsyncGenerator<TransactionChunk, ReadSummary> {
+  switch (source.kind) {
+    case 'file':
+      return yield* readTransactionFile(source.file, { maxTransactions });
+    case 'text': {
+      const { transactions, hitLimit } = parseTransactionText(source.text, { maxTransactions });
+      yield* chunkTransactions(transactions);
+      return { count: transactions.length, hitLimit };
+    }
+    case 'transactions':
+      yield* chunkTransactions(source.transactions);
+      return { count: source.transactions.length, hitLimit: false };
+  }
+}
+
+async function analyze({ runId, source, options }: Extract<AnalysisRequest, { type: 'analyze' }>) {
+  current?.controller.abort();
+  const controller = new AbortController();
+  current = { runId, controller };
+
+  // Reports the row limit once the source has been read, before detection starts
+  async function* chunks() {
+    const { count, hitLimit } = yield* readSource(source, options.maxTransactions);
+    if (hitLimit) {
+      post({
+        type: 'notice',
+        runId,
+        message: `Large dataset: analysed the first ${count.toLocaleString()} transactions ` +
+          `(row limit: ${options.maxTransactions.toLocaleString()}). Raise or remove the limit in Settings to analyse the whole file.`,
+      });
+    }
+  }
+
+  try {
+    post({
+      type: 'progress',
+      runId,
+      progress: { status: 'uploading', percent: 0, message: source.kind === 'file' ? `Reading ${source.file.name}...` : 'Reading transactions...' },
+    });
+    const result = await analyzeTransactionStream(
+      chunks(),
+      progress => post({ type: 'progress', runId, progress }),
+      options.config,
+      controller.signal
+    );
+    post({ type: 'result', runId, result });
+  } catch (err: any) {
+    if (controller.signal.aborted) post({ type: 'cancelled', runId });
+    else post({ type: 'error', runId, message: err?.message || 'Processing failed. Please try again.' });
+  } finally {
+    if (current?.runId === runId) current = null;
+  }
+}
+
+self.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  const request = event.data;
+  if (request.type === 'analyze') analyze(request);
+  else if (request.type === 'cancel' && current?.runId === request.runId) current.controller.abort();
+};
@@ -0,0 +1,308 @@
+/**
+ * Weight Calibration — fits the SCORES signal weights to isFraud labels
+ *
+ * Each account becomes a vector with one feature per signal weight: how many
+ * times over that weight's points the account received (1 for a signal that
+ * fired once at full strength, 0.5 for a half-strength balance anomaly, the
+ * tainted share for taint exposure …), read back from the score
+ * contributions of a finished analysis. An L2-regularised logistic
+ * regression with balanced class weights is fitted by Newton's method on a
+ * deterministic training split, and its coefficients become the new weights:
+ *
+ *  - signs are kept — a weight that adds suspicion stays ≥ 0, the
+ *    legitimate-behaviour shield stays ≤ 0;
+ *  - coefficients are scaled so the weights keep their original total size,
+ *    which keeps scores on the familiar 0–100 scale, and no weight exceeds
+ *    its component cap;
+ *  - weights whose signal fired on fewer than MIN_SUPPORT training accounts
+ *    are unchanged, as is taint exposure, whose seeds (confirmed fraud
+ *    accounts, or the isFraud labels themselves when label seeding is on)
+ *    are typically the labelled accounts.
+ *
+ * Lift is measured on the held-out split by rescoring the stored
+ * contributions under both weight sets (component caps and ring membership
+ * floors applied as in the pipeline; rings themselves are not re-formed), so
+ * no detector has to run again. Label-derived contributions (taint) are
+ * left out of both the training features and the held-out scores, so they
+ * cannot leak held-out labels into the reported lift. Everything runs
+ * locally in the browser.
+ */
+
+import { GraphAnalysisResult, ScoreContribution } from './types';
+import { Scores, WeightKey } from './detectors';
+import { sweepThresholds } from './threshold-sweep';
+
+export interface CalibrationOptions {
+  /** Share of labelled accounts held out for evaluation (0–1) */
+  holdoutShare?: number;
+  /** L2 penalty on the coefficients */
+  l2?: number;
+  /** Split seed — the same seed always holds out the same accounts */
+  seed?: string;
+}
+
+export interface WeightChange {
+  key: WeightKey;
+  before: number;
+  after: number;
+  coefficient: number;  // fitted log-odds per full-strength signal
+  support: number;      // training accounts the signal fired on
+}
+
+export interface CalibrationMetrics {
+  rocAuc: number;
+  prAuc: number;
+  /** Fraud rate among the top `share` of accounts ÷ overall fraud rate */
+  lift: { share: number; lift: number }[];
+}
+
+export interface CalibrationReport {
+  train: { accounts: number; fraud: number };
+  holdout: { accounts: number; fraud: number };
+  before: CalibrationMetrics;
+  after: CalibrationMetrics;
+  weights: WeightChange[];  // calibrated weights only, largest change first
+  scores: Scores;
+}
+
+const LIFT_SHARES = [0.01, 0.05, 0.1];
+const LABEL_DERIVED = new Set<string>(['NETWORK.TAINT_EXPOSURE'] satisfies WeightKey[]);
+const NEWTON_ITERATIONS = 25;
+const MIN_SUPPORT = 10;
+
+type Component = 'STRUCTURAL' | 'BEHAVIORAL' | 'NETWORK';
+
+function weightOf(scores: Scores, key: string): number {
+  const [component, name] = key.split('.') as [Component, string];
+  return (scores[component] as Record<string, number>)[name] ?? 0;
+}
+
+/** Every signal weight in SCORES (component caps excluded). */
+function weightKeys(scores: Scores): WeightKey[] {
+  const keys: string[] = [];
+  for (const component of Object.keys(scores) as Component[]) {
+    for (const name of Object.keys(scores[component])) if (name !== 'MAX') keys.push(`${component}.${name}`);
+  }
+  return keys as WeightKey[];
+}
+
+/** FNV-1a plus a final mix — a stable per-account split independent of iteration order. */
+function inHoldout(id: string, seed: string, share: number): boolean {
+  const text = `${seed}:${id}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  return (hash >>> 0) / 0x100000000 < share;
+}
+
+/**
+ * Total score from stored contributions with every calibratable weight
+ * replaced by its value in `scores`, clamped like the pipeline. Label-derived
+ * contributions are dropped.
+ */
+function rescore(contributions: ScoreContribution[], base: Scores, scores: Scores): number {
+  const sums = { structural: 0, behavioral: 0, network: 0 };
+  let ringFloor = 0;
+  for (const c of contributions) {
+    if (c.detector === 'rings') { ringFloor = Math.max(ringFloor, c.points); continue; }
+    if (c.weight && LABEL_DERIVED.has(c.weight)) continue;
+    const was = c.weight ? weightOf(base, c.weight) : 0;
+    sums[c.component] += was !== 0 ? c.points / was * weightOf(scores, c.weight!) : c.points;
+  }
+  const clamp = (v: number, max: number) => Math.min(Math.max(0, v), max);
+  const structural = clamp(sums.structural, scores.STRUCTURAL.MAX);
+  const behavioral = clamp(sums.behavioral, scores.BEHAVIORAL.MAX);
+  const network = Math.max(clamp(sums.network, scores.NETWORK.MAX), Math.min(scores.NETWORK.MAX, ringFloor));
+  return Math.min(100, structural + behavioral + network);
+}
+
+function metricsOf(scored: { id: string; score: number; fraud: boolean }[]): CalibrationMetrics {
+  const { rocAuc, prAuc } = sweepThresholds(scored);
+  const fraud = scored.reduce((n, s) => n + (s.fraud ? 1 : 0), 0);
+  const baseRate = scored.length > 0 ? fraud / scored.length : 0;
+  const ranked = [...scored].sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  const lift = LIFT_SHARES.map(share => {
+    const k = Math.max(1, Math.ceil(ranked.length * share));
+    let hits = 0;
+    for (let i = 0; i < k && i < ranked.length; i++) if (ranked[i].fraud) hits++;
+    return { share, lift: baseRate > 0 ? parseFloat((hits / k / baseRate).toFixed(2)) : 0 };
+  });
+  return { rocAuc, prAuc, lift };
+}
+
+/** Solves A·x = b in place (Gaussian elimination with partial pivoting). */
+function solve(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(A[r][col]) > Math.abs(A[pivot][col])) pivot = r;
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    if (Math.abs(A[col][col]) < 1e-12) continue;
+    for (let r = col + 1; r < n; r++) {
+      const f = A[r][col] / A[col][col];
+      if (f === 0) continue;
+      for (let c = col; c < n; c++) A[r][c] -= f * A[col][c];
+      b[r] -= f * b[col];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    if (Math.abs(A[r][r]) < 1e-12) continue;
+    let sum = b[r];
+    for (let c = r + 1; c < n; c++) sum -= A[r][c] * x[c];
+    x[r] = sum / A[r][r];
+  }
+  return x;
+}
+
+interface FeatureGroup {
+  x: number[];   // intercept first
+  pos: number;   // fraud accounts with this exact vector
+  neg: number;
+}
+
+/**
+ * Logistic regression over grouped feature vectors (most accounts share the
+ * all-zero vector, so the fit runs on distinct vectors only).
+ */
+function fitLogistic(groups: FeatureGroup[], dims: number, l2: number): number[] {
+  const pos = groups.reduce((n, g) => n + g.pos, 0);
+  const neg = groups.reduce((n, g) => n + g.neg, 0);
+  const wPos = (pos + neg) / (2 * pos);
+  const wNeg = (pos + neg) / (2 * neg);
+
+  const beta = new Array<number>(dims).fill(0);
+  for (let iter = 0; iter < NEWTON_ITERATIONS; iter++) {
+    const grad = beta.map((b, i) => (i === 0 ? 0 : l2 * b));
+    const hess = Array.from({ length: dims }, (_, i) => Array.from({ length: dims }, (_, j) => (i === j && i > 0 ? l2 : 0)));
+
+    for (const g of groups) {
+      let z = 0;
+      for (let i = 0; i < dims; i++) z += beta[i] * g.x[i];
+      const p = 1 / (1 + Math.exp(-z));
+      const residual = wPos * g.pos * (p - 1) + wNeg * g.neg * p;
+      const curvature = (wPos * g.pos + wNeg * g.neg) * p * (1 - p);
+      for (let i = 0; i < dims; i++) {
+        if (g.x[i] === 0) continue;
+        grad[i] += residual * g.x[i];
+        for (let j = 0; j < dims; j++) if (g.x[j] !== 0) hess[i][j] += curvature * g.x[i] * g.x[j];
+      }
+    }
+
+    const step = solve(hess, grad);
+    let change = 0;
+    for (let i = 0; i < dims; i++) {
+      beta[i] -= step[i];
+      change = Math.max(change, Math.abs(step[i]));
+    }
+    if (change < 1e-6) break;
+  }
+  return beta;
+}
+
+/**
+ * Fits new signal weights to the result's labels. Returns null when the
+ * result has no labels or either split lacks fraud or legitimate accounts.
+ */
+export function calibrateWeights(
+  result: GraphAnalysisResult,
+  base: Scores,
+  options: CalibrationOptions = {}
+): CalibrationReport | null {
+  const { holdoutShare = 0.3, l2 = 1, seed = 'muleguard' } = options;
+  if (!result.ground_truth?.available) return null;
+  const fraudNodes = new Set(result.ground_truth.fraudNodes);
+  const contributionsOf = new Map(result.suspicious_nodes.map(n => [n.id, n.score.details.contributions ?? []]));
+
+  const keys = weightKeys(base).filter(k => weightOf(base, k) !== 0 && !LABEL_DERIVED.has(k));
+  const keyIndex = new Map(keys.map((k, i) => [k as string, i]));
+
+  // Feature vectors for the training split, grouped by value
+  const groups = new Map<string, FeatureGroup>();
+  const support = new Array<number>(keys.length).fill(0);
+  const holdout: string[] = [];
+  let trainAccounts = 0, trainFraud = 0;
+
+  for (const id of result.nodes.keys()) {
+    if (inHoldout(id, seed, holdoutShare)) { holdout.push(id); continue; }
+    const fraud = fraudNodes.has(id);
+    trainAccounts++;
+    if (fraud) trainFraud++;
+
+    const features = new Map<number, number>();
+    for (const c of contributionsOf.get(id) || []) {
+      const i = c.weight !== undefined ? keyIndex.get(c.weight) : undefined;
+      if (i === undefined) continue;
+      features.set(i, (features.get(i) || 0) + c.points / weightOf(base, keys[i]));
+    }
+    for (const i of features.keys()) support[i]++;
+
+    const signature = Array.from(features).sort((a, b) => a[0] - b[0]).map(([i, v]) => `${i}:${v.toFixed(4)}`).join(',');
+    let group = groups.get(signature);
+    if (!group) {
+      const x = new Array<number>(keys.length + 1).fill(0);
+      x[0] = 1;
+      for (const [i, v] of features) x[i + 1] = v;
+      groups.set(signature, group = { x, pos: 0, neg: 0 });
+    }
+    if (fraud) group.pos++; else group.neg++;
+  }
+
+  const holdoutFraud = holdout.filter(id => fraudNodes.has(id)).length;
+  if (trainFraud === 0 || trainFraud === trainAccounts || holdoutFraud === 0 || holdoutFraud === holdout.length) return null;
+
+  // Fit only the weights whose signal fired often enough in training
+  const fitted = keys.map((_, i) => i).filter(i => support[i] >= MIN_SUPPORT);
+  const dims = fitted.length + 1;
+  const beta = fitLogistic(
+    Array.from(groups.values(), g => ({ x: [1, ...fitted.map(i => g.x[i + 1])], pos: g.pos, neg: g.neg })),
+    dims,
+    l2
+  );
+
+  // Keep signs, rescale to the original total weight
+  const coefficients = fitted.map((i, j) => {
+    const b = beta[j + 1];
+    return weightOf(base, keys[i]) > 0 ? Math.max(0, b) : Math.min(0, b);
+  });
+  const baseMass = fitted.reduce((s, i) => s + Math.abs(weightOf(base, keys[i])), 0);
+  const fitMass = coefficients.reduce((s, b) => s + Math.abs(b), 0);
+  const scale = fitMass > 0 ? baseMass / fitMass : 0;
+
+  const scores: Scores = structuredClone(base);
+  const weights: WeightChange[] = fitted.map((i, j) => {
+    const key = keys[i];
+    const [component, name] = key.split('.') as [Component, string];
+    const cap = scores[component].MAX;
+    const after = fitMass > 0 ? Math.max(-cap, Math.min(cap, Math.round(coefficients[j] * scale))) : weightOf(base, key);
+    (scores[component] as Record<string, number>)[name] = after;
+    return {
+      key,
+      before: weightOf(base, key),
+      after,
+      coefficient: parseFloat(beta[j + 1].toFixed(4)),
+      support: support[i],
+    };
+  }).sort((a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before));
+
+  const scoreHoldout = (weights: Scores) => holdout.map(id => ({
+    id,
+    score: rescore(contributionsOf.get(id) || [], base, weights),
+    fraud: fraudNodes.has(id),
+  }));
+
+  return {
+    train: { accounts: trainAccounts, fraud: trainFraud },
+    holdout: { accounts: holdout.length, fraud: holdoutFraud },
+    before: metricsOf(scoreHoldout(base)),
+    after: metricsOf(scoreHoldout(scores)),
+    weights,
+    scores,
+  };
+}
@@ -2,7 +2,12 @@
  * Chunked Uploader / Graph Engine — PaySim-Calibrated Build
  *
  * Key capabilities:
- *  1. Memory-optimised chunked ingestion (graphology removed; edges capped).
+ *  1. Streaming ingestion: chunks are added as the parser produces them and
+ *     never kept (graphology removed; rendered edges capped; per-account
+ *     amounts summarised in fixed-size sketches). Memory is not bounded:
+ *     every transaction still leaves an incoming and an outgoing peer ref,
+ *     and its id in the ground-truth sets when labelled, so a run peaks at
+ *     roughly 4–6 KB per row (see DEFAULT_MAX_TRANSACTIONS).
  *  2. PaySim-specific scoring signals:
  *     - Balance anomaly detection (originator & destination discrepancies)
  *     - Transaction-type weighting (TRANSFER / CASH_OUT → higher risk)
@@ -12,10 +17,28 @@
  *     - Confusion matrix (TP / FP / TN / FN)
  *     - Precision, Recall, F1, Accuracy
  *     - Fraud breakdown by transaction type
+ *  4. Detection, scoring and ring formation are delegated to the detector
+ *     pipeline (./detectors); this engine only ingests and assembles results.
  */
 
-import { Transaction, NodeData, EdgeData, SuspicionScore, Ring, GraphAnalysisResult, GroundTruthMetrics } from './types';
-import { mean, standardDeviation } from 'simple-statistics';
+import { Transaction, NodeData, EdgeData, SuspicionScore, Ring, GraphAnalysisResult, GroundTruthMetrics, DetectorCoverage, TaintModel, RunSettings } from './types';
+import {
+  JurisdictionId, JurisdictionPreset, JURISDICTION_PRESETS, DEFAULT_JURISDICTION,
+  NearThresholdTx, nearThreshold,
+} from './structuring';
+import {
+  HOURS_PER_DAY, recordHour, timeConcentration,
+  AmountSketch, createAmountSketch, recordAmount, amountDispersion,
+} from './activity-metrics';
+import {
+  Thresholds, Detector, DetectorRegistry, GraphView, PeerRef, PatternInstance, ScoredNode,
+  detectorRegistry, runDetectors, scoreNodes, formRings, createRuleDetector,
+} from './detectors';
+import { Ruleset, DEFAULT_RULESET, applyRuleset } from './ruleset';
+import { parseRules } from './rule-dsl';
+import { LabelledScore, sweepThresholds } from './threshold-sweep';
+import { evaluateScopes } from './ground-truth-scopes';
+import { DEFAULT_RISK_THRESHOLD } from './forensics-semantics';
 
 export interface UploadProgress {
   status: 'uploading' | 'processing' | 'completed' | 'failed';
@@ -25,77 +48,44 @@ export interface UploadProgress {
   totalChunks?: number;
 }
 
-// ── Scoring constants ────────────────────────────────────────────────────────
-const SCORES = {
-  STRUCTURAL: {
-    CYCLE:   40,
-    SMURFING: 25,
-    SHELL:   20,
-    FAN_IN:  30,
-    FAN_OUT: 30,
-    MAX:    100,
-  },
-  BEHAVIORAL: {
-    HIGH_VELOCITY: 10,
-    HIGH_DIVERSITY: 10,
-    BURST: 10,
-    // PaySim-specific behavioural signals (INCREASED for better recall)
-    BALANCE_ANOMALY:  20,   // balance doesn't add up (was 15)
-    ACCOUNT_DRAINING: 18,   // originator balance → 0 (was 12)
-    ZERO_DEST_BALANCE: 12,   // sending to empty accounts (was 8)
-    HIGH_RISK_TX_TYPE: 8,   // majority TRANSFER / CASH_OUT (was 6)
-    // Universal anomaly signals (work on ANY dataset)
-    AMOUNT_OUTLIER:   15,   // Amount is statistical outlier (Z-score ≥ 2)
-    ROUND_AMOUNT:     8,    // Suspiciously round amounts (structuring)
-    TEMPORAL_BURST:   12,   // Multiple tx in short time window
-    SINGLETON_ACCOUNT: 10,  // Very low transaction count (1-2 lifetime)
-    AMOUNT_CLUSTERING: 10,  // Multiple similar amounts (±5%)
-    MAX:   40,  // Increased from 30 to accommodate stronger signals
-  },
-  NETWORK: {
-    RING_SIZE_FACTOR:  5,
-    AVG_RING_SUSPICION: 10,
-    MULTI_PATTERN:     5,
-    HIGH_DEGREE:       12,
-    MAX:              35,
-  },
-};
-
-const THRESHOLDS = {
-  WINDOW_HOURS:            72,
-  FAN_THRESHOLD:           10,
-  SHELL_CHAIN_MIN_LENGTH:   3,
-  SHELL_TX_MIN:             2,
-  SHELL_TX_MAX:             3,
-  CYCLE_MIN_LEN:            3,
-  CYCLE_MAX_LEN:            5,
-  CYCLE_DEPTH_LIMIT:        6,
-  HIGH_VELOCITY_TX_PER_HOUR: 5,
-  ACTIVE_DAYS_LEGIT:        7,
-  // PaySim-specific thresholds
-  BALANCE_ANOMALY_EPSILON:  1.0,  // tolerance for float rounding
-  BALANCE_ANOMALY_RATIO:    0.3,  // 30%+ anomalous tx → flag
-  HIGH_RISK_TX_RATIO:       0.6,  // 60%+ TRANSFER/CASH_OUT → flag
-  ACCOUNT_DRAIN_RATIO:      0.2,  // 20%+ draining tx → flag
-  ZERO_DEST_RATIO:          0.3,  // 30%+ to empty accounts → flag
-  // Universal anomaly thresholds
-  AMOUNT_ZSCORE_THRESHOLD:  2.0,  // 2σ from mean = outlier
-  ROUND_AMOUNT_THRESHOLD:   100,  // Round to nearest $100+
-  TEMPORAL_BURST_MINUTES:   30,   // Multiple tx within 30 minutes
-  SINGLETON_TX_MAX:         2,    // ≤2 lifetime transactions
-  AMOUNT_SIMILARITY_PCT:    0.05, // ±5% = similar amounts
-  AMOUNT_CLUSTER_MIN:       3,    // Need 3+ similar amounts to flag
-};
+/** One batch of parsed transactions; `fraction` is how much of the input has been read (0–1), when known. */
+export interface TransactionChunk {
+  transactions: Transaction[];
+  fraction?: number;
+}
+
+/** Per-run options chosen by the analyst (Settings). */
+export interface EngineConfig {
+  jurisdiction?: JurisdictionId;
+  dormancyDays?: number; // gap that counts as dormant (default: the ruleset's DORMANCY_DAYS)
+  disabledDetectors?: string[]; // detector ids to skip for this run
+  ruleset?: Ruleset; // weights, thresholds and ring formulas (default: built-in)
+  customRules?: string; // rule-language source (see rule-dsl.ts); each rule runs as a detector
+  taintModel?: TaintModel; // taint attribution model (default: haircut)
+  taintSeeds?: string[]; // accounts confirmed fraudulent — taint propagates from them
+  taintLabelSeeds?: boolean; // also seed taint from isFraud labels (default: off)
+  riskThreshold?: number; // score that counts as flagged in ground-truth metrics (default: DEFAULT_RISK_THRESHOLD)
+}
 
+// Transactions per chunk when analysing an in-memory array
+const CHUNK_SIZE = 2_000;
 // Maximum edges stored for Cytoscape rendering (analysis is unaffected)
 const MAX_STORED_EDGES = 10_000;
 // Maximum Transaction objects kept per node for UI display purposes
 const MAX_DISPLAY_TX_PER_NODE = 50;
 
-// ── Compact peer-reference (for fan detection & unique-counterparty counting) ─
-interface PeerRef { peer: string; ts: number; }
-
 class ChunkedGraphEngine {
+  private readonly ruleset: Ruleset;
+  private readonly runSettings: RunSettings;
+  private readonly thresholds: Thresholds;
+  private readonly jurisdiction: JurisdictionPreset;
+  private readonly dormancyDays: number;
+  private readonly taintModel: TaintModel;
+  private readonly taintSeeds: string[];
+  private readonly taintLabelSeeds: boolean;
+  private readonly disabledDetectors: string[];
+  private readonly ruleDetectors: Detector[];
+
   private nodeMap: Map<string, NodeData> = new Map();
   private edges:   EdgeData[]            = [];
   private transactionCount = 0;
@@ -118,26 +108,59 @@ class ChunkedGraphEngine {
   private totalTxCountPerNode: Map<string, number> = new Map();
 
   // ── Universal anomaly counters (work on ANY dataset) ────────────────────
-  private allTransactions: Transaction[] = [];  // Store all tx for global stats
   private roundAmountCount:    Map<string, number> = new Map();
   private temporalBurstCount:  Map<string, number> = new Map();
-  private amountsByNode:       Map<string, number[]> = new Map(); // For clustering detection
+  private amountSketches:      Map<string, AmountSketch> = new Map(); // outliers, clustering, dispersion
+  private hourBuckets:         Map<string, Uint32Array> = new Map(); // hour-of-day histogram
+  private nearThresholdTxs:    NearThresholdTx[] = [];               // amounts just below a reporting limit
 
   // Ground truth tracking
   private hasGroundTruth = false;
   private fraudulentNodes: Set<string> = new Set();  // nodes involved in any fraud tx
+  private fraudTxIds: Set<string> = new Set();       // labelled fraud tx (transaction-level ground truth)
+  private fraudTypologies: Map<string, string> = new Map(); // fraud tx id → injected typology
   private totalFraudTx  = 0;
   private totalLegitTx  = 0;
   private fraudByType:  Map<string, { total: number; fraud: number }> = new Map();
 
-  // Pattern instance tracking (one ring per pattern instance)
-  private cycleInstances: { nodes: string[]; length: number }[] = [];
-  private fanInInstances: { hub: string; sources: string[] }[] = [];
-  private fanOutInstances: { hub: string; destinations: string[] }[] = [];
-  private shellChainInstances: { nodes: string[] }[] = [];
+  // Pattern instances from the last detector run (one ring per instance)
+  private instances: PatternInstance[] = [];
+
+  // Per-detector search coverage (reported so the UI can flag partial results)
+  private coverage: DetectorCoverage[] = [];
+
+  // Scores without the taint detector, for ground truth when labels seed taint
+  private groundTruthScores: ScoredNode[] | null = null;
 
   // ── Ingestion ──────────────────────────────────────────────────────────────
 
+  constructor(config: EngineConfig = {}, private readonly registry: DetectorRegistry = detectorRegistry) {
+    this.ruleset      = config.ruleset ?? DEFAULT_RULESET;
+    this.thresholds   = this.ruleset.thresholds;
+    this.jurisdiction = JURISDICTION_PRESETS[config.jurisdiction ?? DEFAULT_JURISDICTION];
+    this.dormancyDays = config.dormancyDays ?? this.thresholds.DORMANCY_DAYS;
+    this.taintModel   = config.taintModel ?? 'haircut';
+    this.taintSeeds   = config.taintSeeds ?? [];
+    this.taintLabelSeeds = config.taintLabelSeeds ?? false;
+    this.disabledDetectors = config.disabledDetectors ?? [];
+    this.runSettings = {
+      jurisdiction:      config.jurisdiction ?? DEFAULT_JURISDICTION,
+      dormancyDays:      this.dormancyDays,
+      disabledDetectors: this.disabledDetectors,
+      customRules:       config.customRules ?? '',
+      taintModel:        this.taintModel,
+      taintSeeds:        this.taintSeeds,
+      taintLabelSeeds:   this.taintLabelSeeds,
+      riskThreshold:     config.riskThreshold ?? DEFAULT_RISK_THRESHOLD,
+    };
+
+    const { rules, errors } = parseRules(config.customRules ?? '');
+    if (errors.length) {
+      throw new Error(`Custom rules have syntax errors (line ${errors[0].line}: ${errors[0].message}) — fix them in Settings`);
+    }
+    this.ruleDetectors = rules.map(createRuleDetector);
+  }
+
   public addChunk(transactions: Transaction[]): void {
     for (const tx of transactions) this.addTransaction(tx);
   }
@@ -149,6 +172,7 @@ class ChunkedGraphEngine {
     const senderNode   = this.nodeMap.get(tx.sender)!;
     const receiverNode = this.nodeMap.get(tx.receiver)!;
     const txTime = new Date(tx.timestamp).getTime();
+    const txId   = tx.id || `tx-${this.transactionCount}`;
 
     // Degree counters (always accurate)
     senderNode.out_degree++;
@@ -169,8 +193,17 @@ class ChunkedGraphEngine {
     // Compact peer refs (accurate for all transactions)
     if (!this.incomingPeers.has(tx.receiver)) this.incomingPeers.set(tx.receiver, []);
     if (!this.outgoingPeers.has(tx.sender))   this.outgoingPeers.set(tx.sender,   []);
-    this.incomingPeers.get(tx.receiver)!.push({ peer: tx.sender,   ts: txTime });
-    this.outgoingPeers.get(tx.sender)!.push(  { peer: tx.receiver, ts: txTime });
+    const seq = this.transactionCount;
+    this.incomingPeers.get(tx.receiver)!.push({ peer: tx.sender,   ts: txTime, txId, amount: tx.amount, txType: tx.txType, seq });
+    this.outgoingPeers.get(tx.sender)!.push(  { peer: tx.receiver, ts: txTime, txId, amount: tx.amount, txType: tx.txType, seq });
+
+    // Structuring candidates (only the few tx just below a reporting limit are kept)
+    const limit = nearThreshold(tx.amount, this.jurisdiction, this.thresholds.STRUCTURING_BAND_PCT);
+    if (limit) {
+      this.nearThresholdTxs.push({
+        sender: tx.sender, receiver: tx.receiver, txId, amount: tx.amount, ts: txTime, limit: limit.limit,
+      });
+    }
 
     // Capped edge list (for Cytoscape rendering)
     if (this.edges.length < MAX_STORED_EDGES) {
@@ -188,6 +221,10 @@ class ChunkedGraphEngine {
     this.transactionCount++;
     this.totalVolume += tx.amount;
 
+    // Labelled fraud (ground truth; handed to the detectors only as taint seeds, when label seeding is on)
+    if (tx.isFraud) this.fraudTxIds.add(txId);
+    if (tx.isFraud && tx.typology) this.fraudTypologies.set(txId, tx.typology);
+
     // ── PaySim-specific tracking ────────────────────────────────────────
     this.trackPaySimSignals(tx);
 
@@ -225,11 +262,11 @@ class ChunkedGraphEngine {
     if (tx.oldBalanceOrig !== undefined && tx.newBalanceOrig !== undefined) {
       this.hasPaySimData = true;
       const expected = tx.oldBalanceOrig - tx.amount;
-      if (Math.abs(expected - tx.newBalanceOrig) > THRESHOLDS.BALANCE_ANOMALY_EPSILON) {
+      if (Math.abs(expected - tx.newBalanceOrig) > this.thresholds.BALANCE_ANOMALY_EPSILON) {
         this.balanceAnomalyCount.set(tx.sender, (this.balanceAnomalyCount.get(tx.sender) || 0) + 1);
       }
       // Account draining: balance goes to 0 (or near 0) after a large transfer
-      if (tx.newBalanceOrig < THRESHOLDS.BALANCE_ANOMALY_EPSILON && tx.oldBalanceOrig > 0 && tx.amount > 0) {
+      if (tx.newBalanceOrig < this.thresholds.BALANCE_ANOMALY_EPSILON && tx.oldBalanceOrig > 0 && tx.amount > 0) {
         this.accountDrainCount.set(tx.sender, (this.accountDrainCount.get(tx.sender) || 0) + 1);
       }
     }
@@ -238,12 +275,12 @@ class ChunkedGraphEngine {
     if (tx.oldBalanceDest !== undefined && tx.newBalanceDest !== undefined) {
       this.hasPaySimData = true;
       // Zero-balance destination: receiving into an account with 0 balance
-      if (tx.oldBalanceDest < THRESHOLDS.BALANCE_ANOMALY_EPSILON && tx.amount > 0) {
+      if (tx.oldBalanceDest < this.thresholds.BALANCE_ANOMALY_EPSILON && tx.amount > 0) {
         this.zeroDestBalCount.set(tx.receiver, (this.zeroDestBalCount.get(tx.receiver) || 0) + 1);
       }
       // Destination balance anomaly
       const expectedDest = tx.oldBalanceDest + tx.amount;
-      if (Math.abs(expectedDest - tx.newBalanceDest) > THRESHOLDS.BALANCE_ANOMALY_EPSILON) {
+      if (Math.abs(expectedDest - tx.newBalanceDest) > this.thresholds.BALANCE_ANOMALY_EPSILON) {
         this.balanceAnomalyCount.set(tx.receiver, (this.balanceAnomalyCount.get(tx.receiver) || 0) + 1);
       }
     }
@@ -256,13 +293,10 @@ class ChunkedGraphEngine {
   }
 
   private trackUniversalAnomalies(tx: Transaction): void {
-    // Store transaction for global stats
-    this.allTransactions.push(tx);
-
     const txTime = new Date(tx.timestamp).getTime();
 
     // Round amount detection
-    if (tx.amount % THRESHOLDS.ROUND_AMOUNT_THRESHOLD === 0) {
+    if (tx.amount % this.thresholds.ROUND_AMOUNT_THRESHOLD === 0) {
       this.roundAmountCount.set(tx.sender, (this.roundAmountCount.get(tx.sender) || 0) + 1);
       this.roundAmountCount.set(tx.receiver, (this.roundAmountCount.get(tx.receiver) || 0) + 1);
     }
@@ -274,7 +308,7 @@ class ChunkedGraphEngine {
     // Check if this is close to sender's last transaction
     if (senderNode.last_seen > 0) {
       const timeDiff = txTime - senderNode.last_seen;
-      if (timeDiff > 0 && timeDiff < THRESHOLDS.TEMPORAL_BURST_MINUTES * 60 * 1000) {
+      if (timeDiff > 0 && timeDiff < this.thresholds.TEMPORAL_BURST_MINUTES * 60 * 1000) {
         this.temporalBurstCount.set(tx.sender, (this.temporalBurstCount.get(tx.sender) || 0) + 1);
       }
     }
@@ -282,16 +316,23 @@ class ChunkedGraphEngine {
     // Check if this is close to receiver's last transaction
     if (receiverNode.last_seen > 0) {
       const timeDiff = txTime - receiverNode.last_seen;
-      if (timeDiff > 0 && timeDiff < THRESHOLDS.TEMPORAL_BURST_MINUTES * 60 * 1000) {
+      if (timeDiff > 0 && timeDiff < this.thresholds.TEMPORAL_BURST_MINUTES * 60 * 1000) {
         this.temporalBurstCount.set(tx.receiver, (this.temporalBurstCount.get(tx.receiver) || 0) + 1);
       }
     }
 
-    // Amount clustering detection
-    if (!this.amountsByNode.has(tx.sender)) this.amountsByNode.set(tx.sender, []);
-    if (!this.amountsByNode.has(tx.receiver)) this.amountsByNode.set(tx.receiver, []);
-    this.amountsByNode.get(tx.sender)!.push(tx.amount);
-    this.amountsByNode.get(tx.receiver)!.push(tx.amount);
+    // Amount sketches (outliers, clustering, dispersion)
+    if (!this.amountSketches.has(tx.sender))   this.amountSketches.set(tx.sender,   createAmountSketch());
+    if (!this.amountSketches.has(tx.receiver)) this.amountSketches.set(tx.receiver, createAmountSketch());
+    const { AMOUNT_SIMILARITY_PCT, AMOUNT_CLUSTER_MIN } = this.thresholds;
+    recordAmount(this.amountSketches.get(tx.sender)!,   tx.amount, AMOUNT_SIMILARITY_PCT, AMOUNT_CLUSTER_MIN);
+    recordAmount(this.amountSketches.get(tx.receiver)!, tx.amount, AMOUNT_SIMILARITY_PCT, AMOUNT_CLUSTER_MIN);
+
+    // Hour-of-day histogram (time concentration)
+    if (!this.hourBuckets.has(tx.sender))   this.hourBuckets.set(tx.sender,   new Uint32Array(HOURS_PER_DAY));
+    if (!this.hourBuckets.has(tx.receiver)) this.hourBuckets.set(tx.receiver, new Uint32Array(HOURS_PER_DAY));
+    recordHour(this.hourBuckets.get(tx.sender)!,   txTime);
+    recordHour(this.hourBuckets.get(tx.receiver)!, txTime);
   }
 
   // ── Post-ingestion metrics ──────────────────────────────────────────────────
@@ -315,654 +356,117 @@ class ChunkedGraphEngine {
       const totalIn  = this.totalAmountIn.get(node.id)  || 0;
       const totalOut = this.totalAmountOut.get(node.id) || 0;
       node.flow_through = Math.min(totalIn, totalOut) / (Math.max(totalIn, totalOut) || 1);
+
+      // Time concentration & amount dispersion (accurate for all tx)
+      const buckets = this.hourBuckets.get(node.id);
+      node.time_concentration = buckets ? timeConcentration(buckets) : 0;
+      const sketch = this.amountSketches.get(node.id);
+      const { variance, cv } = sketch ? amountDispersion(sketch) : { variance: 0, cv: 0 };
+      node.amount_variance = variance;
+      node.amount_cv       = cv;
     });
 
     // NOTE: Do NOT clear incomingPeers/outgoingPeers here!
-    // They are needed by detectFanPatternsAsync(), detectCyclesAsync(), and
-    // detectShellChainsAsync() which run AFTER finalizeMetrics().
-    // Clearing is deferred to releaseCompactRefs() called after pattern detection.
+    // The detectors read them through the graph view AFTER finalizeMetrics().
+    // After detection they are handed to the result for money traces (see getResultAsync).
     this.totalAmountIn.clear();
     this.totalAmountOut.clear();
+    this.hourBuckets.clear();
   }
 
-  /** Release compact peer refs after pattern detection is complete */
-  public releaseCompactRefs(): void {
-    this.incomingPeers.clear();
-    this.outgoingPeers.clear();
-  }
-
-  // ── Pattern detection (yielding async) ────────────────────────────────────
+  // ── Detection & scoring (detector pipeline) ───────────────────────────────
 
-  /** Helper: get ALL unique outgoing neighbours for a node from the uncapped peer refs */
-  private getOutgoingNeighbours(nodeId: string): Set<string> {
-    const refs = this.outgoingPeers.get(nodeId);
-    if (!refs || refs.length === 0) return new Set();
-    return new Set(refs.map(r => r.peer));
-  }
+  /** Read-only view of the ingested graph handed to every detector. */
+  private buildGraphView(): GraphView {
+    let datasetStart = Infinity, datasetEnd = 0;
+    this.nodeMap.forEach(n => {
+      if (n.first_seen < datasetStart) datasetStart = n.first_seen;
+      if (n.last_seen > datasetEnd) datasetEnd = n.last_seen;
+    });
 
-  private async detectCyclesAsync(): Promise<Set<string>> {
-    const flagged = new Set<string>();
-    const processedCycles = new Set<string>(); // To avoid duplicate cycles
-    let processed = 0;
-
-    for (const [startId, startNode] of this.nodeMap) {
-      processed++;
-      if (processed % 100 === 0) await new Promise(r => setTimeout(r, 0));
-
-      if (startNode.in_degree === 0 || startNode.out_degree === 0) continue;
-
-      const stack: { current: string; depth: number; path: string[] }[] = [
-        { current: startId, depth: 1, path: [startId] },
-      ];
-
-      let iterations = 0;
-      const MAX_ITER = 800;
-
-      while (stack.length > 0) {
-        if (++iterations > MAX_ITER) break;
-        const { current, depth, path } = stack.pop()!;
-        if (depth > THRESHOLDS.CYCLE_DEPTH_LIMIT) continue;
-
-        // Use uncapped outgoingPeers for accurate neighbour discovery
-        const neighbours = this.getOutgoingNeighbours(current);
-
-        for (const neighbour of neighbours) {
-          if (neighbour === startId) {
-            if (path.length >= THRESHOLDS.CYCLE_MIN_LEN && path.length <= THRESHOLDS.CYCLE_MAX_LEN) {
-              path.forEach(id => flagged.add(id));
-              
-              // Store this cycle instance
-              const sortedPath = [...path].sort().join('-');
-              if (!processedCycles.has(sortedPath)) {
-                processedCycles.add(sortedPath);
-                this.cycleInstances.push({
-                  nodes: path,
-                  length: path.length
-                });
-              }
+    let edgeIndex: Map<string, Map<string, PeerRef[]>> | null = null;
+    return {
+      nodes:    this.nodeMap,
+      incoming: this.incomingPeers,
+      outgoing: this.outgoingPeers,
+      edgeIndex: () => {
+        if (!edgeIndex) {
+          edgeIndex = new Map();
+          for (const [from, refs] of this.outgoingPeers) {
+            const byPeer = new Map<string, PeerRef[]>();
+            for (const ref of refs) {
+              if (!byPeer.has(ref.peer)) byPeer.set(ref.peer, []);
+              byPeer.get(ref.peer)!.push(ref);
             }
-          } else if (!path.includes(neighbour) && path.length < THRESHOLDS.CYCLE_MAX_LEN) {
-            stack.push({ current: neighbour, depth: depth + 1, path: [...path, neighbour] });
+            byPeer.forEach(list => list.sort((a, b) => a.ts - b.ts));
+            edgeIndex.set(from, byPeer);
           }
         }
-      }
-    }
-
-    return flagged;
-  }
-
-  private async detectFanPatternsAsync(): Promise<{ fanIn: Set<string>; fanOut: Set<string> }> {
-    const fanIn  = new Set<string>();
-    const fanOut = new Set<string>();
-    const windowMs = THRESHOLDS.WINDOW_HOURS * 3600 * 1000;
-
-    let maxTs = 0;
-    this.nodeMap.forEach(n => { if (n.last_seen > maxTs) maxTs = n.last_seen; });
-    const windowStart = maxTs - windowMs;
-
-    let processed = 0;
-    for (const [_, node] of this.nodeMap) {
-      if (++processed % 500 === 0) await new Promise(r => setTimeout(r, 0));
-
-      // ── Fan-in: use uncapped incomingPeers for accurate unique sender count ──
-      const inRefs = this.incomingPeers.get(node.id) || [];
-      // All unique senders (windowed)
-      const windowedSenders = new Set(
-        inRefs.filter(r => r.ts >= windowStart).map(r => r.peer)
-      );
-      // All unique senders (total, for fallback)
-      const allSenders = new Set(inRefs.map(r => r.peer));
-
-      // Use the larger of windowed vs total to ensure we capture the pattern
-      const effectiveInSources = windowedSenders.size >= allSenders.size * 0.5
-        ? windowedSenders : allSenders;
-
-      if (effectiveInSources.size >= THRESHOLDS.FAN_THRESHOLD) {
-        fanIn.add(node.id);
-        this.fanInInstances.push({
-          hub: node.id,
-          sources: Array.from(effectiveInSources)
-        });
-      }
-
-      // ── Fan-out: use uncapped outgoingPeers for accurate unique receiver count ──
-      const outRefs = this.outgoingPeers.get(node.id) || [];
-      // All unique receivers (windowed)
-      const windowedReceivers = new Set(
-        outRefs.filter(r => r.ts >= windowStart).map(r => r.peer)
-      );
-      // All unique receivers (total, for fallback)
-      const allReceivers = new Set(outRefs.map(r => r.peer));
-
-      // Use the larger of windowed vs total to ensure we capture the pattern
-      const effectiveOutDests = windowedReceivers.size >= allReceivers.size * 0.5
-        ? windowedReceivers : allReceivers;
-
-      if (effectiveOutDests.size >= THRESHOLDS.FAN_THRESHOLD) {
-        fanOut.add(node.id);
-        this.fanOutInstances.push({
-          hub: node.id,
-          destinations: Array.from(effectiveOutDests)
-        });
-      }
-    }
-
-    console.log(`[FAN DETECTION] Fan-in hubs: ${fanIn.size}, Fan-out hubs: ${fanOut.size} (threshold: ${THRESHOLDS.FAN_THRESHOLD} unique peers)`);
-
-    return { fanIn, fanOut };
-  }
-
-  private async detectShellChainsAsync(): Promise<Set<string>> {
-    const flagged = new Set<string>();
-    const processedChains = new Set<string>(); // To avoid duplicate chains
-
-    const isShellNode = (id: string): boolean => {
-      const n = this.nodeMap.get(id);
-      if (!n) return false;
-      return n.total_degree >= THRESHOLDS.SHELL_TX_MIN && n.total_degree <= THRESHOLDS.SHELL_TX_MAX;
+        return edgeIndex;
+      },
+      datasetStart,
+      datasetEnd,
+      counters: {
+        hasPaySimData:       this.hasPaySimData,
+        balanceAnomalyCount: this.balanceAnomalyCount,
+        accountDrainCount:   this.accountDrainCount,
+        zeroDestBalCount:    this.zeroDestBalCount,
+        highRiskTxCount:     this.highRiskTxCount,
+        totalTxCountPerNode: this.totalTxCountPerNode,
+        roundAmountCount:    this.roundAmountCount,
+        temporalBurstCount:  this.temporalBurstCount,
+        amountSketches:      this.amountSketches,
+        nearThresholdTxs:    this.nearThresholdTxs,
+      },
     };
-
-    let processed = 0;
-    for (const [startId, startNode] of this.nodeMap) {
-      if (++processed % 100 === 0) await new Promise(r => setTimeout(r, 0));
-      if (startNode.out_degree === 0) continue;
-
-      const queue: { current: string; path: string[] }[] = [{ current: startId, path: [startId] }];
-      let iterations = 0;
-      const MAX_ITER = 400;
-
-      while (queue.length > 0) {
-        if (++iterations > MAX_ITER) break;
-        const { current, path } = queue.shift()!;
-
-        if (path.length >= THRESHOLDS.SHELL_CHAIN_MIN_LENGTH) {
-          const intermediates = path.slice(1, -1);
-          if (intermediates.length > 0 && intermediates.every(id => isShellNode(id))) {
-            path.forEach(id => flagged.add(id));
-            
-            // Store this shell chain instance
-            const sortedPath = [...path].sort().join('-');
-            if (!processedChains.has(sortedPath)) {
-              processedChains.add(sortedPath);
-              this.shellChainInstances.push({
-                nodes: path
-              });
-            }
-          }
-        }
-
-        if (path.length >= THRESHOLDS.CYCLE_DEPTH_LIMIT) continue;
-
-        // Use uncapped outgoingPeers for accurate neighbour discovery
-        const neighbours = this.getOutgoingNeighbours(current);
-        for (const neighbour of neighbours) {
-          if (!path.includes(neighbour)) {
-            queue.push({ current: neighbour, path: [...path, neighbour] });
-          }
-        }
-      }
-    }
-
-    return flagged;
   }
 
-  // ── Scoring ────────────────────────────────────────────────────────────────
-
-  public async detectPatternsAndScoreAsync(): Promise<{ id: string; score: SuspicionScore }[]> {
-    const results: { id: string; score: SuspicionScore }[] = [];
-
-    // Reset pattern instances
-    this.cycleInstances = [];
-    this.fanInInstances = [];
-    this.fanOutInstances = [];
-    this.shellChainInstances = [];
-
-    const cycleAccounts = await this.detectCyclesAsync();
-    const { fanIn, fanOut } = await this.detectFanPatternsAsync();
-    const shellAccounts = await this.detectShellChainsAsync();
-
-    // Velocity statistics for outlier detection
-    const velocities = Array.from(this.nodeMap.values()).map(n => n.velocity);
-    let meanVel = 0, stdVel = 0;
-    if (velocities.length > 1) {
-      meanVel = mean(velocities);
-      stdVel  = standardDeviation(velocities);
-    }
-
-    // Degree statistics for centrality proxy
-    const degrees = Array.from(this.nodeMap.values()).map(n => n.total_degree);
-    let meanDeg = 0, stdDeg = 0;
-    if (degrees.length > 1) {
-      meanDeg = mean(degrees);
-      stdDeg  = standardDeviation(degrees);
-    }
-
-    let processed = 0;
-    for (const [_, node] of this.nodeMap) {
-      if (++processed % 1000 === 0) await new Promise(r => setTimeout(r, 0));
-
-      const patterns:     string[] = [];
-      const riskFactors:  string[] = [];
-
-      let structuralScore = 0;
-      let behavioralScore = 0;
-      let networkScore    = 0;
-
-      // ── Classic structural patterns ──
-      if (cycleAccounts.has(node.id)) { structuralScore += SCORES.STRUCTURAL.CYCLE;   patterns.push('cycle'); }
-      if (fanIn.has(node.id))         { structuralScore += SCORES.STRUCTURAL.FAN_IN;  patterns.push('fan_in'); }
-      if (fanOut.has(node.id))        { structuralScore += SCORES.STRUCTURAL.FAN_OUT; patterns.push('fan_out'); }
-      if (shellAccounts.has(node.id)) { structuralScore += SCORES.STRUCTURAL.SHELL;   patterns.push('shell'); }
-
-      // ── Classic behavioral signals ──
-      if (node.velocity > THRESHOLDS.HIGH_VELOCITY_TX_PER_HOUR) {
-        behavioralScore += SCORES.BEHAVIORAL.HIGH_VELOCITY;
-        riskFactors.push('high_velocity');
-      }
-
-      // ── PaySim-calibrated behavioural signals ──
-      if (this.hasPaySimData) {
-        const nodeTxCount = this.totalTxCountPerNode.get(node.id) || 1;
-
-        // Balance anomaly: ANY anomaly flags the account
-        const anomalyCount = this.balanceAnomalyCount.get(node.id) || 0;
-        if (anomalyCount > 0) {
-          // Base score for ANY anomaly, bonus for high ratio
-          const ratio = anomalyCount / nodeTxCount;
-          if (ratio >= THRESHOLDS.BALANCE_ANOMALY_RATIO) {
-            behavioralScore += SCORES.BEHAVIORAL.BALANCE_ANOMALY;
-          } else {
-            behavioralScore += Math.floor(SCORES.BEHAVIORAL.BALANCE_ANOMALY * 0.5);
-          }
-          riskFactors.push('balance_anomaly');
-          patterns.push('balance_discrepancy');
-        }
-
-        // Account draining: ANY draining event is highly suspicious
-        const drainCount = this.accountDrainCount.get(node.id) || 0;
-        if (drainCount > 0) {
-          // Draining is always a strong signal
-          behavioralScore += SCORES.BEHAVIORAL.ACCOUNT_DRAINING;
-          riskFactors.push('account_draining');
-          patterns.push('account_drain');
-        }
-
-        // Zero-balance destination: ANY such transaction is suspicious
-        const zeroDest = this.zeroDestBalCount.get(node.id) || 0;
-        if (zeroDest > 0) {
-          const ratio = zeroDest / nodeTxCount;
-          if (ratio >= THRESHOLDS.ZERO_DEST_RATIO) {
-            behavioralScore += SCORES.BEHAVIORAL.ZERO_DEST_BALANCE;
-          } else {
-            behavioralScore += Math.floor(SCORES.BEHAVIORAL.ZERO_DEST_BALANCE * 0.5);
-          }
-          riskFactors.push('zero_balance_destination');
-          patterns.push('zero_dest_balance');
-        }
-
-        // High-risk transaction type: If account primarily uses TRANSFER/CASH_OUT
-        const highRiskCount = this.highRiskTxCount.get(node.id) || 0;
-        if (highRiskCount > 0 && (highRiskCount / nodeTxCount) >= THRESHOLDS.HIGH_RISK_TX_RATIO) {
-          behavioralScore += SCORES.BEHAVIORAL.HIGH_RISK_TX_TYPE;
-          riskFactors.push('high_risk_tx_type');
-        }
-      }
-
-      // ── Universal anomaly signals (work on ANY dataset) ──
-      const nodeTxCount = node.total_degree;
-      
-      // 1. Amount outlier detection (Z-score based)
-      const nodeAmounts = this.amountsByNode.get(node.id) || [];
-      if (nodeAmounts.length >= 2) {
-        try {
-          const meanAmt = mean(nodeAmounts);
-          const stdAmt = standardDeviation(nodeAmounts);
-          if (stdAmt > 0) {
-            // Check if any amount is an outlier
-            const hasOutlier = nodeAmounts.some(amt => Math.abs((amt - meanAmt) / stdAmt) >= THRESHOLDS.AMOUNT_ZSCORE_THRESHOLD);
-            if (hasOutlier) {
-              behavioralScore += SCORES.BEHAVIORAL.AMOUNT_OUTLIER;
-              riskFactors.push('amount_outlier');
-              patterns.push('statistical_anomaly');
-            }
-          }
-        } catch (e) { /* Skip if stats computation fails */ }
-      }
-
-      // 2. Round amount detection (structuring indicator)
-      const roundAmtCount = this.roundAmountCount.get(node.id) || 0;
-      if (roundAmtCount > 0 && nodeTxCount > 0) {
-        const roundRatio = roundAmtCount / nodeTxCount;
-        if (roundRatio > 0.5) { // More than half are round amounts
-          behavioralScore += SCORES.BEHAVIORAL.ROUND_AMOUNT;
-          riskFactors.push('round_amounts');
-          patterns.push('structuring');
-        }
-      }
-
-      // 3. Temporal burst detection
-      const burstCount = this.temporalBurstCount.get(node.id) || 0;
-      if (burstCount >= 2) { // At least 2 burst events
-        behavioralScore += SCORES.BEHAVIORAL.TEMPORAL_BURST;
-        riskFactors.push('temporal_burst');
-        patterns.push('burst_activity');
-      }
-
-      // 4. Singleton account detection (very low activity)
-      if (nodeTxCount <= THRESHOLDS.SINGLETON_TX_MAX) {
-        behavioralScore += SCORES.BEHAVIORAL.SINGLETON_ACCOUNT;
-        riskFactors.push('singleton_account');
-        patterns.push('minimal_history');
-      }
-
-      // 5. Amount clustering detection (similar amounts)
-      if (nodeAmounts.length >= THRESHOLDS.AMOUNT_CLUSTER_MIN) {
-        let clusterCount = 0;
-        for (let i = 0; i < nodeAmounts.length; i++) {
-          for (let j = i + 1; j < nodeAmounts.length; j++) {
-            const diff = Math.abs(nodeAmounts[i] - nodeAmounts[j]);
-            const avg = (nodeAmounts[i] + nodeAmounts[j]) / 2;
-            if (avg > 0 && (diff / avg) <= THRESHOLDS.AMOUNT_SIMILARITY_PCT) {
-              clusterCount++;
-              if (clusterCount >= THRESHOLDS.AMOUNT_CLUSTER_MIN) {
-                behavioralScore += SCORES.BEHAVIORAL.AMOUNT_CLUSTERING;
-                riskFactors.push('amount_clustering');
-                patterns.push('similar_amounts');
-                break;
-              }
-            }
-          }
-          if (clusterCount >= THRESHOLDS.AMOUNT_CLUSTER_MIN) break;
-        }
-      }
-
-      // ── Degree-based centrality proxy ──
-      if (stdDeg > 0 && node.total_degree > meanDeg + 2 * stdDeg) {
-        networkScore += SCORES.NETWORK.HIGH_DEGREE;
-        riskFactors.push('high_centrality');
-      }
-
-      structuralScore = Math.min(structuralScore, SCORES.STRUCTURAL.MAX);
-      behavioralScore = Math.min(behavioralScore, SCORES.BEHAVIORAL.MAX);
-      networkScore    = Math.min(networkScore,    SCORES.NETWORK.MAX);
-
-      const totalScore = Math.min(100, structuralScore + behavioralScore + networkScore);
-
-      if (totalScore > 0 || patterns.length > 0) {
-        results.push({
-          id: node.id,
-          score: {
-            structural: structuralScore,
-            behavioral: behavioralScore,
-            network:    networkScore,
-            total:      totalScore,
-            details:    { patterns, risk_factors: riskFactors },
-          },
-        });
-      }
+  public async detectPatternsAndScoreAsync(signal?: AbortSignal): Promise<ScoredNode[]> {
+    const { signals, instances, coverage } = await runDetectors(
+      [...this.registry.enabled(this.disabledDetectors), ...this.ruleDetectors],
+      this.buildGraphView(),
+      {
+        jurisdiction: this.jurisdiction,
+        dormancyDays: this.dormancyDays,
+        taintModel:   this.taintModel,
+        taintSeeds:   this.taintSeeds,
+        taintSeedTxIds: this.taintLabelSeeds ? this.fraudTxIds : new Set(),
+        scores:       this.ruleset.scores,
+        thresholds:   this.thresholds,
+        formulas:     this.ruleset.ring_formulas,
+      },
+      signal
+    );
+    this.instances = instances;
+    this.coverage  = coverage;
+    this.nearThresholdTxs = [];
+
+    // Taint seeded from isFraud labels would score the answer key against itself
+    if (this.taintLabelSeeds && this.hasGroundTruth) {
+      const withoutTaint = signals.filter(s => s.detector !== 'taint');
+      this.groundTruthScores = await scoreNodes(this.nodeMap.keys(), withoutTaint, this.ruleset.scores);
     }
 
-    return results;
+    return scoreNodes(this.nodeMap.keys(), signals, this.ruleset.scores);
   }
 
   // ── Ring formation ─────────────────────────────────────────────────────────
 
-  public async formRingsAsync(
-    suspiciousNodes: { id: string; score: SuspicionScore }[]
-  ): Promise<Ring[]> {
-    // Canonical ring deduplication
-    const ringMap = new Map<string, Ring>(); // signature -> Ring
-    let ringCount = 0;
-
-    // Helper: Create canonical signature for ring deduplication
-    const createRingSignature = (ringType: string, nodeIds: string[]): string => {
-      const sortedIds = [...nodeIds].sort().join(',');
-      return `${ringType}::${sortedIds}`;
-    };
-
-    // Create a map for quick lookup of suspicious nodes
-    const suspiciousNodeMap = new Map(suspiciousNodes.map(n => [n.id, n]));
-    const suspiciousSet = new Set(suspiciousNodes.map(n => n.id));
-
-    // 1. Create rings from cycle instances - ONE RING PER UNIQUE STRUCTURE
-    for (const cycle of this.cycleInstances) {
-      const suspiciousInCycle = cycle.nodes.filter(id => suspiciousSet.has(id));
-      if (suspiciousInCycle.length > 0) {
-        // Create canonical signature for deduplication
-        const ringType = `cycle_length_${cycle.length}`;
-        const signature = createRingSignature(ringType, cycle.nodes);
-        
-        // Skip if this exact ring structure already exists
-        if (ringMap.has(signature)) {
-          continue;
-        }
-        
-        ringCount++;
-        
-        const members = suspiciousInCycle.map(id => suspiciousNodeMap.get(id)!);
-
-        // Update network scores
-        const networkBonus = Math.min(SCORES.NETWORK.MAX, 15);
-        members.forEach(m => {
-          m.score.network = Math.max(m.score.network, networkBonus);
-          m.score.total = Math.min(100, m.score.structural + m.score.behavioral + m.score.network);
-        });
-
-        // Compute ring risk using THIS RING'S member set and pattern-specific formula
-        const totalScore = members.reduce((sum, m) => sum + m.score.total, 0);
-        const avgScore = totalScore / members.length;
-        
-        let risk = (avgScore * 0.6) + (Math.log(members.length + 1) * 10);
-        if (cycle.length === 3) risk += 15;
-        else if (cycle.length === 4) risk += 10;
-        else if (cycle.length === 5) risk += 5;
-        risk = Math.min(100, Math.max(0, risk));
-
-        const ring: Ring = {
-          id: `RING_${ringCount.toString().padStart(3, '0')}`,
-          nodes: suspiciousInCycle,
-          risk_score: parseFloat(risk.toFixed(2)),
-          patterns: [ringType],
-          average_suspicion: parseFloat(avgScore.toFixed(2))
-        };
-        
-        ringMap.set(signature, ring);
-      }
-      
-      if (ringCount % 50 === 0) await new Promise(r => setTimeout(r, 0));
-    }
-
-    // 2. Create rings from fan-in instances - ONE RING PER UNIQUE STRUCTURE
-    for (const fanIn of this.fanInInstances) {
-      // Create ring if hub is suspicious (hub must exist in the pattern)
-      // Include all nodes (hub + sources) in the ring, even if sources aren't individually suspicious
-      const hubIsSuspicious = suspiciousSet.has(fanIn.hub);
-      
-      if (hubIsSuspicious && fanIn.sources.length >= 3) {
-        // All nodes in the ring (hub + all spokes)
-        const allRingNodes = [fanIn.hub, ...fanIn.sources];
-        
-        // Create canonical signature for deduplication
-        const ringType = 'hub_spoke_fan_in';
-        const signature = createRingSignature(ringType, allRingNodes);
-        
-        // Skip if this exact ring structure already exists
-        if (ringMap.has(signature)) {
-          continue;
-        }
-        
-        ringCount++;
-        
-        // Get suspicious nodes for scoring
-        const suspiciousMembers = allRingNodes
-          .filter(id => suspiciousSet.has(id))
-          .map(id => suspiciousNodeMap.get(id)!);
-
-        // Update network scores for suspicious members
-        const networkBonus = Math.min(SCORES.NETWORK.MAX, 12);
-        suspiciousMembers.forEach(m => {
-          m.score.network = Math.max(m.score.network, networkBonus);
-          m.score.total = Math.min(100, m.score.structural + m.score.behavioral + m.score.network);
-        });
-
-        // Compute ring risk - primarily from hub, with contribution from spoke count
-        const hubNode = suspiciousNodeMap.get(fanIn.hub);
-        const hubScore = hubNode ? hubNode.score.total : 50; // Fallback if hub not in map
-        
-        // Risk calculation: hub score (70%) + topology bonus (30%)
-        let risk = (hubScore * 0.7) + (Math.log(fanIn.sources.length + 1) * 10) + 15;
-        risk = Math.min(100, Math.max(0, risk));
-
-        // Average suspicion from all suspicious members
-        const totalScore = suspiciousMembers.reduce((sum, m) => sum + m.score.total, 0);
-        const avgScore = suspiciousMembers.length > 0 ? totalScore / suspiciousMembers.length : hubScore;
-
-        const ring: Ring = {
-          id: `RING_${ringCount.toString().padStart(3, '0')}`,
-          nodes: allRingNodes.filter(id => suspiciousSet.has(id)), // Only include suspicious nodes in output
-          risk_score: parseFloat(risk.toFixed(2)),
-          patterns: [ringType],
-          average_suspicion: parseFloat(avgScore.toFixed(2)),
-          central_hub: fanIn.hub
-        };
-        
-        ringMap.set(signature, ring);
-      }
-      
-      if (ringCount % 50 === 0) await new Promise(r => setTimeout(r, 0));
-    }
-
-    // 3. Create rings from fan-out instances - ONE RING PER UNIQUE STRUCTURE
-    for (const fanOut of this.fanOutInstances) {
-      // Create ring if hub is suspicious (hub must exist in the pattern)
-      // Include all nodes (hub + destinations) in the ring, even if destinations aren't individually suspicious
-      const hubIsSuspicious = suspiciousSet.has(fanOut.hub);
-      
-      if (hubIsSuspicious && fanOut.destinations.length >= 3) {
-        // All nodes in the ring (hub + all spokes)
-        const allRingNodes = [fanOut.hub, ...fanOut.destinations];
-        
-        // Create canonical signature for deduplication
-        const ringType = 'hub_spoke_fan_out';
-        const signature = createRingSignature(ringType, allRingNodes);
-        
-        // Skip if this exact ring structure already exists
-        if (ringMap.has(signature)) {
-          continue;
-        }
-        
-        ringCount++;
-        
-        // Get suspicious nodes for scoring
-        const suspiciousMembers = allRingNodes
-          .filter(id => suspiciousSet.has(id))
-          .map(id => suspiciousNodeMap.get(id)!);
-
-        // Update network scores for suspicious members
-        const networkBonus = Math.min(SCORES.NETWORK.MAX, 12);
-        suspiciousMembers.forEach(m => {
-          m.score.network = Math.max(m.score.network, networkBonus);
-          m.score.total = Math.min(100, m.score.structural + m.score.behavioral + m.score.network);
-        });
-
-        // Compute ring risk - primarily from hub, with contribution from spoke count
-        const hubNode = suspiciousNodeMap.get(fanOut.hub);
-        const hubScore = hubNode ? hubNode.score.total : 50; // Fallback if hub not in map
-        
-        // Risk calculation: hub score (70%) + topology bonus (30%)
-        let risk = (hubScore * 0.7) + (Math.log(fanOut.destinations.length + 1) * 10) + 15;
-        risk = Math.min(100, Math.max(0, risk));
-
-        // Average suspicion from all suspicious members
-        const totalScore = suspiciousMembers.reduce((sum, m) => sum + m.score.total, 0);
-        const avgScore = suspiciousMembers.length > 0 ? totalScore / suspiciousMembers.length : hubScore;
-
-        const ring: Ring = {
-          id: `RING_${ringCount.toString().padStart(3, '0')}`,
-          nodes: allRingNodes.filter(id => suspiciousSet.has(id)), // Only include suspicious nodes in output
-          risk_score: parseFloat(risk.toFixed(2)),
-          patterns: [ringType],
-          average_suspicion: parseFloat(avgScore.toFixed(2)),
-          central_hub: fanOut.hub
-        };
-        
-        ringMap.set(signature, ring);
-      }
-      
-      if (ringCount % 50 === 0) await new Promise(r => setTimeout(r, 0));
-    }
-
-    // 4. Create rings from shell chain instances - ONE RING PER UNIQUE STRUCTURE
-    for (const shellChain of this.shellChainInstances) {
-      const suspiciousShellNodes = shellChain.nodes.filter(id => suspiciousSet.has(id));
-      
-      if (suspiciousShellNodes.length > 0) {
-        // Create canonical signature for deduplication
-        const ringType = 'shell_account_chain';
-        const signature = createRingSignature(ringType, shellChain.nodes);
-        
-        // Skip if this exact ring structure already exists
-        if (ringMap.has(signature)) {
-          continue;
-        }
-        
-        ringCount++;
-        
-        const members = suspiciousShellNodes.map(id => suspiciousNodeMap.get(id)!);
-
-        // Update network scores
-        const networkBonus = Math.min(SCORES.NETWORK.MAX, 10);
-        members.forEach(m => {
-          m.score.network = Math.max(m.score.network, networkBonus);
-          m.score.total = Math.min(100, m.score.structural + m.score.behavioral + m.score.network);
-        });
-
-        // Compute ring risk using THIS RING'S member set and pattern-specific formula
-        const totalScore = members.reduce((sum, m) => sum + m.score.total, 0);
-        const avgScore = totalScore / members.length;
-        
-        let risk = (avgScore * 0.5) + (Math.log(members.length + 1) * 7) + 8;
-        risk = Math.min(100, Math.max(0, risk));
-
-        const ring: Ring = {
-          id: `RING_${ringCount.toString().padStart(3, '0')}`,
-          nodes: suspiciousShellNodes,
-          risk_score: parseFloat(risk.toFixed(2)),
-          patterns: [ringType],
-          average_suspicion: parseFloat(avgScore.toFixed(2))
-        };
-        
-        ringMap.set(signature, ring);
-      }
-      
-      if (ringCount % 50 === 0) await new Promise(r => setTimeout(r, 0));
-    }
-
-    // Extract deduplicated rings from map
-    const deduplicatedRings = Array.from(ringMap.values());
-
-    // VALIDATION: Ensure each ring has only one pattern type
-    for (const ring of deduplicatedRings) {
-      if (ring.patterns.length > 1) {
-        throw new Error(
-          `FRAUD RING VALIDATION FAILED: Ring ${ring.id} contains ${ring.patterns.length} pattern types: ${ring.patterns.join(', ')}. ` +
-          `Each ring MUST contain exactly ONE pattern type. This indicates rings were incorrectly merged.`
-        );
-      }
-    }
-
-    return deduplicatedRings.sort((a, b) => b.risk_score - a.risk_score);
+  public formRingsAsync(suspiciousNodes: ScoredNode[]): Promise<Ring[]> {
+    return formRings(this.instances, suspiciousNodes, this.ruleset.scores);
   }
 
   // ── Ground truth computation ───────────────────────────────────────────────
 
   private computeGroundTruth(
-    suspiciousNodes: { id: string; score: SuspicionScore }[]
+    suspiciousNodes: { id: string; score: SuspicionScore }[],
+    rings: Ring[]
   ): GroundTruthMetrics | undefined {
     if (!this.hasGroundTruth) return undefined;
 
-    // Node-level evaluation: a "flagged" node is one with score > 0
-    const flaggedSet = new Set(suspiciousNodes.filter(n => n.score.total > 0).map(n => n.id));
+    // Node-level evaluation at the analysis risk threshold (the same point as sweep[threshold])
+    const { riskThreshold } = this.runSettings;
+    const flaggedSet = new Set(suspiciousNodes.filter(n => n.score.total >= riskThreshold).map(n => n.id));
     const flaggedScoreMap = new Map(suspiciousNodes.map(n => [n.id, n.score.total]));
 
     // All nodes in the graph
@@ -971,11 +475,13 @@ class ChunkedGraphEngine {
     let tp = 0, fp = 0, tn = 0, fn = 0;
     let totalScoreFraud = 0, countFraud = 0;
     let totalScoreLegit = 0, countLegit = 0;
+    const labelled: LabelledScore[] = [];
 
     for (const nodeId of allNodeIds) {
       const isFlagged      = flaggedSet.has(nodeId);
       const isActualFraud  = this.fraudulentNodes.has(nodeId);
       const score          = flaggedScoreMap.get(nodeId) || 0;
+      labelled.push({ id: nodeId, score, fraud: isActualFraud });
 
       if (isActualFraud) {
         totalScoreFraud += score;
@@ -1002,6 +508,7 @@ class ChunkedGraphEngine {
 
     return {
       available: true,
+      threshold: riskThreshold,
       totalFraudTx: this.totalFraudTx,
       totalLegitTx: this.totalLegitTx,
       truePositives:  tp,
@@ -1015,18 +522,28 @@ class ChunkedGraphEngine {
       fraudByType,
       avgScoreFraudNodes: countFraud > 0 ? parseFloat((totalScoreFraud / countFraud).toFixed(2)) : 0,
       avgScoreLegitNodes: countLegit > 0 ? parseFloat((totalScoreLegit / countLegit).toFixed(2)) : 0,
+      ...sweepThresholds(labelled),
+      ...evaluateScopes(this.outgoingPeers, this.fraudTxIds, this.fraudTypologies, this.fraudulentNodes, suspiciousNodes, rings),
+      fraudNodes: Array.from(this.fraudulentNodes),
     };
   }
 
   // ── Result assembly ────────────────────────────────────────────────────────
 
-  public async getResultAsync(): Promise<GraphAnalysisResult> {
-    const suspiciousNodes = await this.detectPatternsAndScoreAsync();
+  public async getResultAsync(signal?: AbortSignal): Promise<GraphAnalysisResult> {
+    const suspiciousNodes = await this.detectPatternsAndScoreAsync(signal);
+    signal?.throwIfAborted();
     const rings           = await this.formRingsAsync(suspiciousNodes);
-    const groundTruth     = this.computeGroundTruth(suspiciousNodes);
+    // With label-seeded taint, ground truth is measured on a taint-free rerun of scoring and ring formation
+    const groundTruth     = this.groundTruthScores
+      ? this.computeGroundTruth(this.groundTruthScores, await this.formRingsAsync(this.groundTruthScores))
+      : this.computeGroundTruth(suspiciousNodes, rings);
+    this.groundTruthScores = null;
 
-    // Release compact peer refs now that all pattern detection is complete
-    this.releaseCompactRefs();
+    // Hand the uncapped peer refs over to the result (money traces read them)
+    const peers = { incoming: this.incomingPeers, outgoing: this.outgoingPeers };
+    this.incomingPeers = new Map();
+    this.outgoingPeers = new Map();
 
     // Free PaySim tracking maps
     this.balanceAnomalyCount.clear();
@@ -1034,6 +551,7 @@ class ChunkedGraphEngine {
     this.zeroDestBalCount.clear();
     this.highRiskTxCount.clear();
     this.totalTxCountPerNode.clear();
+    this.amountSketches.clear();
 
     return {
       nodes:            this.nodeMap,
@@ -1046,6 +564,10 @@ class ChunkedGraphEngine {
         processed_at:       new Date().toISOString(),
       },
       ground_truth: groundTruth,
+      coverage:     this.coverage,
+      ruleset:      applyRuleset(this.ruleset),
+      run_settings: this.runSettings,
+      peers,
     };
   }
 
@@ -1078,39 +600,59 @@ class ChunkedGraphEngine {
 
 // ── Public API ────────────────────────────────────────────────────────────────
 
-export async function uploadAndAnalyze(
-  transactions: Transaction[],
-  onProgress: (progress: UploadProgress) => void
-): Promise<GraphAnalysisResult> {
-  // ── GUARD RAIL: Prevent detection on empty dataset ──
-  if (!transactions || transactions.length === 0) {
-    onProgress({ 
-      status: 'failed', 
-      percent: 0, 
-      message: 'No transactions available for analysis. Please upload a valid dataset.' 
-    });
-    throw new Error('Cannot run detection on empty transaction dataset. Upload a CSV file with transaction data.');
+/** Splits an in-memory array into engine chunks. */
+export async function* chunkTransactions(transactions: Transaction[]): AsyncGenerator<TransactionChunk> {
+  for (let i = 0; i < transactions.length; i += CHUNK_SIZE) {
+    yield {
+      transactions: transactions.slice(i, i + CHUNK_SIZE),
+      fraction:     Math.min(1, (i + CHUNK_SIZE) / transactions.length),
+    };
   }
+}
 
-  const chunkSize   = 2_000;
-  const engine      = new ChunkedGraphEngine();
-  const totalChunks = Math.ceil(transactions.length / chunkSize);
+/**
+ * Builds the graph from chunks as they arrive, then runs detection and
+ * scoring. Chunks are dropped once added, but each row's peer refs are kept,
+ * so memory still grows with the row count. Aborting `signal`
+ * stops the run at the next chunk or detector boundary, rejecting with the
+ * signal's reason (and closing `chunks`, which stops the parser).
+ */
+export async function analyzeTransactionStream(
+  chunks: AsyncIterable<TransactionChunk>,
+  onProgress: (progress: UploadProgress) => void,
+  config: EngineConfig = {},
+  signal?: AbortSignal
+): Promise<GraphAnalysisResult> {
+  const engine = new ChunkedGraphEngine(config);
+  let chunksProcessed = 0, transactionCount = 0, percent = 0;
 
-  onProgress({ status: 'processing', percent: 0, message: `Initialising analysis on ${transactions.length.toLocaleString()} transactions...`, totalChunks, chunksProcessed: 0 });
+  onProgress({ status: 'processing', percent: 0, message: 'Initialising analysis...', chunksProcessed: 0 });
 
-  for (let i = 0; i < transactions.length; i += chunkSize) {
-    engine.addChunk(transactions.slice(i, i + chunkSize));
+  for await (const chunk of chunks) {
+    engine.addChunk(chunk.transactions);
+    chunksProcessed++;
+    transactionCount += chunk.transactions.length;
+    if (chunk.fraction !== undefined) percent = Math.round(Math.min(1, chunk.fraction) * 75);
 
-    const chunksProcessed = Math.floor(i / chunkSize) + 1;
     onProgress({
-      status:          'processing',
-      percent:         Math.round((chunksProcessed / totalChunks) * 75),
-      message:         `Building graph... chunk ${chunksProcessed}/${totalChunks}`,
+      status:  'processing',
+      percent,
+      message: `Building graph... ${transactionCount.toLocaleString()} transactions`,
       chunksProcessed,
-      totalChunks,
     });
 
     await new Promise(resolve => setTimeout(resolve, 0));
+    signal?.throwIfAborted();
+  }
+
+  // ── GUARD RAIL: Prevent detection on empty dataset ──
+  if (transactionCount === 0) {
+    onProgress({
+      status: 'failed',
+      percent: 0,
+      message: 'No transactions available for analysis. Please upload a valid dataset.'
+    });
+    throw new Error('Cannot run detection on empty transaction dataset. Upload a CSV file with transaction data.');
   }
 
   onProgress({ status: 'processing', percent: 76, message: 'Finalising node metrics...' });
@@ -1120,12 +662,22 @@ export async function uploadAndAnalyze(
   onProgress({ status: 'processing', percent: 80, message: 'Detecting fraud patterns (PaySim-calibrated)...' });
   await new Promise(resolve => setTimeout(resolve, 10));
 
-  const result = await engine.getResultAsync();
+  const result = await engine.getResultAsync(signal);
 
   onProgress({ status: 'completed', percent: 100, message: 'Analysis complete' });
   return result;
 }
 
+/** Analyses transactions already in memory (demo and synthetic data, saved JSON). */
+export function uploadAndAnalyze(
+  transactions: Transaction[],
+  onProgress: (progress: UploadProgress) => void,
+  config: EngineConfig = {},
+  signal?: AbortSignal
+): Promise<GraphAnalysisResult> {
+  return analyzeTransactionStream(chunkTransactions(transactions ?? []), onProgress, config, signal);
+}
+
 // Kept for compatibility
 export function serializeAnalysisResult(result: GraphAnalysisResult): Blob {
   return new Blob([JSON.stringify(result)], { type: 'application/json' });
@@ -0,0 +1,192 @@
+/**
+ * Community Detection — Louvain modularity optimisation
+ *
+ * Groups accounts that transact far more with each other than chance would
+ * predict, regardless of whether the group forms a cycle, fan or chain.
+ * Coordinated mule networks that none of the shape detectors recognise still
+ * show up as dense, inward-looking communities.
+ *
+ * The transaction graph is treated as undirected. Each account pair is
+ * weighted by frequency and size together:
+ *
+ *   weight = txCount × ln(1 + totalAmount / txCount)
+ *
+ * so a pair with many large transfers outweighs one-off payments or swarms
+ * of micro-transactions.
+ */
+
+export interface PairFlow {
+  count: number;
+  amount: number;
+}
+
+export interface CommunityResult {
+  /** Community index per account */
+  communityOf: Map<string, number>;
+  /** Global modularity Q of the final partition */
+  modularity: number;
+  /** Per-community modularity contribution (in_c / 2m − (tot_c / 2m)²) */
+  contribution: Map<number, number>;
+}
+
+const MAX_LEVELS = 10;
+const MAX_PASSES = 20;
+const MIN_GAIN   = 1e-10;
+
+const tick = () => new Promise(r => setTimeout(r, 0));
+
+export function pairWeight(flow: PairFlow): number {
+  if (flow.count === 0) return 0;
+  return flow.count * Math.log1p(Math.max(0, flow.amount) / flow.count);
+}
+
+interface LevelGraph {
+  nbr: number[][];
+  wt: number[][];
+  degree: number[]; // k_i — row sums of the symmetric adjacency matrix
+}
+
+/** One Louvain local-moving phase. Returns the community label per node and whether anything moved. */
+async function localMoving(g: LevelGraph, m2: number): Promise<{ labels: number[]; moved: boolean }> {
+  const n = g.nbr.length;
+  const labels = Array.from({ length: n }, (_, i) => i);
+  const tot = [...g.degree];
+  let movedAny = false;
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let moved = false;
+
+    for (let i = 0; i < n; i++) {
+      const own = labels[i];
+      const ki = g.degree[i];
+
+      // Weight from i into each neighbouring community (self-loops excluded)
+      const linkTo = new Map<number, number>();
+      for (let k = 0; k < g.nbr[i].length; k++) {
+        const j = g.nbr[i][k];
+        if (j === i) continue;
+        linkTo.set(labels[j], (linkTo.get(labels[j]) || 0) + g.wt[i][k]);
+      }
+
+      tot[own] -= ki;
+      let best = own;
+      let bestGain = (linkTo.get(own) || 0) - (tot[own] * ki) / m2;
+      for (const [c, w] of linkTo) {
+        const gain = w - (tot[c] * ki) / m2;
+        if (gain > bestGain + MIN_GAIN) { best = c; bestGain = gain; }
+      }
+      tot[best] += ki;
+
+      if (best !== own) {
+        labels[i] = best;
+        moved = true;
+        movedAny = true;
+      }
+      if (i % 5_000 === 4_999) await tick();
+    }
+
+    if (!moved) break;
+  }
+
+  return { labels, moved: movedAny };
+}
+
+/** Collapses each community into a single node (internal weight becomes a self-loop). */
+function aggregate(g: LevelGraph, labels: number[]): { graph: LevelGraph; remap: number[] } {
+  const ids = new Map<number, number>();
+  const remap = labels.map(l => {
+    if (!ids.has(l)) ids.set(l, ids.size);
+    return ids.get(l)!;
+  });
+
+  const rows: Map<number, number>[] = Array.from({ length: ids.size }, () => new Map());
+  for (let i = 0; i < g.nbr.length; i++) {
+    const ci = remap[i];
+    for (let k = 0; k < g.nbr[i].length; k++) {
+      const cj = remap[g.nbr[i][k]];
+      rows[ci].set(cj, (rows[ci].get(cj) || 0) + g.wt[i][k]);
+    }
+  }
+
+  const graph: LevelGraph = {
+    nbr:    rows.map(r => Array.from(r.keys())),
+    wt:     rows.map(r => Array.from(r.values())),
+    degree: rows.map(r => Array.from(r.values()).reduce((s, w) => s + w, 0)),
+  };
+  return { graph, remap };
+}
+
+/**
+ * Runs Louvain over the undirected, weighted account graph.
+ * @param flows  Directed pair flows (from → to → {count, amount}); both directions are merged.
+ */
+export async function detectCommunities(
+  flows: Map<string, Map<string, PairFlow>>,
+  nodeIds: Iterable<string>
+): Promise<CommunityResult> {
+  const ids = Array.from(nodeIds);
+  const pos = new Map(ids.map((id, i) => [id, i]));
+
+  // Symmetric adjacency, merging A→B and B→A into one undirected weight
+  const rows: Map<number, number>[] = ids.map(() => new Map());
+  for (const [from, targets] of flows) {
+    const i = pos.get(from);
+    if (i === undefined) continue;
+    for (const [to, flow] of targets) {
+      const j = pos.get(to);
+      if (j === undefined || j === i) continue;
+      const w = pairWeight(flow);
+      if (w <= 0) continue;
+      rows[i].set(j, (rows[i].get(j) || 0) + w);
+      rows[j].set(i, (rows[j].get(i) || 0) + w);
+    }
+  }
+
+  const base: LevelGraph = {
+    nbr:    rows.map(r => Array.from(r.keys())),
+    wt:     rows.map(r => Array.from(r.values())),
+    degree: rows.map(r => Array.from(r.values()).reduce((s, w) => s + w, 0)),
+  };
+  const m2 = base.degree.reduce((s, k) => s + k, 0);
+
+  // membership[i] = community of original node i at the current level
+  let membership = ids.map((_, i) => i);
+  if (m2 > 0) {
+    let level = base;
+    for (let depth = 0; depth < MAX_LEVELS; depth++) {
+      const { labels, moved } = await localMoving(level, m2);
+      if (!moved) break;
+      const { graph, remap } = aggregate(level, labels);
+      membership = membership.map(c => remap[c]);
+      level = graph;
+      await tick();
+    }
+  }
+
+  // Modularity of the final partition on the original graph
+  const inside = new Map<number, number>();
+  const total  = new Map<number, number>();
+  for (let i = 0; i < ids.length; i++) {
+    const ci = membership[i];
+    total.set(ci, (total.get(ci) || 0) + base.degree[i]);
+    for (let k = 0; k < base.nbr[i].length; k++) {
+      if (membership[base.nbr[i][k]] === ci) inside.set(ci, (inside.get(ci) || 0) + base.wt[i][k]);
+    }
+  }
+
+  const contribution = new Map<number, number>();
+  let modularity = 0;
+  if (m2 > 0) {
+    for (const [c, tot] of total) {
+      const q = (inside.get(c) || 0) / m2 - (tot / m2) ** 2;
+      contribution.set(c, q);
+      modularity += q;
+    }
+  }
+
+  return {
+    communityOf: new Map(ids.map((id, i) => [id, membership[i]])),
+    modularity,
+    contribution,
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Cycle Enumeration — SCC-restricted, budget-aware
+ *
+ * Replaces the old per-start-node iteration caps (which silently abandoned
+ * the search) with a shared budget and an explicit coverage report.
+ *
+ *  1. Tarjan's algorithm splits the graph into strongly connected components.
+ *     A directed cycle can never leave its SCC, so every other edge is pruned.
+ *  2. Inside each SCC, Johnson-style rooting: a cycle is only reported from its
+ *     lowest-ranked member, and the search from start s only visits members
+ *     ranked above s. Every elementary cycle is therefore found exactly once.
+ *  3. The iteration budget is shared out in rounds: each start node's search
+ *     gets an equal share of what is left, so one giant SCC cannot starve the
+ *     rest, and a search cut short keeps its stack and resumes with the budget
+ *     that faster searches left over. The wall-clock budget is a hard stop.
+ *     A component counts as searched once all of its starts have finished.
+ *  4. An optional canExtend() hook prunes paths early (the cycle detector cuts
+ *     paths that can no longer be traversed in time order); only cycles that
+ *     onCycle() keeps are counted as found.
+ *
+ * The search core is a generator that yields periodically; runCycleSearch()
+ * drives it synchronously and runCycleSearchAsync() yields to the event loop.
+ */
+
+import { DetectorCoverage } from './types';
+
+export interface CycleSearchOptions {
+  nodes: Iterable<string>;
+  neighbours: (id: string) => Iterable<string>;
+  minLength: number;
+  maxLength: number;
+  maxIterations: number; // DFS expansion budget, shared out across start nodes
+  maxMillis: number;     // wall-clock budget for the whole search
+  /**
+   * Prunes the search: whether `path` may be extended to `next`. Must only
+   * reject paths that cannot lie on any cycle `onCycle` would keep.
+   */
+  canExtend?: (path: string[], next: string) => boolean;
+  /** Called once per elementary cycle (path excludes the closing node); returns whether it was kept. */
+  onCycle: (path: string[]) => boolean;
+}
+
+const YIELD_EVERY = 5_000;
+
+/** Iterative Tarjan SCC — safe for deep graphs (no recursion). */
+export function stronglyConnectedComponents(
+  nodes: Iterable<string>,
+  neighbours: (id: string) => Iterable<string>
+): string[][] {
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const root of nodes) {
+    if (index.has(root)) continue;
+
+    const work: { id: string; it: Iterator<string> }[] = [];
+    const visit = (id: string) => {
+      index.set(id, counter);
+      lowlink.set(id, counter);
+      counter++;
+      stack.push(id);
+      onStack.add(id);
+      work.push({ id, it: neighbours(id)[Symbol.iterator]() });
+    };
+    visit(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const next = frame.it.next();
+      if (!next.done) {
+        const w = next.value;
+        if (!index.has(w)) {
+          visit(w);
+        } else if (onStack.has(w)) {
+          lowlink.set(frame.id, Math.min(lowlink.get(frame.id)!, index.get(w)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].id;
+        lowlink.set(parent, Math.min(lowlink.get(parent)!, lowlink.get(frame.id)!));
+      }
+      if (lowlink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = [];
+        let w: string;
+        do {
+          w = stack.pop()!;
+          onStack.delete(w);
+          component.push(w);
+        } while (w !== frame.id);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
+
+/** The depth-first search from one start node, resumable across budget rounds. */
+interface StartSearch {
+  component: number;
+  rank: Map<string, number>; // position of each member within its SCC
+  s: number;                 // the start's own rank
+  stack: string[][];
+}
+
+function* cycleSearch(options: CycleSearchOptions, detector: string): Generator<void, DetectorCoverage> {
+  const started = Date.now();
+  const components = stronglyConnectedComponents(options.nodes, options.neighbours)
+    .filter(c => c.length >= options.minLength)
+    .sort((a, b) => a.length - b.length);
+
+  const coverage: DetectorCoverage = {
+    detector,
+    components_total:    components.length,
+    components_searched: 0,
+    instances_found:     0,
+    budget_exhausted:    false,
+    iterations:          0,
+    elapsed_ms:          0,
+  };
+
+  // One resumable depth-first search per start node, smallest component first
+  const searches: StartSearch[] = [];
+  components.forEach((component, c) => {
+    const rank = new Map(component.map((id, i) => [id, i]));
+    component.forEach((id, s) => searches.push({ component: c, rank, s, stack: [[id]] }));
+  });
+
+  // Each round gives every unfinished search an equal share of the iterations
+  // left; searches cut short keep their stack and resume in the next round.
+  let pending = searches;
+  let outOfTime = false;
+  while (pending.length > 0 && !outOfTime) {
+    const unfinished: StartSearch[] = [];
+    const before = coverage.iterations;
+
+    for (let i = 0; i < pending.length; i++) {
+      const search = pending[i];
+      const { rank, s, stack } = search;
+      const limit = coverage.iterations +
+        Math.floor((options.maxIterations - coverage.iterations) / (pending.length - i));
+
+      while (stack.length > 0 && coverage.iterations < limit) {
+        if (Date.now() - started >= options.maxMillis) {
+          outOfTime = true; // the wall clock stays a hard stop for the whole search
+          break;
+        }
+        if (++coverage.iterations % YIELD_EVERY === 0) yield;
+
+        const path = stack.pop()!;
+        const current = path[path.length - 1];
+
+        for (const neighbour of options.neighbours(current)) {
+          const r = rank.get(neighbour);
+          if (r === undefined || r < s) continue; // outside SCC, or rooted elsewhere
+
+          if (neighbour === path[0]) {
+            if (path.length >= options.minLength && options.onCycle(path)) coverage.instances_found++;
+          } else if (path.length < options.maxLength && !path.includes(neighbour) &&
+                     (!options.canExtend || options.canExtend(path, neighbour))) {
+            stack.push([...path, neighbour]);
+          }
+        }
+      }
+
+      if (outOfTime) {
+        unfinished.push(...pending.slice(i));
+        break;
+      }
+      if (stack.length > 0) unfinished.push(search);
+    }
+
+    if (coverage.iterations === before) break; // nothing left to share out
+    pending = unfinished;
+  }
+
+  const partial = new Set(pending.map(search => search.component));
+  coverage.components_searched = components.length - partial.size;
+  coverage.budget_exhausted = pending.length > 0;
+
+  coverage.elapsed_ms = Date.now() - started;
+  return coverage;
+}
+
+/** Runs the search to completion (or budget) on the calling thread. */
+export function runCycleSearch(options: CycleSearchOptions, detector: string): DetectorCoverage {
+  const gen = cycleSearch(options, detector);
+  let step = gen.next();
+  while (!step.done) step = gen.next();
+  return step.value;
+}
+
+/** Same search, yielding to the event loop periodically so the UI stays live. */
+export async function runCycleSearchAsync(options: CycleSearchOptions, detector: string): Promise<DetectorCoverage> {
+  const gen = cycleSearch(options, detector);
+  let step = gen.next();
+  while (!step.done) {
+    await new Promise(r => setTimeout(r, 0));
+    step = gen.next();
+  }
+  return step.value;
+}
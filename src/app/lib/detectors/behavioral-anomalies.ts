@@ -0,0 +1,70 @@
+/**
+ * Universal behavioural anomalies — signals that work on ANY dataset:
+ * velocity, amount outliers, round amounts, temporal bursts, singleton
+ * accounts, amount clustering, time concentration and uniform amounts.
+ */
+
+import { Detector, NodeSignal } from './types';
+import { hasAmountOutlier } from '../activity-metrics';
+
+export const behavioralAnomalyDetector: Detector = {
+  id: 'behavioral_anomalies',
+  label: 'Behavioural Anomalies',
+  description: 'Velocity, outlier and round amounts, bursts, minimal history, similar or uniform amounts, time-of-day concentration.',
+
+  async run(view, { scores, thresholds }) {
+    const signals: NodeSignal[] = [];
+    const c = view.counters;
+    const B = scores.BEHAVIORAL;
+
+    let processed = 0;
+    for (const [id, node] of view.nodes) {
+      if (++processed % 1000 === 0) await new Promise(r => setTimeout(r, 0));
+      const add = (key: Exclude<keyof typeof B, 'MAX'>, riskFactor: string, pattern?: string) =>
+        signals.push({ node: id, component: 'behavioral', points: B[key], riskFactor, pattern, weight: `BEHAVIORAL.${key}` });
+
+      if (node.velocity > thresholds.HIGH_VELOCITY_TX_PER_HOUR) add('HIGH_VELOCITY', 'high_velocity');
+
+      const nodeTxCount = node.total_degree;
+      const amounts = c.amountSketches.get(id);
+      const amountCount = amounts?.count ?? 0;
+
+      // 1. Amount outlier detection (Z-score based)
+      if (amounts && amountCount >= 2 && hasAmountOutlier(amounts, thresholds.AMOUNT_ZSCORE_THRESHOLD)) {
+        add('AMOUNT_OUTLIER', 'amount_outlier', 'statistical_anomaly');
+      }
+
+      // 2. Round amounts (more than half of all tx)
+      const roundAmtCount = c.roundAmountCount.get(id) || 0;
+      if (roundAmtCount > 0 && nodeTxCount > 0 && roundAmtCount / nodeTxCount > 0.5) {
+        add('ROUND_AMOUNT', 'round_amounts', 'structuring');
+      }
+
+      // 3. Temporal burst (at least 2 burst events)
+      if ((c.temporalBurstCount.get(id) || 0) >= 2) add('TEMPORAL_BURST', 'temporal_burst', 'burst_activity');
+
+      // 4. Singleton account (very low activity)
+      if (nodeTxCount <= thresholds.SINGLETON_TX_MAX) add('SINGLETON_ACCOUNT', 'singleton_account', 'minimal_history');
+
+      // 5. Amount clustering (several pairs of similar amounts, counted while ingesting)
+      if (amounts && amountCount >= thresholds.AMOUNT_CLUSTER_MIN &&
+          amounts.similarPairs >= thresholds.AMOUNT_CLUSTER_MIN) {
+        add('AMOUNT_CLUSTERING', 'amount_clustering', 'similar_amounts');
+      }
+
+      // 6. Time concentration (activity packed into a few hours of the day)
+      if (nodeTxCount >= thresholds.TIME_CONCENTRATION_MIN_TX &&
+          node.time_concentration >= thresholds.TIME_CONCENTRATION_GINI) {
+        add('TIME_CONCENTRATION', 'time_concentration');
+      }
+
+      // 7. Uniform amounts (scripted fixed-size transfers)
+      if (amountCount >= thresholds.UNIFORM_AMOUNT_MIN_TX &&
+          (node.amount_cv ?? 0) <= thresholds.UNIFORM_AMOUNT_CV) {
+        add('UNIFORM_AMOUNTS', 'uniform_amounts');
+      }
+    }
+
+    return { signals, instances: [] };
+  },
+};
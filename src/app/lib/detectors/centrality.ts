@@ -0,0 +1,71 @@
+/**
+ * Centrality detector — amount-weighted PageRank, sampled betweenness and
+ * HITS (annotated on each node) plus a degree outlier proxy. Cut-offs are
+ * quantiles of this dataset, so only the most central accounts are flagged.
+ */
+
+import { mean, standardDeviation } from 'simple-statistics';
+import { buildWeightedGraph, computeCentrality, quantile } from '../centrality';
+import { Detector, NodeSignal } from './types';
+
+export const centralityDetector: Detector = {
+  id: 'centrality',
+  label: 'Network Centrality',
+  description: 'High degree, PageRank, betweenness (bridge accounts) and combined HITS hub/authority scores.',
+
+  async run(view, { scores, thresholds }) {
+    const flows = new Map<string, Map<string, number>>();
+    for (const [from, refs] of view.outgoing) {
+      const byPeer = new Map<string, number>();
+      for (const ref of refs) byPeer.set(ref.peer, (byPeer.get(ref.peer) || 0) + ref.amount);
+      flows.set(from, byPeer);
+    }
+
+    const graph  = buildWeightedGraph(flows, view.nodes.keys());
+    const result = await computeCentrality(graph);
+
+    graph.ids.forEach((id, i) => {
+      const node = view.nodes.get(id)!;
+      node.pagerank        = result.pagerank[i];
+      node.betweenness     = result.betweenness[i];
+      node.hub_score       = result.hub[i];
+      node.authority_score = result.authority[i];
+    });
+
+    // Cut-offs relative to this dataset
+    const allNodes       = Array.from(view.nodes.values());
+    const pagerankCut    = Math.max(
+      quantile(allNodes.map(n => n.pagerank || 0), thresholds.CENTRALITY_QUANTILE),
+      thresholds.PAGERANK_MIN_RATIO / Math.max(1, allNodes.length)
+    );
+    const betweennessCut = quantile(allNodes.map(n => n.betweenness || 0), thresholds.CENTRALITY_QUANTILE);
+    const hubCut         = quantile(allNodes.map(n => n.hub_score || 0), thresholds.HITS_QUANTILE);
+    const authorityCut   = quantile(allNodes.map(n => n.authority_score || 0), thresholds.HITS_QUANTILE);
+
+    // Degree statistics for the centrality proxy
+    const degrees = allNodes.map(n => n.total_degree);
+    let meanDeg = 0, stdDeg = 0;
+    if (degrees.length > 1) {
+      meanDeg = mean(degrees);
+      stdDeg  = standardDeviation(degrees);
+    }
+
+    const signals: NodeSignal[] = [];
+    for (const node of allNodes) {
+      const add = (key: Exclude<keyof typeof scores.NETWORK, 'MAX'>, riskFactor: string, pattern?: string) =>
+        signals.push({ node: node.id, component: 'network', points: scores.NETWORK[key], riskFactor, pattern, weight: `NETWORK.${key}` });
+
+      if (stdDeg > 0 && node.total_degree > meanDeg + 2 * stdDeg) add('HIGH_DEGREE', 'high_centrality');
+      if ((node.pagerank || 0) >= pagerankCut) add('HIGH_PAGERANK', 'high_pagerank');
+      if ((node.betweenness || 0) > 0 && (node.betweenness || 0) >= betweennessCut) {
+        add('BRIDGE_ACCOUNT', 'bridge_account', 'bridge_node');
+      }
+      if ((node.hub_score || 0) > 0 && (node.authority_score || 0) > 0 &&
+          (node.hub_score || 0) >= hubCut && (node.authority_score || 0) >= authorityCut) {
+        add('HUB_AUTHORITY', 'hub_and_authority');
+      }
+    }
+
+    return { signals, instances: [] };
+  },
+};
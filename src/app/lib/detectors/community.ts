@@ -0,0 +1,103 @@
+/**
+ * Community detector — Louvain over the undirected graph (weighted by amount
+ * and frequency). Keeps communities of ring-like size whose internal flow is
+ * at least the flow crossing their boundary. It emits no node signals: a
+ * community only becomes a ring once enough of its members are suspicious
+ * on other evidence.
+ */
+
+import { CommunityStats } from '../types';
+import { detectCommunities, PairFlow } from '../community-detection';
+import { Detector, PatternInstance } from './types';
+import { legFromRefs } from './ring-structure';
+
+export const communityDetector: Detector = {
+  id: 'community',
+  label: 'Community Clusters',
+  description: 'Dense, inward-looking groups of accounts where most members are already suspicious.',
+
+  async run(view, { thresholds, formulas }) {
+    const instances: PatternInstance[] = [];
+
+    const flows = new Map<string, Map<string, PairFlow>>();
+    for (const [from, refs] of view.outgoing) {
+      const byPeer = new Map<string, PairFlow>();
+      for (const ref of refs) {
+        const flow = byPeer.get(ref.peer) || { count: 0, amount: 0 };
+        flow.count++;
+        flow.amount += ref.amount;
+        byPeer.set(ref.peer, flow);
+      }
+      flows.set(from, byPeer);
+    }
+
+    const { communityOf, modularity, contribution } = await detectCommunities(flows, view.nodes.keys());
+
+    const groups = new Map<number, string[]>();
+    for (const [id, c] of communityOf) {
+      const group = groups.get(c);
+      if (group) group.push(id); else groups.set(c, [id]);
+    }
+
+    for (const [c, members] of groups) {
+      if (members.length < thresholds.COMMUNITY_MIN_SIZE || members.length > thresholds.COMMUNITY_MAX_SIZE) continue;
+
+      let internal = 0, external = 0;
+      for (const id of members) {
+        for (const ref of view.outgoing.get(id) || []) {
+          if (communityOf.get(ref.peer) === c) internal += ref.amount; else external += ref.amount;
+        }
+        for (const ref of view.incoming.get(id) || []) {
+          if (communityOf.get(ref.peer) !== c) external += ref.amount;
+        }
+      }
+
+      const ratio = external > 0 ? internal / external : (internal > 0 ? 999 : 0);
+      if (ratio < thresholds.COMMUNITY_MIN_FLOW_RATIO) continue;
+
+      const stats: Omit<CommunityStats, 'suspicious_members'> = {
+        member_count:      members.length,
+        modularity:        parseFloat((contribution.get(c) || 0).toFixed(4)),
+        global_modularity: parseFloat(modularity.toFixed(4)),
+        internal_flow:     parseFloat(internal.toFixed(2)),
+        external_flow:     parseFloat(external.toFixed(2)),
+        flow_ratio:        parseFloat(Math.min(999, ratio).toFixed(2)),
+      };
+
+      instances.push({
+        ringType: 'community_cluster',
+        signature: members,
+        toRing: ctx => {
+          const suspiciousInCommunity = members.filter(id => ctx.isSuspicious(id));
+          const share = suspiciousInCommunity.length / members.length;
+          if (suspiciousInCommunity.length < 2 || share < thresholds.COMMUNITY_MIN_SUSPICIOUS_SHARE) return null;
+          // Member suspicion + size + how inward-looking the money is
+          const internalShare = stats.internal_flow / Math.max(1e-9, stats.internal_flow + stats.external_flow);
+          const f = formulas.community;
+          return {
+            nodes: suspiciousInCommunity,
+            networkBonus: f.network_bonus,
+            risk: avg =>
+              (avg * f.suspicion_weight) + (Math.log(suspiciousInCommunity.length + 1) * f.size_weight) +
+              (internalShare * f.internal_weight),
+            structure: () => {
+              const edgeIndex = view.edgeIndex();
+              return {
+                shape: 'cluster',
+                members: members.map(id => ({ id, role: 'member' as const })),
+                legs: members.flatMap(from =>
+                  Array.from(edgeIndex.get(from) || [])
+                    .filter(([to]) => communityOf.get(to) === c)
+                    .map(([to, refs]) => legFromRefs(from, to, refs))
+                ),
+              };
+            },
+            details: { community: { ...stats, suspicious_members: suspiciousInCommunity.length } },
+          };
+        },
+      });
+    }
+
+    return { signals: [], instances };
+  },
+};
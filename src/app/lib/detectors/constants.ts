@@ -0,0 +1,192 @@
+/**
+ * Scoring constants shared by every detector
+ *
+ * Points are granted per signal and capped per component (structural,
+ * behavioral, network) when the pipeline sums a node's signals. Thresholds
+ * are grouped by the detector that reads them.
+ */
+
+export const SCORES = {
+  STRUCTURAL: {
+    CYCLE:   40,
+    SMURFING: 25,
+    SHELL:   20,
+    FAN_IN:  30,
+    FAN_OUT: 30,
+    LAYERING: 30,
+    SCATTER_GATHER: 30,
+    ROUND_TRIP: 25,
+    LEGITIMATE_SHIELD: -35, // long-lived, busy, evenly paced account
+    MAX:    100,
+  },
+  BEHAVIORAL: {
+    HIGH_VELOCITY: 10,
+    HIGH_DIVERSITY: 10,
+    BURST: 10,
+    // PaySim-specific behavioural signals (INCREASED for better recall)
+    BALANCE_ANOMALY:  20,   // balance doesn't add up (was 15)
+    ACCOUNT_DRAINING: 18,   // originator balance → 0 (was 12)
+    ZERO_DEST_BALANCE: 12,   // sending to empty accounts (was 8)
+    HIGH_RISK_TX_TYPE: 8,   // majority TRANSFER / CASH_OUT (was 6)
+    // Universal anomaly signals (work on ANY dataset)
+    AMOUNT_OUTLIER:   15,   // Amount is statistical outlier (Z-score ≥ 2)
+    ROUND_AMOUNT:     8,    // Suspiciously round amounts (structuring)
+    THRESHOLD_STRUCTURING: 15, // Repeated amounts just below a reporting threshold
+    RAPID_PASS_THROUGH: 12, // Most inflow forwarded within hours (FIFO dwell time)
+    DORMANT_REACTIVATION: 12, // Long silence, then funds in and straight out
+    MULE_LIFECYCLE:    15,  // New → funded → cashed out → silent
+    TEMPORAL_BURST:   12,   // Multiple tx in short time window
+    SINGLETON_ACCOUNT: 10,  // Very low transaction count (1-2 lifetime)
+    AMOUNT_CLUSTERING: 10,  // Multiple similar amounts (±5%)
+    TIME_CONCENTRATION: 8,  // Activity packed into a few hours of the day
+    UNIFORM_AMOUNTS:   8,   // Near-identical amounts across many tx (low CV)
+    MAX:   40,  // Increased from 30 to accommodate stronger signals
+  },
+  NETWORK: {
+    RING_SIZE_FACTOR:  5,
+    AVG_RING_SUSPICION: 10,
+    MULTI_PATTERN:     5,
+    HIGH_DEGREE:       12,
+    HIGH_PAGERANK:      8,   // amount-weighted PageRank far above uniform
+    BRIDGE_ACCOUNT:    10,   // top betweenness — links otherwise separate clusters
+    HUB_AUTHORITY:      6,   // strong HITS hub AND authority (collects and disperses)
+    TAINT_EXPOSURE:    15,   // scaled by the tainted share of inflows
+    MAX:              35,
+  },
+};
+
+export const THRESHOLDS = {
+  WINDOW_HOURS:            72,
+  FAN_THRESHOLD:           10,
+  SHELL_CHAIN_MIN_LENGTH:   3,
+  SHELL_TX_MIN:             2,
+  SHELL_TX_MAX:             3,
+  CYCLE_MIN_LEN:            3,
+  CYCLE_MAX_LEN:            5,
+  CYCLE_DEPTH_LIMIT:        6,
+  CYCLE_WINDOW_HOURS:      72,   // first → last hop of a cycle must close within this window
+  CYCLE_SEARCH_MAX_ITERATIONS: 2_000_000, // DFS budget, shared out across start nodes
+  CYCLE_SEARCH_MAX_MS:     20_000,        // wall-clock hard stop for cycle search
+  LAYERING_MIN_HOPS:        3,    // source → ≥2 intermediaries → sink
+  LAYERING_MAX_HOPS:        8,
+  LAYERING_MAX_DWELL_HOURS: 24,   // funds must move on within a day at every hop
+  LAYERING_HOP_SKIM:        0.10, // each hop may keep up to 10% as a fee
+  LAYERING_MAX_SKIM:        0.30, // whole chain may lose up to 30%
+  LAYERING_MAX_BRANCHING:   3,    // continuations explored per hop
+  LAYERING_SEARCH_MAX_ITERATIONS: 1_000_000,
+  LAYERING_SEARCH_MAX_MS:   15_000,
+  SCATTER_GATHER_MIN_INTERMEDIARIES: 3, // source → ≥3 shared mules → sink
+  SCATTER_GATHER_WINDOW_HOURS: 72,      // first scatter leg → last gather leg
+  ROUND_TRIP_WINDOW_HOURS:  72,   // return leg must follow within this window
+  ROUND_TRIP_AMOUNT_TOLERANCE: 0.10, // return within ±10% of the outbound amount
+  ROUND_TRIP_MIN_PAIRS:     2,    // a single back-and-forth is usually a refund
+  SMURFING_BURST_WINDOW_HOURS: 72,
+  SMURFING_BURST_RATIO:     0.5,  // over half of all tx inside one window
+  SMURFING_DIVERSITY_RATIO: 0.8,  // 80% unique counterparties
+  SMURFING_MIN_DEGREE:      5,    // more than this many tx
+  HIGH_VELOCITY_TX_PER_HOUR: 5,
+  ACTIVE_DAYS_LEGIT:        7,
+  LEGIT_MIN_DEGREE:         20,   // busy enough for the pacing to mean something
+  LEGIT_MAX_BURST_RATIO:    0.3,  // activity spread out, not packed into one window
+  // PaySim-specific thresholds
+  BALANCE_ANOMALY_EPSILON:  1.0,  // tolerance for float rounding
+  BALANCE_ANOMALY_RATIO:    0.3,  // 30%+ anomalous tx → flag
+  HIGH_RISK_TX_RATIO:       0.6,  // 60%+ TRANSFER/CASH_OUT → flag
+  ACCOUNT_DRAIN_RATIO:      0.2,  // 20%+ draining tx → flag
+  ZERO_DEST_RATIO:          0.3,  // 30%+ to empty accounts → flag
+  // Universal anomaly thresholds
+  AMOUNT_ZSCORE_THRESHOLD:  2.0,  // 2σ from mean = outlier
+  ROUND_AMOUNT_THRESHOLD:   100,  // Round to nearest $100+
+  STRUCTURING_BAND_PCT:     0.10, // 9,000–9,999 under a 10,000 limit
+  STRUCTURING_WINDOW_HOURS: 168,  // rolling 7-day window
+  STRUCTURING_MIN_TX:       3,    // near-threshold tx needed inside one window
+  RAPID_PASS_MIN_INFLOWS:   2,    // dwell stats over a single inflow are anecdotal
+  RAPID_PASS_FORWARDED_24H_PCT: 80, // ≥80% of inflow forwarded within 24h
+  RAPID_PASS_MAX_MEDIAN_HOURS: 6, // and half of it within 6h
+  DORMANCY_DAYS:            90,   // default gap that counts as dormant
+  REACTIVATION_WINDOW_HOURS: 72,  // activity examined after the gap
+  REACTIVATION_FORWARD_RATIO: 0.5, // ≥50% of the new inflow moved on
+  NEW_ACCOUNT_GRACE_HOURS:  24,   // seen in the first day → existed before the data
+  MULE_MAX_LIFESPAN_DAYS:   14,
+  MULE_CASHOUT_RATIO:       0.8,  // ≥80% of lifetime inflow sent out
+  MULE_SILENCE_DAYS:        7,    // quiet until the end of the data
+  TEMPORAL_BURST_MINUTES:   30,   // Multiple tx within 30 minutes
+  SINGLETON_TX_MAX:         2,    // ≤2 lifetime transactions
+  AMOUNT_SIMILARITY_PCT:    0.05, // ±5% = similar amounts
+  AMOUNT_CLUSTER_MIN:       3,    // Need 3+ similar amounts to flag
+  TIME_CONCENTRATION_GINI:  0.8,  // hourly Gini above chance, scaled 0–1, ≥ 0.8 → concentrated
+  TIME_CONCENTRATION_MIN_TX: 5,   // below this, even one busy hour is not telling
+  UNIFORM_AMOUNT_CV:        0.05, // stddev within 5% of the mean
+  UNIFORM_AMOUNT_MIN_TX:    5,
+  // Centrality thresholds
+  CENTRALITY_QUANTILE:      0.99, // top 1% by PageRank / betweenness
+  PAGERANK_MIN_RATIO:       3,    // and at least 3× the uniform rank (1/N)
+  HITS_QUANTILE:            0.95, // top 5% on both hub and authority
+  // Community (Louvain) thresholds
+  COMMUNITY_MIN_SIZE:         3,
+  COMMUNITY_MAX_SIZE:       200,  // larger groups are market structure, not a ring
+  COMMUNITY_MIN_FLOW_RATIO: 1.0,  // at least as much money inside as across the boundary
+  COMMUNITY_MIN_SUSPICIOUS_SHARE: 0.5, // half the members must already be suspicious
+  // Taint propagation
+  TAINT_MIN_SHARE:          0.25, // ≥25% of inflows traced to confirmed fraud
+};
+
+/**
+ * Ring risk formulas. Every ring's risk is suspicion × weight plus
+ * pattern-specific structure terms, clamped to 0–100; `network_bonus` is the
+ * network score every ring member is raised to.
+ */
+export const RING_FORMULAS = {
+  cycle: {          // avg × w + ln(members + 1) × size_weight + length bonus
+    network_bonus:     15,
+    suspicion_weight:  0.6,
+    size_weight:       10,
+    length_bonus:      { 3: 15, 4: 10, 5: 5 } as Record<number, number>,
+  },
+  fan: {            // hub score × w + ln(spokes + 1) × spoke_weight + base
+    network_bonus:     12,
+    hub_weight:        0.7,
+    spoke_weight:      10,
+    base:              15,
+  },
+  shell: {          // avg × w + ln(members + 1) × size_weight + base
+    network_bonus:     10,
+    suspicion_weight:  0.5,
+    size_weight:       7,
+    base:              8,
+  },
+  layering: {       // avg × w + ln(hops + 1) × hop_weight + conservation × conservation_weight
+    network_bonus:     12,
+    suspicion_weight:  0.6,
+    hop_weight:        8,
+    conservation_weight: 10,
+  },
+  scatter_gather: { // avg × w + ln(mules + 1) × mule_weight + base
+    network_bonus:     12,
+    suspicion_weight:  0.6,
+    mule_weight:       10,
+    base:              10,
+  },
+  round_trip: {     // avg × w + min(pair_cap, pairs × pair_points) + washness × washness_weight
+    network_bonus:     10,
+    suspicion_weight:  0.5,
+    pair_points:       5,
+    pair_cap:          25,
+    washness_weight:   15,
+  },
+  community: {      // avg × w + ln(members + 1) × size_weight + internal share × internal_weight
+    network_bonus:     10,
+    suspicion_weight:  0.5,
+    size_weight:       6,
+    internal_weight:   15,
+  },
+};
+
+export type Scores = typeof SCORES;
+
+/** Path of one signal weight in SCORES, e.g. 'BEHAVIORAL.BURST' (component caps excluded). */
+export type WeightKey = {
+  [C in keyof Scores]: `${C}.${Exclude<keyof Scores[C] & string, 'MAX'>}`
+}[keyof Scores];
+export type Thresholds = typeof THRESHOLDS;
+export type RingFormulas = typeof RING_FORMULAS;
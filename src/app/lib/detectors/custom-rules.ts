@@ -0,0 +1,90 @@
+/**
+ * Custom rule detector — one detector per rule written in the rule language
+ * (../rule-dsl). Each account's incoming and outgoing transactions are merged
+ * into one timeline and the rule is matched against it; a match adds the
+ * rule's points under its pattern, citing the transactions it counted.
+ */
+
+import { DetectorCoverage } from '../types';
+import { CustomRule, RuleEvent, NODE_METRICS, matchRule } from '../rule-dsl';
+import { Detector, GraphView, NodeSignal } from './types';
+
+const MAX_SCANNED = 5_000_000;   // transactions scanned per rule before results are partial
+const MAX_EVIDENCE_TX = 50;
+
+// Timelines are shared by every rule evaluated against the same view
+const timelines = new WeakMap<GraphView, Map<string, RuleEvent[]>>();
+
+function timelineOf(view: GraphView, id: string): RuleEvent[] {
+  let byNode = timelines.get(view);
+  if (!byNode) timelines.set(view, byNode = new Map());
+  let events = byNode.get(id);
+  if (!events) {
+    events = [
+      ...(view.incoming.get(id) || []).map(r => ({ dir: 'in' as const,  peer: r.peer, amount: r.amount, ts: r.ts, txId: r.txId, type: r.txType })),
+      ...(view.outgoing.get(id) || []).map(r => ({ dir: 'out' as const, peer: r.peer, amount: r.amount, ts: r.ts, txId: r.txId, type: r.txType })),
+    ].sort((a, b) => a.ts - b.ts);
+    byNode.set(id, events);
+  }
+  return events;
+}
+
+export function createRuleDetector(rule: CustomRule): Detector {
+  return {
+    id: `rule:${rule.id}`,
+    label: rule.label,
+    description: `Custom rule: ${rule.stages.map(s => s.text).join(' ')} (${rule.component} ${rule.points > 0 ? '+' : ''}${rule.points})`,
+
+    async run(view) {
+      const started = Date.now();
+      const signals: NodeSignal[] = [];
+      const cost = { scanned: 0, limit: MAX_SCANNED };
+      const coverage: DetectorCoverage = {
+        detector:            `rule:${rule.id}`,
+        components_total:    view.nodes.size,
+        components_searched: 0,
+        instances_found:     0,
+        budget_exhausted:    false,
+        iterations:          0,
+        elapsed_ms:          0,
+      };
+
+      let current = '';
+      const metric = (account: string | null, m: keyof typeof NODE_METRICS): number =>
+        (view.nodes.get(account ?? current)?.[NODE_METRICS[m]] as number | undefined) ?? 0;
+
+      for (const id of view.nodes.keys()) {
+        if (cost.scanned > cost.limit) {
+          coverage.budget_exhausted = true;
+          break;
+        }
+        if (++coverage.components_searched % 500 === 0) await new Promise(r => setTimeout(r, 0));
+
+        current = id;
+        const match = matchRule(rule, timelineOf(view, id), metric, cost);
+        if (!match) continue;
+        coverage.instances_found++;
+        signals.push({
+          node: id,
+          component: rule.component,
+          points: rule.points,
+          pattern: rule.pattern,
+          riskFactor: rule.risk ?? rule.label,
+          rule: rule.id,
+          evidence: [{
+            factor: rule.pattern,
+            tx_ids: match.tx_ids.slice(0, MAX_EVIDENCE_TX),
+            note: `${rule.label}: ${rule.stages.map(s => s.text).join(' ')}`,
+          }],
+        });
+      }
+
+      if (coverage.budget_exhausted) {
+        console.warn(`[CUSTOM RULE ${rule.id}] Budget exhausted after ${cost.scanned.toLocaleString()} transactions scanned — results are partial.`);
+      }
+      coverage.iterations = cost.scanned;
+      coverage.elapsed_ms = Date.now() - started;
+      return { signals, instances: [], coverage: [coverage] };
+    },
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Cycle detector — money that returns to where it started (A → B → C → A)
+ *
+ * Elementary cycles come from the SCC-restricted search in cycle-enumeration;
+ * only loops that can be resolved to time-ordered transactions count.
+ */
+
+import { PatternHop } from '../types';
+import { runCycleSearchAsync } from '../cycle-enumeration';
+import { Detector, PatternInstance, PeerRef } from './types';
+import { signalsFor } from './signals';
+import { legsFromHops } from './ring-structure';
+
+/**
+ * Resolves a node cycle to concrete transactions whose timestamps are
+ * non-decreasing along the loop (same-step hops are allowed for hour-granular
+ * PaySim data) and whose first → last hop closes within the window.
+ * Every rotation is tried, since money may have entered the loop at any member.
+ * Returns null when the loop cannot have been traversed in time order.
+ */
+function resolveTemporalCycle(
+  path: string[],
+  edgeIndex: Map<string, Map<string, PeerRef[]>>,
+  windowMs: number
+): PatternHop[] | null {
+  const len = path.length;
+
+  // First ref in a ts-sorted list with ts >= minTs (binary search)
+  const firstAtOrAfter = (refs: PeerRef[], minTs: number): PeerRef | null => {
+    let lo = 0, hi = refs.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (refs[mid].ts < minTs) lo = mid + 1; else hi = mid;
+    }
+    return lo < refs.length ? refs[lo] : null;
+  };
+
+  for (let rotation = 0; rotation < len; rotation++) {
+    const legs: { from: string; to: string; refs: PeerRef[] }[] = [];
+    for (let k = 0; k < len; k++) {
+      const from = path[(rotation + k) % len];
+      const to   = path[(rotation + k + 1) % len];
+      const refs = edgeIndex.get(from)?.get(to);
+      if (!refs || refs.length === 0) return null; // leg has no transaction at all
+      legs.push({ from, to, refs });
+    }
+
+    // For each candidate entry transaction, greedily take the earliest
+    // feasible transaction on every following leg — this yields the
+    // tightest possible closing time for that entry point.
+    for (const entry of legs[0].refs) {
+      const hops: PatternHop[] = [
+        { from: legs[0].from, to: legs[0].to, tx_id: entry.txId, amount: entry.amount, timestamp: entry.ts },
+      ];
+      let lastTs = entry.ts;
+      for (let k = 1; k < len; k++) {
+        const next = firstAtOrAfter(legs[k].refs, lastTs);
+        if (!next || next.ts - entry.ts > windowMs) break;
+        hops.push({ from: legs[k].from, to: legs[k].to, tx_id: next.txId, amount: next.amount, timestamp: next.ts });
+        lastTs = next.ts;
+      }
+      if (hops.length === len) return hops;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Cheap necessary conditions for `path` → `next` to lie on a loop that
+ * resolveTemporalCycle() can resolve, whichever member the money entered at:
+ *  - in time order, the loop's legs run non-decreasing except at the entry
+ *    leg, so at most one leg may lie entirely before the leg preceding it;
+ *  - every hop falls inside one window, so no leg may start more than the
+ *    window after another leg ends.
+ */
+function canStillCloseInTime(
+  path: string[],
+  next: string,
+  edgeIndex: Map<string, Map<string, PeerRef[]>>,
+  windowMs: number
+): boolean {
+  let descents = 0, latestFirst = -Infinity, earliestLast = Infinity;
+  let prev: PeerRef[] | null = null;
+  for (let i = 0; i < path.length; i++) {
+    const refs = edgeIndex.get(path[i])?.get(i + 1 < path.length ? path[i + 1] : next);
+    if (!refs || refs.length === 0) return false;
+    const first = refs[0].ts, last = refs[refs.length - 1].ts; // refs are ts-sorted
+    if (prev && prev[0].ts > last && ++descents > 1) return false;
+    if (first > latestFirst) latestFirst = first;
+    if (last < earliestLast) earliestLast = last;
+    if (latestFirst - earliestLast > windowMs) return false;
+    prev = refs;
+  }
+  return true;
+}
+
+export const cycleDetector: Detector = {
+  id: 'cycle',
+  label: 'Circular Transfers',
+  description: 'Loops of 3–5 accounts where money returns to its origin within the cycle window.',
+
+  async run(view, { scores, thresholds, formulas }) {
+    const flagged = new Set<string>();
+    const instances: PatternInstance[] = [];
+    const edgeIndex = view.edgeIndex();
+    const windowMs = thresholds.CYCLE_WINDOW_HOURS * 3600 * 1000;
+
+    // Complete enumeration of elementary cycles, limited to SCCs, pruned to
+    // paths that can still close in time order, and bounded by a budget
+    // shared across start nodes instead of a silent per-node cutoff.
+    const coverage = await runCycleSearchAsync({
+      nodes:         view.nodes.keys(),
+      neighbours:    id => edgeIndex.get(id)?.keys() ?? [],
+      minLength:     thresholds.CYCLE_MIN_LEN,
+      maxLength:     thresholds.CYCLE_MAX_LEN,
+      maxIterations: thresholds.CYCLE_SEARCH_MAX_ITERATIONS,
+      maxMillis:     thresholds.CYCLE_SEARCH_MAX_MS,
+      canExtend:     (path, next) => canStillCloseInTime(path, next, edgeIndex, windowMs),
+      onCycle: path => {
+        // Only loops that money could actually have travelled count
+        const hops = resolveTemporalCycle(path, edgeIndex, windowMs);
+        if (!hops) return false;
+
+        path.forEach(id => flagged.add(id));
+        const nodes = hops.map(h => h.from);
+        const length = path.length;
+
+        instances.push({
+          ringType: `cycle_length_${length}`,
+          signature: nodes,
+          toRing: ctx => {
+            const suspiciousInCycle = nodes.filter(id => ctx.isSuspicious(id));
+            if (suspiciousInCycle.length === 0) return null;
+            const f = formulas.cycle;
+            return {
+              nodes: suspiciousInCycle,
+              networkBonus: f.network_bonus,
+              risk: avg =>
+                (avg * f.suspicion_weight) + (Math.log(suspiciousInCycle.length + 1) * f.size_weight) +
+                (f.length_bonus[length] ?? 0),
+              structure: () => ({
+                shape: 'cycle',
+                members: nodes.map(id => ({ id, role: 'member' as const })),
+                legs: legsFromHops(hops),
+              }),
+              details: { hops },
+            };
+          },
+        });
+        return true;
+      },
+    }, 'cycle');
+
+    if (coverage.budget_exhausted) {
+      console.warn(
+        `[CYCLE DETECTION] Budget exhausted after ${coverage.iterations.toLocaleString()} iterations — ` +
+        `${coverage.components_searched}/${coverage.components_total} components searched completely. Results are partial.`
+      );
+    }
+
+    return {
+      signals:   signalsFor(flagged, { component: 'structural', points: scores.STRUCTURAL.CYCLE, pattern: 'cycle', weight: 'STRUCTURAL.CYCLE' }),
+      instances,
+      coverage:  [coverage],
+    };
+  },
+};
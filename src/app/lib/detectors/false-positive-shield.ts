@@ -0,0 +1,39 @@
+/**
+ * False-positive shield — ported from the retired in-memory GraphEngine
+ *
+ * Long-lived, busy accounts whose activity is spread evenly over time look
+ * like merchants and payroll, not mules. They get a structural deduction so
+ * that incidental fan or chain membership does not push them over the
+ * threshold on its own. The component never drops below zero.
+ */
+
+import { Detector, NodeSignal } from './types';
+import { burstRatio } from './smurfing';
+
+export const falsePositiveShield: Detector = {
+  id: 'legitimate_shield',
+  label: 'False-Positive Shield',
+  description: 'Reduces the structural score of long-lived, busy accounts with evenly paced activity.',
+
+  async run(view, { scores, thresholds }) {
+    const signals: NodeSignal[] = [];
+    const windowMs = thresholds.SMURFING_BURST_WINDOW_HOURS * 3600 * 1000;
+
+    let processed = 0;
+    for (const [id, node] of view.nodes) {
+      if (++processed % 1000 === 0) await new Promise(r => setTimeout(r, 0));
+      if (node.active_days <= thresholds.ACTIVE_DAYS_LEGIT || node.total_degree <= thresholds.LEGIT_MIN_DEGREE) continue;
+      if (burstRatio(view, id, windowMs) >= thresholds.LEGIT_MAX_BURST_RATIO) continue;
+
+      signals.push({
+        node: id,
+        component: 'structural',
+        points: scores.STRUCTURAL.LEGITIMATE_SHIELD,
+        weight: 'STRUCTURAL.LEGITIMATE_SHIELD',
+        riskFactor: 'legitimate_behavior_shield',
+      });
+    }
+
+    return { signals, instances: [] };
+  },
+};
@@ -0,0 +1,89 @@
+/**
+ * Fan-in / fan-out detector — one hub collecting from, or dispersing to,
+ * many unique counterparties.
+ */
+
+import { Detector, GraphView, PatternInstance, PeerRef, RingContext, RingDraft } from './types';
+import { RingFormulas } from './constants';
+import { signalsFor } from './signals';
+import { edgeLeg } from './ring-structure';
+
+/** Unique peers inside the trailing window, or all peers if the window holds under half of them. */
+function effectivePeers(refs: PeerRef[], windowStart: number): Set<string> {
+  const windowed = new Set(refs.filter(r => r.ts >= windowStart).map(r => r.peer));
+  const all = new Set(refs.map(r => r.peer));
+  return windowed.size >= all.size * 0.5 ? windowed : all;
+}
+
+/** Hub-and-spoke ring: formed when the hub is suspicious; spokes are listed only if suspicious themselves. */
+function hubSpokeInstance(
+  view: GraphView,
+  ringType: 'hub_spoke_fan_in' | 'hub_spoke_fan_out',
+  hub: string,
+  spokes: string[],
+  f: RingFormulas['fan']
+): PatternInstance {
+  const allRingNodes = [hub, ...spokes];
+  return {
+    ringType,
+    signature: allRingNodes,
+    toRing: (ctx: RingContext): RingDraft | null => {
+      if (!ctx.isSuspicious(hub) || spokes.length < 3) return null;
+      return {
+        nodes: allRingNodes.filter(id => ctx.isSuspicious(id)),
+        networkBonus: f.network_bonus,
+        // Mostly the hub's own score, plus a topology bonus for the spoke count
+        risk: () => (ctx.scoreOf(hub)!.total * f.hub_weight) + (Math.log(spokes.length + 1) * f.spoke_weight) + f.base,
+        structure: () => ({
+          shape: 'hub_spoke',
+          members: [{ id: hub, role: 'hub' }, ...spokes.map(id => ({ id, role: 'spoke' as const }))],
+          legs: spokes
+            .map(s => ringType === 'hub_spoke_fan_in' ? edgeLeg(view, s, hub) : edgeLeg(view, hub, s))
+            .filter(leg => leg !== null),
+        }),
+        details: { central_hub: hub },
+      };
+    },
+  };
+}
+
+export const fanDetector: Detector = {
+  id: 'fan',
+  label: 'Fan-In / Fan-Out',
+  description: 'Hubs with at least the fan threshold of unique senders or receivers.',
+
+  async run(view, { scores, thresholds, formulas }) {
+    const fanIn  = new Set<string>();
+    const fanOut = new Set<string>();
+    const fanInInstances:  PatternInstance[] = [];
+    const fanOutInstances: PatternInstance[] = [];
+    const windowStart = view.datasetEnd - thresholds.WINDOW_HOURS * 3600 * 1000;
+
+    let processed = 0;
+    for (const id of view.nodes.keys()) {
+      if (++processed % 500 === 0) await new Promise(r => setTimeout(r, 0));
+
+      const sources = effectivePeers(view.incoming.get(id) || [], windowStart);
+      if (sources.size >= thresholds.FAN_THRESHOLD) {
+        fanIn.add(id);
+        fanInInstances.push(hubSpokeInstance(view, 'hub_spoke_fan_in', id, Array.from(sources), formulas.fan));
+      }
+
+      const destinations = effectivePeers(view.outgoing.get(id) || [], windowStart);
+      if (destinations.size >= thresholds.FAN_THRESHOLD) {
+        fanOut.add(id);
+        fanOutInstances.push(hubSpokeInstance(view, 'hub_spoke_fan_out', id, Array.from(destinations), formulas.fan));
+      }
+    }
+
+    console.log(`[FAN DETECTION] Fan-in hubs: ${fanIn.size}, Fan-out hubs: ${fanOut.size} (threshold: ${thresholds.FAN_THRESHOLD} unique peers)`);
+
+    return {
+      signals: [
+        ...signalsFor(fanIn,  { component: 'structural', points: scores.STRUCTURAL.FAN_IN,  pattern: 'fan_in',  weight: 'STRUCTURAL.FAN_IN' }),
+        ...signalsFor(fanOut, { component: 'structural', points: scores.STRUCTURAL.FAN_OUT, pattern: 'fan_out', weight: 'STRUCTURAL.FAN_OUT' }),
+      ],
+      instances: [...fanInInstances, ...fanOutInstances],
+    };
+  },
+};
@@ -0,0 +1,58 @@
+/**
+ * Built-in detectors and the default registry.
+ *
+ * Registration order is ring numbering order (cycles first, communities
+ * last); the shield runs last so it is listed after the signals it offsets.
+ * To add a detector, implement `Detector` and register it here (or on a
+ * registry of your own passed to the engine); to switch one off for a run,
+ * list its id in `EngineConfig.disabledDetectors`.
+ */
+
+import { DetectorRegistry } from './registry';
+import { cycleDetector } from './cycles';
+import { fanDetector } from './fans';
+import { shellChainDetector } from './shell-chains';
+import { layeringDetector } from './layering';
+import { scatterGatherDetector } from './scatter-gather';
+import { roundTripDetector } from './round-trips';
+import { communityDetector } from './community';
+import { smurfingDetector } from './smurfing';
+import { paySimDetector } from './paysim-signals';
+import { behavioralAnomalyDetector } from './behavioral-anomalies';
+import { rapidPassThroughDetector } from './rapid-pass-through';
+import { lifecycleDetector } from './lifecycle';
+import { thresholdStructuringDetector } from './threshold-structuring';
+import { centralityDetector } from './centrality';
+import { taintDetector } from './taint';
+import { falsePositiveShield } from './false-positive-shield';
+
+export * from './types';
+export { SCORES, THRESHOLDS, RING_FORMULAS } from './constants';
+export type { Scores, Thresholds, RingFormulas, WeightKey } from './constants';
+export { DetectorRegistry } from './registry';
+export { createRuleDetector } from './custom-rules';
+export { runDetectors, scoreNodes, formRings } from './pipeline';
+export type { ScoredNode } from './pipeline';
+
+export function createDefaultRegistry(): DetectorRegistry {
+  return new DetectorRegistry()
+    .register(cycleDetector)
+    .register(fanDetector)
+    .register(shellChainDetector)
+    .register(layeringDetector)
+    .register(scatterGatherDetector)
+    .register(roundTripDetector)
+    .register(communityDetector)
+    .register(smurfingDetector)
+    .register(paySimDetector)
+    .register(behavioralAnomalyDetector)
+    .register(rapidPassThroughDetector)
+    .register(lifecycleDetector)
+    .register(thresholdStructuringDetector)
+    .register(centralityDetector)
+    .register(taintDetector)
+    .register(falsePositiveShield);
+}
+
+/** Registry used by uploadAndAnalyze unless another is supplied. */
+export const detectorRegistry = createDefaultRegistry();
@@ -0,0 +1,96 @@
+/**
+ * Layering detector — funds followed hop by hop (amount conserved within the
+ * skim tolerance, forwarded within the dwell threshold) from a source to a sink.
+ */
+
+import { LayeringStats, PatternHop } from '../types';
+import { detectLayeringPaths } from '../layering-detection';
+import { Detector, PatternInstance, PeerRef } from './types';
+import { signalsFor } from './signals';
+import { legsFromHops } from './ring-structure';
+
+export const layeringDetector: Detector = {
+  id: 'layering',
+  label: 'Layering Paths',
+  description: 'Multi-hop chains that forward roughly the amount received within a day at every hop.',
+
+  async run(view, { scores, thresholds, formulas }) {
+    const flagged = new Set<string>();
+    const instances: PatternInstance[] = [];
+
+    const outgoing = new Map<string, PeerRef[]>();
+    for (const [from, refs] of view.outgoing) {
+      outgoing.set(from, [...refs].sort((a, b) => a.ts - b.ts));
+    }
+
+    const { paths, coverage } = await detectLayeringPaths({
+      outgoing,
+      minHops:           thresholds.LAYERING_MIN_HOPS,
+      maxHops:           thresholds.LAYERING_MAX_HOPS,
+      maxDwellMs:        thresholds.LAYERING_MAX_DWELL_HOURS * 3600 * 1000,
+      hopSkimTolerance:  thresholds.LAYERING_HOP_SKIM,
+      maxCumulativeSkim: thresholds.LAYERING_MAX_SKIM,
+      maxBranching:      thresholds.LAYERING_MAX_BRANCHING,
+      maxIterations:     thresholds.LAYERING_SEARCH_MAX_ITERATIONS,
+      maxMillis:         thresholds.LAYERING_SEARCH_MAX_MS,
+    });
+
+    if (coverage.budget_exhausted) {
+      console.warn(
+        `[LAYERING DETECTION] Budget exhausted after ${coverage.iterations.toLocaleString()} iterations — ` +
+        `${coverage.components_searched}/${coverage.components_total} entry transactions searched. Results are partial.`
+      );
+    }
+
+    for (const path of paths) {
+      const hops: PatternHop[] = path.hops;
+      hops.forEach(h => { flagged.add(h.from); flagged.add(h.to); });
+
+      const stats: LayeringStats = {
+        source:          hops[0].from,
+        sink:            hops[hops.length - 1].to,
+        hop_count:       hops.length,
+        amount_in:       hops[0].amount,
+        amount_out:      hops[hops.length - 1].amount,
+        cumulative_skim: parseFloat(path.cumulativeSkim.toFixed(2)),
+        skim_pct:        parseFloat((path.skimRatio * 100).toFixed(2)),
+        max_dwell_hours: parseFloat((path.maxDwellMs / 3_600_000).toFixed(2)),
+      };
+      const chainNodes = [hops[0].from, ...hops.map(h => h.to)];
+
+      instances.push({
+        ringType: 'layering_path',
+        signature: hops.map(h => h.tx_id),
+        toRing: ctx => {
+          const suspiciousInChain = chainNodes.filter(id => ctx.isSuspicious(id));
+          if (suspiciousInChain.length === 0) return null;
+          // Longer chains and tighter amount conservation are stronger evidence
+          const conservation = 1 - stats.skim_pct / 100 / thresholds.LAYERING_MAX_SKIM;
+          const f = formulas.layering;
+          return {
+            nodes: suspiciousInChain,
+            networkBonus: f.network_bonus,
+            risk: avg =>
+              (avg * f.suspicion_weight) + (Math.log(stats.hop_count + 1) * f.hop_weight) +
+              (conservation * f.conservation_weight),
+            structure: () => ({
+              shape: 'path',
+              members: chainNodes.map((id, i) => ({
+                id,
+                role: i === 0 ? 'source' as const : i === chainNodes.length - 1 ? 'sink' as const : 'intermediary' as const,
+              })),
+              legs: legsFromHops(hops),
+            }),
+            details: { hops, layering: stats },
+          };
+        },
+      });
+    }
+
+    return {
+      signals:   signalsFor(flagged, { component: 'structural', points: scores.STRUCTURAL.LAYERING, pattern: 'layering', weight: 'STRUCTURAL.LAYERING' }),
+      instances,
+      coverage:  [coverage],
+    };
+  },
+};
@@ -0,0 +1,53 @@
+/**
+ * Lifecycle detector — splits each account's activity at dormant gaps
+ * (annotating `lifecycle` on the node) and flags dormant reactivation and
+ * burner-mule lifecycles.
+ */
+
+import { buildLifecycle, LifecycleEvent } from '../lifecycle';
+import { Detector, NodeSignal } from './types';
+
+export const lifecycleDetector: Detector = {
+  id: 'lifecycle',
+  label: 'Account Lifecycle',
+  description: 'Dormant accounts that reactivate to move funds, and new accounts that cash out and go silent.',
+
+  async run(view, { scores, thresholds, dormancyDays }) {
+    const signals: NodeSignal[] = [];
+    const options = {
+      dormancyMs:               dormancyDays * 86_400_000,
+      datasetStart:             view.datasetStart,
+      datasetEnd:               view.datasetEnd,
+      reactivationWindowMs:     thresholds.REACTIVATION_WINDOW_HOURS * 3_600_000,
+      reactivationForwardRatio: thresholds.REACTIVATION_FORWARD_RATIO,
+      newAccountGraceMs:        thresholds.NEW_ACCOUNT_GRACE_HOURS * 3_600_000,
+      muleMaxLifespanMs:        thresholds.MULE_MAX_LIFESPAN_DAYS * 86_400_000,
+      muleCashOutRatio:         thresholds.MULE_CASHOUT_RATIO,
+      muleSilenceMs:            thresholds.MULE_SILENCE_DAYS * 86_400_000,
+    };
+
+    let processed = 0;
+    for (const [id, node] of view.nodes) {
+      if (++processed % 1000 === 0) await new Promise(r => setTimeout(r, 0));
+      const events: LifecycleEvent[] = [];
+      for (const ref of view.incoming.get(id) || []) events.push({ ts: ref.ts, amount: ref.amount, inbound: true });
+      for (const ref of view.outgoing.get(id) || []) events.push({ ts: ref.ts, amount: ref.amount, inbound: false });
+      node.lifecycle = buildLifecycle(events, options) ?? undefined;
+
+      if (node.lifecycle?.reactivated_at !== undefined) {
+        signals.push({
+          node: id, component: 'behavioral', points: scores.BEHAVIORAL.DORMANT_REACTIVATION,
+          riskFactor: 'dormant_reactivation', pattern: 'dormant_reactivation', weight: 'BEHAVIORAL.DORMANT_REACTIVATION',
+        });
+      }
+      if (node.lifecycle?.mule_lifecycle) {
+        signals.push({
+          node: id, component: 'behavioral', points: scores.BEHAVIORAL.MULE_LIFECYCLE,
+          riskFactor: 'mule_lifecycle', pattern: 'mule_lifecycle', weight: 'BEHAVIORAL.MULE_LIFECYCLE',
+        });
+      }
+    }
+
+    return { signals, instances: [] };
+  },
+};
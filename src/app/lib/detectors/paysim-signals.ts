@@ -0,0 +1,70 @@
+/**
+ * PaySim-calibrated behavioural signals — balance anomalies, account
+ * draining, zero-balance destinations and TRANSFER / CASH_OUT-heavy accounts.
+ * Only runs when the dataset carries balance or transaction-type columns.
+ */
+
+import { Detector, NodeSignal } from './types';
+
+export const paySimDetector: Detector = {
+  id: 'paysim',
+  label: 'PaySim Balance Signals',
+  description: 'Balance discrepancies, drained originators, empty destinations and high-risk transaction types.',
+
+  async run(view, { scores, thresholds }) {
+    const signals: NodeSignal[] = [];
+    const c = view.counters;
+    if (!c.hasPaySimData) return { signals, instances: [] };
+
+    let processed = 0;
+    for (const id of view.nodes.keys()) {
+      if (++processed % 1000 === 0) await new Promise(r => setTimeout(r, 0));
+      const nodeTxCount = c.totalTxCountPerNode.get(id) || 1;
+
+      // Balance anomaly: ANY anomaly flags the account, full points for a high ratio
+      const anomalyCount = c.balanceAnomalyCount.get(id) || 0;
+      if (anomalyCount > 0) {
+        const ratio = anomalyCount / nodeTxCount;
+        signals.push({
+          node: id, component: 'behavioral',
+          points: ratio >= thresholds.BALANCE_ANOMALY_RATIO
+            ? scores.BEHAVIORAL.BALANCE_ANOMALY
+            : Math.floor(scores.BEHAVIORAL.BALANCE_ANOMALY * 0.5),
+          riskFactor: 'balance_anomaly', pattern: 'balance_discrepancy', weight: 'BEHAVIORAL.BALANCE_ANOMALY',
+        });
+      }
+
+      // Account draining: always a strong signal
+      if ((c.accountDrainCount.get(id) || 0) > 0) {
+        signals.push({
+          node: id, component: 'behavioral', points: scores.BEHAVIORAL.ACCOUNT_DRAINING,
+          riskFactor: 'account_draining', pattern: 'account_drain', weight: 'BEHAVIORAL.ACCOUNT_DRAINING',
+        });
+      }
+
+      // Zero-balance destination: ANY such transaction is suspicious
+      const zeroDest = c.zeroDestBalCount.get(id) || 0;
+      if (zeroDest > 0) {
+        const ratio = zeroDest / nodeTxCount;
+        signals.push({
+          node: id, component: 'behavioral',
+          points: ratio >= thresholds.ZERO_DEST_RATIO
+            ? scores.BEHAVIORAL.ZERO_DEST_BALANCE
+            : Math.floor(scores.BEHAVIORAL.ZERO_DEST_BALANCE * 0.5),
+          riskFactor: 'zero_balance_destination', pattern: 'zero_dest_balance', weight: 'BEHAVIORAL.ZERO_DEST_BALANCE',
+        });
+      }
+
+      // High-risk transaction type: account primarily uses TRANSFER/CASH_OUT
+      const highRiskCount = c.highRiskTxCount.get(id) || 0;
+      if (highRiskCount > 0 && (highRiskCount / nodeTxCount) >= thresholds.HIGH_RISK_TX_RATIO) {
+        signals.push({
+          node: id, component: 'behavioral', points: scores.BEHAVIORAL.HIGH_RISK_TX_TYPE,
+          riskFactor: 'high_risk_tx_type', weight: 'BEHAVIORAL.HIGH_RISK_TX_TYPE',
+        });
+      }
+    }
+
+    return { signals, instances: [] };
+  },
+};
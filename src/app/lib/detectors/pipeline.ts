@@ -0,0 +1,261 @@
+/**
+ * Analysis pipeline — runs detectors, sums their signals into per-node
+ * suspicion scores and turns their pattern instances into fraud rings.
+ *
+ *  1. Every enabled detector runs once against the same graph view.
+ *  2. Signals are summed per node and component; each component is clamped
+ *     to 0…MAX and the total to 100. Every signal is kept as a contribution
+ *     recording how many of its points survived the cap.
+ *  3. Pattern instances become rings (one pattern per ring), deduplicated by
+ *     type + structure, in detector order. Ring members are raised to the
+ *     ring's network bonus before the ring risk is computed, and the ring id
+ *     is cited on the contributions of the detector that found the pattern.
+ *     Each ring keeps its full structure: every account (suspicious or not)
+ *     and the transactions on every leg.
+ */
+
+import { DetectorCoverage, Ring, RingStructure, RiskEvidence, ScoreContribution, SuspicionScore } from '../types';
+import { Scores } from './constants';
+import { Detector, DetectorConfig, GraphView, NodeSignal, PatternInstance, RingContext, RingSkeleton } from './types';
+
+export interface PipelineOutput {
+  signals: NodeSignal[];
+  instances: PatternInstance[];
+  coverage: DetectorCoverage[];
+}
+
+export type ScoredNode = { id: string; score: SuspicionScore };
+
+/** Runs detectors in order; aborting `signal` stops the run before the next detector. */
+export async function runDetectors(
+  detectors: Detector[],
+  view: GraphView,
+  config: DetectorConfig,
+  signal?: AbortSignal
+): Promise<PipelineOutput> {
+  const output: PipelineOutput = { signals: [], instances: [], coverage: [] };
+  for (const detector of detectors) {
+    signal?.throwIfAborted();
+    const result = await detector.run(view, config);
+    for (const s of result.signals) { s.detector = detector.id; output.signals.push(s); }
+    for (const i of result.instances) { i.detector = detector.id; output.instances.push(i); }
+    if (result.coverage) output.coverage.push(...result.coverage);
+    await new Promise(r => setTimeout(r, 0));
+  }
+  return output;
+}
+
+/**
+ * Splits one component's signals into contributions. Positive points count in
+ * signal order until the cap is reached (net of the negative points);
+ * negative points count until the component would drop below zero.
+ */
+function allocate(signals: NodeSignal[], max: number): { value: number; contributions: ScoreContribution[] } {
+  const positive = signals.reduce((sum, s) => sum + Math.max(0, s.points), 0);
+  const negative = signals.reduce((sum, s) => sum + Math.min(0, s.points), 0);
+  const raw = positive + negative;
+  let posLeft = raw > max ? max - negative : positive;
+  let negLeft = raw < 0 ? -positive : negative;
+
+  const contributions = signals.map(s => {
+    let applied: number;
+    if (s.points >= 0) { applied = Math.min(s.points, posLeft); posLeft -= applied; }
+    else               { applied = Math.max(s.points, negLeft); negLeft -= applied; }
+    const txIds = s.evidence ? [...new Set(s.evidence.flatMap(e => e.tx_ids))] : [];
+    return {
+      detector:  s.detector ?? 'unknown',
+      rule:      s.rule ?? s.riskFactor ?? s.pattern ?? s.detector ?? 'unknown',
+      component: s.component,
+      points:    s.points,
+      applied,
+      capped:    applied !== s.points,
+      ...(s.weight ? { weight: s.weight } : {}),
+      ...(txIds.length ? { tx_ids: txIds } : {}),
+    };
+  });
+  return { value: Math.min(Math.max(0, raw), max), contributions };
+}
+
+/** Sums signals into one SuspicionScore per node (nodes with no score and no pattern are omitted). */
+export async function scoreNodes(
+  nodeIds: Iterable<string>,
+  signals: NodeSignal[],
+  scores: Scores
+): Promise<ScoredNode[]> {
+  const byNode = new Map<string, NodeSignal[]>();
+  for (const s of signals) {
+    const list = byNode.get(s.node);
+    if (list) list.push(s); else byNode.set(s.node, [s]);
+  }
+
+  const results: ScoredNode[] = [];
+  let processed = 0;
+  for (const id of nodeIds) {
+    if (++processed % 1000 === 0) await new Promise(r => setTimeout(r, 0));
+    const own = byNode.get(id);
+    if (!own) continue;
+
+    const patterns:    string[] = [];
+    const riskFactors: string[] = [];
+    const evidence:    RiskEvidence[] = [];
+    for (const s of own) {
+      if (s.pattern) patterns.push(s.pattern);
+      if (s.riskFactor) riskFactors.push(s.riskFactor);
+      if (s.evidence) evidence.push(...s.evidence);
+    }
+
+    const structural = allocate(own.filter(s => s.component === 'structural'), scores.STRUCTURAL.MAX);
+    const behavioral = allocate(own.filter(s => s.component === 'behavioral'), scores.BEHAVIORAL.MAX);
+    const network    = allocate(own.filter(s => s.component === 'network'),    scores.NETWORK.MAX);
+    const total = Math.min(100, structural.value + behavioral.value + network.value);
+    const contributions = [...structural.contributions, ...behavioral.contributions, ...network.contributions];
+
+    if (total > 0 || patterns.length > 0) {
+      results.push({
+        id,
+        score: {
+          structural: structural.value,
+          behavioral: behavioral.value,
+          network:    network.value,
+          total,
+          details: { patterns, risk_factors: riskFactors, ...(evidence.length ? { evidence } : {}), contributions },
+        },
+      });
+    }
+  }
+
+  return results;
+}
+
+/** Canonical signature for ring deduplication */
+function createRingSignature(ringType: string, ids: string[]): string {
+  return `${ringType}::${[...ids].sort().join(',')}`;
+}
+
+/**
+ * Cites a ring on a member's score: on the contributions of the detector that
+ * found the pattern, and on the member's ring-membership contribution (the
+ * network floor; `applied` is how far membership raised the network score).
+ */
+function attributeRing(
+  score: SuspicionScore,
+  detector: string | undefined,
+  ringId: string,
+  bonus: number,
+  raised: number,
+  scores: Scores
+): void {
+  const contributions = score.details.contributions ??= [];
+  for (const c of contributions) {
+    if (c.detector === detector) (c.instance_ids ??= []).push(ringId);
+  }
+
+  let membership = contributions.find(c => c.detector === 'rings');
+  if (!membership) {
+    membership = { detector: 'rings', rule: 'ring_membership', component: 'network', points: 0, applied: 0, capped: false, instance_ids: [] };
+    contributions.push(membership);
+  }
+  membership.points = Math.max(membership.points, bonus);
+  membership.applied += raised;
+  membership.capped = membership.points > scores.NETWORK.MAX;
+  membership.instance_ids!.push(ringId);
+}
+
+/** Flags the skeleton's suspicious members and totals its legs. */
+function buildStructure(skeleton: RingSkeleton, ctx: RingContext): RingStructure {
+  let total = 0, txCount = 0, first = Infinity, last = -Infinity;
+  for (const leg of skeleton.legs) {
+    total += leg.amount;
+    txCount += leg.tx_count;
+    if (leg.first_ts < first) first = leg.first_ts;
+    if (leg.last_ts > last) last = leg.last_ts;
+  }
+  if (skeleton.legs.length === 0) first = last = 0;
+  return {
+    shape:       skeleton.shape,
+    members:     skeleton.members.map(m => ({ ...m, suspicious: ctx.isSuspicious(m.id) })),
+    legs:        skeleton.legs,
+    total_value: parseFloat(total.toFixed(2)),
+    tx_count:    txCount,
+    first_ts:    first,
+    last_ts:     last,
+    span_hours:  parseFloat(((last - first) / 3_600_000).toFixed(2)),
+  };
+}
+
+/**
+ * Forms one ring per unique pattern instance. Mutates the network / total
+ * score of ring members (network bonus), so rings must be formed before the
+ * scores are reported.
+ */
+export async function formRings(
+  instances: PatternInstance[],
+  suspiciousNodes: ScoredNode[],
+  scores: Scores
+): Promise<Ring[]> {
+  const ringMap = new Map<string, Ring>(); // signature -> Ring
+  let ringCount = 0;
+
+  const suspiciousNodeMap = new Map(suspiciousNodes.map(n => [n.id, n]));
+  const ctx: RingContext = {
+    isSuspicious: id => suspiciousNodeMap.has(id),
+    scoreOf:      id => suspiciousNodeMap.get(id)?.score,
+  };
+
+  for (const instance of instances) {
+    const draft = instance.toRing(ctx);
+    if (draft) {
+      const signature = createRingSignature(instance.ringType, instance.signature);
+
+      // Skip if this exact ring structure already exists
+      if (ringMap.has(signature)) {
+        continue;
+      }
+
+      ringCount++;
+      const ringId = `RING_${ringCount.toString().padStart(3, '0')}`;
+
+      const members = draft.nodes.map(id => suspiciousNodeMap.get(id)!);
+
+      // Update network scores
+      const networkBonus = Math.min(scores.NETWORK.MAX, draft.networkBonus);
+      members.forEach(m => {
+        const before = m.score.network;
+        m.score.network = Math.max(m.score.network, networkBonus);
+        m.score.total = Math.min(100, m.score.structural + m.score.behavioral + m.score.network);
+        attributeRing(m.score, instance.detector, ringId, draft.networkBonus, m.score.network - before, scores);
+      });
+
+      // Ring risk from THIS ring's member set and the pattern-specific formula
+      const avgScore = members.reduce((sum, m) => sum + m.score.total, 0) / members.length;
+      const risk = Math.min(100, Math.max(0, draft.risk(avgScore)));
+
+      ringMap.set(signature, {
+        id: ringId,
+        nodes: draft.nodes,
+        risk_score: parseFloat(risk.toFixed(2)),
+        patterns: [instance.ringType],
+        average_suspicion: parseFloat(avgScore.toFixed(2)),
+        ...draft.details,
+        structure: buildStructure(draft.structure(), ctx),
+      });
+    }
+
+    if (ringCount % 50 === 0) await new Promise(r => setTimeout(r, 0));
+  }
+
+  // Extract deduplicated rings from map
+  const deduplicatedRings = Array.from(ringMap.values());
+
+  // VALIDATION: Ensure each ring has only one pattern type
+  for (const ring of deduplicatedRings) {
+    if (ring.patterns.length > 1) {
+      throw new Error(
+        `FRAUD RING VALIDATION FAILED: Ring ${ring.id} contains ${ring.patterns.length} pattern types: ${ring.patterns.join(', ')}. ` +
+        `Each ring MUST contain exactly ONE pattern type. This indicates rings were incorrectly merged.`
+      );
+    }
+  }
+
+  return deduplicatedRings.sort((a, b) => b.risk_score - a.risk_score);
+}
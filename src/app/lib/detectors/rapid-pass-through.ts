@@ -0,0 +1,38 @@
+/**
+ * Rapid pass-through detector — FIFO-matches each account's outflows to its
+ * earlier inflows (annotating `dwell` on the node) and flags accounts that
+ * forward most of what they receive within hours.
+ */
+
+import { computeDwellStats } from '../dwell-time';
+import { Detector, NodeSignal } from './types';
+
+export const rapidPassThroughDetector: Detector = {
+  id: 'rapid_pass_through',
+  label: 'Rapid Pass-Through',
+  description: 'Accounts forwarding most of their inflow within 24 hours (FIFO dwell time).',
+
+  async run(view, { scores, thresholds }) {
+    const signals: NodeSignal[] = [];
+
+    let processed = 0;
+    for (const [id, node] of view.nodes) {
+      if (++processed % 1000 === 0) await new Promise(r => setTimeout(r, 0));
+      const ins  = view.incoming.get(id);
+      const outs = view.outgoing.get(id);
+      if (!ins || !outs) continue;
+
+      node.dwell = computeDwellStats(ins, outs) ?? undefined;
+      if (node.dwell && ins.length >= thresholds.RAPID_PASS_MIN_INFLOWS &&
+          node.dwell.forwarded_24h_pct >= thresholds.RAPID_PASS_FORWARDED_24H_PCT &&
+          node.dwell.median_hold_hours <= thresholds.RAPID_PASS_MAX_MEDIAN_HOURS) {
+        signals.push({
+          node: id, component: 'behavioral', points: scores.BEHAVIORAL.RAPID_PASS_THROUGH,
+          riskFactor: 'rapid_pass_through', pattern: 'rapid_pass_through', weight: 'BEHAVIORAL.RAPID_PASS_THROUGH',
+        });
+      }
+    }
+
+    return { signals, instances: [] };
+  },
+};
@@ -0,0 +1,44 @@
+/**
+ * Detector Registry
+ *
+ * Holds detectors in run order. Order matters only for presentation: rings
+ * are numbered in the order their detectors are registered, and a node's
+ * patterns / risk factors are listed in the same order.
+ */
+
+import { Detector } from './types';
+
+export class DetectorRegistry {
+  private detectors: Detector[] = [];
+
+  /** Adds a detector at the end, or before the detector with id `before`. */
+  public register(detector: Detector, before?: string): this {
+    if (this.detectors.some(d => d.id === detector.id)) {
+      throw new Error(`Detector "${detector.id}" is already registered.`);
+    }
+    const at = before ? this.detectors.findIndex(d => d.id === before) : -1;
+    if (at >= 0) this.detectors.splice(at, 0, detector);
+    else this.detectors.push(detector);
+    return this;
+  }
+
+  public unregister(id: string): boolean {
+    const before = this.detectors.length;
+    this.detectors = this.detectors.filter(d => d.id !== id);
+    return this.detectors.length < before;
+  }
+
+  public get(id: string): Detector | undefined {
+    return this.detectors.find(d => d.id === id);
+  }
+
+  public list(): Detector[] {
+    return [...this.detectors];
+  }
+
+  /** Registered detectors minus the disabled ids, in run order. */
+  public enabled(disabled: Iterable<string> = []): Detector[] {
+    const off = new Set(disabled);
+    return this.detectors.filter(d => !off.has(d.id));
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Ring structure helpers — build the legs (per-edge transaction groups) that
+ * detectors attach to a ring's structure, from pattern hops, peer refs or
+ * the graph's edge index.
+ */
+
+import { PatternHop, RingLeg } from '../types';
+import { GraphView, PeerRef } from './types';
+
+const MAX_LEG_TX = 50;
+
+/** One leg per hop, in hop order (each hop is a single transaction). */
+export function legsFromHops(hops: PatternHop[]): RingLeg[] {
+  return hops.map(h => ({
+    from: h.from,
+    to: h.to,
+    tx_ids: [h.tx_id],
+    tx_count: 1,
+    amount: h.amount,
+    first_ts: h.timestamp,
+    last_ts: h.timestamp,
+  }));
+}
+
+/** One leg for a set of transactions between the same two accounts. */
+export function legFromRefs(from: string, to: string, refs: PeerRef[]): RingLeg {
+  let amount = 0, first = Infinity, last = -Infinity;
+  for (const r of refs) {
+    amount += r.amount;
+    if (r.ts < first) first = r.ts;
+    if (r.ts > last) last = r.ts;
+  }
+  return {
+    from,
+    to,
+    tx_ids: refs.slice(0, MAX_LEG_TX).map(r => r.txId),
+    tx_count: refs.length,
+    amount: parseFloat(amount.toFixed(2)),
+    first_ts: first,
+    last_ts: last,
+  };
+}
+
+/** Every transaction sent from `from` to `to`, as one leg; null when there are none. */
+export function edgeLeg(view: GraphView, from: string, to: string): RingLeg | null {
+  const refs = view.edgeIndex().get(from)?.get(to);
+  return refs && refs.length > 0 ? legFromRefs(from, to, refs) : null;
+}
+
+/**
+ * Legs between consecutive accounts of a path; null when any consecutive pair
+ * has no transactions, so a broken path is never reported as a complete one.
+ */
+export function pathLegs(view: GraphView, path: string[]): RingLeg[] | null {
+  const legs: RingLeg[] = [];
+  for (let i = 1; i < path.length; i++) {
+    const leg = edgeLeg(view, path[i - 1], path[i]);
+    if (!leg) return null;
+    legs.push(leg);
+  }
+  return legs;
+}
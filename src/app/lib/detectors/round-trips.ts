@@ -0,0 +1,108 @@
+/**
+ * Round-trip detector — two-party round trips (A → B → A): each transfer is
+ * matched to a later transfer in the opposite direction within the window
+ * and amount tolerance (closest amount wins, each transaction used once).
+ */
+
+import { PatternHop, RoundTripStats } from '../types';
+import { Detector, PatternInstance, PeerRef } from './types';
+import { signalsFor } from './signals';
+import { legsFromHops } from './ring-structure';
+
+export const roundTripDetector: Detector = {
+  id: 'round_trip',
+  label: 'Round Trips',
+  description: 'Repeated back-and-forth transfers of matching amounts between two accounts.',
+
+  async run(view, { scores, thresholds, formulas }) {
+    const flagged = new Set<string>();
+    const instances: PatternInstance[] = [];
+    const windowMs = thresholds.ROUND_TRIP_WINDOW_HOURS * 3600 * 1000;
+    const tol = thresholds.ROUND_TRIP_AMOUNT_TOLERANCE;
+    const edgeIndex = view.edgeIndex();
+
+    let processed = 0;
+    for (const [a, targets] of edgeIndex) {
+      if (++processed % 500 === 0) await new Promise(r => setTimeout(r, 0));
+
+      for (const [b, forward] of targets) {
+        if (a >= b) continue; // each unordered pair once (and no self-loops)
+        const backward = edgeIndex.get(b)?.get(a);
+        if (!backward) continue;
+
+        const legs: { from: string; to: string; ref: PeerRef }[] = [
+          ...forward.map(ref => ({ from: a, to: b, ref })),
+          ...backward.map(ref => ({ from: b, to: a, ref })),
+        ].sort((x, y) => x.ref.ts - y.ref.ts);
+
+        const open: typeof legs = [];
+        const pairs: { out: typeof legs[number]; back: typeof legs[number] }[] = [];
+        for (const leg of legs) {
+          let best = -1;
+          for (let i = 0; i < open.length; i++) {
+            const o = open[i];
+            if (o.from === leg.from || leg.ref.ts - o.ref.ts > windowMs) continue;
+            if (Math.abs(leg.ref.amount - o.ref.amount) > o.ref.amount * tol) continue;
+            if (best < 0 || Math.abs(leg.ref.amount - o.ref.amount) < Math.abs(leg.ref.amount - open[best].ref.amount)) best = i;
+          }
+          if (best >= 0) pairs.push({ out: open.splice(best, 1)[0], back: leg });
+          else open.push(leg);
+        }
+
+        if (pairs.length < thresholds.ROUND_TRIP_MIN_PAIRS) continue;
+
+        const hops: PatternHop[] = pairs
+          .flatMap(p => [p.out, p.back])
+          .sort((x, y) => x.ref.ts - y.ref.ts)
+          .map(l => ({ from: l.from, to: l.to, tx_id: l.ref.txId, amount: l.ref.amount, timestamp: l.ref.ts }));
+        const gross = hops.reduce((s, h) => s + h.amount, 0);
+        const net = hops.reduce((s, h) => s + (h.from === a ? h.amount : -h.amount), 0);
+
+        flagged.add(a);
+        flagged.add(b);
+        const stats: RoundTripStats = {
+          accounts: [a, b],
+          pairs: pairs.map(p => ({
+            out_tx:      p.out.ref.txId,
+            back_tx:     p.back.ref.txId,
+            out_amount:  p.out.ref.amount,
+            back_amount: p.back.ref.amount,
+            lag_hours:   parseFloat(((p.back.ref.ts - p.out.ref.ts) / 3_600_000).toFixed(2)),
+          })),
+          gross_volume: parseFloat(gross.toFixed(2)),
+          net_flow:     parseFloat(net.toFixed(2)),
+        };
+
+        instances.push({
+          ringType: 'round_trip',
+          signature: stats.accounts,
+          toRing: ctx => {
+            const suspiciousInPair = stats.accounts.filter(id => ctx.isSuspicious(id));
+            if (suspiciousInPair.length === 0) return null;
+            // Repetition and how completely the money comes back (net ≈ 0)
+            const washness = stats.gross_volume > 0 ? 1 - Math.abs(stats.net_flow) / stats.gross_volume : 0;
+            const f = formulas.round_trip;
+            return {
+              nodes: suspiciousInPair,
+              networkBonus: f.network_bonus,
+              risk: avg =>
+                (avg * f.suspicion_weight) + Math.min(f.pair_cap, stats.pairs.length * f.pair_points) +
+                (washness * f.washness_weight),
+              structure: () => ({
+                shape: 'cycle',
+                members: stats.accounts.map(id => ({ id, role: 'member' as const })),
+                legs: legsFromHops(hops),
+              }),
+              details: { hops, round_trip: stats },
+            };
+          },
+        });
+      }
+    }
+
+    return {
+      signals: signalsFor(flagged, { component: 'structural', points: scores.STRUCTURAL.ROUND_TRIP, pattern: 'round_trip', weight: 'STRUCTURAL.ROUND_TRIP' }),
+      instances,
+    };
+  },
+};
@@ -0,0 +1,120 @@
+/**
+ * Scatter-gather detector — one source splits funds across several
+ * intermediaries, which then forward to one shared sink, all within the
+ * window. Each intermediary contributes its earliest source → mule leg and
+ * the first mule → sink leg that follows it.
+ */
+
+import { ScatterGatherStats } from '../types';
+import { Detector, PatternInstance, PeerRef } from './types';
+import { signalsFor } from './signals';
+import { legFromRefs } from './ring-structure';
+
+export const scatterGatherDetector: Detector = {
+  id: 'scatter_gather',
+  label: 'Scatter-Gather',
+  description: 'A source splitting funds across shared mules that converge on one sink.',
+
+  async run(view, { scores, thresholds, formulas }) {
+    const sources = new Set<string>();
+    const sinks = new Set<string>();
+    const intermediaries = new Set<string>();
+    const instances: PatternInstance[] = [];
+    const windowMs = thresholds.SCATTER_GATHER_WINDOW_HOURS * 3600 * 1000;
+    const minMules = thresholds.SCATTER_GATHER_MIN_INTERMEDIARIES;
+
+    let processed = 0;
+    for (const [sourceId, outRefs] of view.outgoing) {
+      if (++processed % 500 === 0) await new Promise(r => setTimeout(r, 0));
+
+      // Earliest scatter leg per intermediary
+      const scatter = new Map<string, PeerRef>();
+      for (const ref of outRefs) {
+        const seen = scatter.get(ref.peer);
+        if (!seen || ref.ts < seen.ts) scatter.set(ref.peer, ref);
+      }
+      if (scatter.size < minMules) continue;
+
+      // sink → legs {mule, scatter leg, gather leg}
+      const bySink = new Map<string, { mule: string; out: PeerRef; gather: PeerRef }[]>();
+      for (const [mule, leg] of scatter) {
+        const firstGather = new Map<string, PeerRef>();
+        for (const ref of view.outgoing.get(mule) || []) {
+          if (ref.peer === sourceId || ref.ts < leg.ts || ref.ts - leg.ts > windowMs) continue;
+          const seen = firstGather.get(ref.peer);
+          if (!seen || ref.ts < seen.ts) firstGather.set(ref.peer, ref);
+        }
+        for (const [sink, gather] of firstGather) {
+          if (!scatter.has(sink)) {
+            if (!bySink.has(sink)) bySink.set(sink, []);
+            bySink.get(sink)!.push({ mule, out: leg, gather });
+          }
+        }
+      }
+
+      for (const [sinkId, legs] of bySink) {
+        if (legs.length < minMules) continue;
+
+        // Largest group of legs that fits within the window
+        legs.sort((a, b) => a.out.ts - b.out.ts);
+        let best: typeof legs = [];
+        for (let i = 0; i < legs.length; i++) {
+          const group = legs.slice(i).filter(l => l.gather.ts - legs[i].out.ts <= windowMs);
+          if (group.length > best.length) best = group;
+        }
+        if (best.length < minMules) continue;
+
+        const lastGather = Math.max(...best.map(l => l.gather.ts));
+        sources.add(sourceId);
+        sinks.add(sinkId);
+        best.forEach(l => intermediaries.add(l.mule));
+
+        const sg: ScatterGatherStats = {
+          source:         sourceId,
+          sink:           sinkId,
+          intermediaries: best.map(l => l.mule),
+          total_value:    parseFloat(best.reduce((s, l) => s + l.out.amount, 0).toFixed(2)),
+          gathered_value: parseFloat(best.reduce((s, l) => s + l.gather.amount, 0).toFixed(2)),
+          span_hours:     parseFloat(((lastGather - best[0].out.ts) / 3_600_000).toFixed(2)),
+        };
+        const allRingNodes = [sg.source, ...sg.intermediaries, sg.sink];
+        const ringLegs = best.flatMap(l => [legFromRefs(sourceId, l.mule, [l.out]), legFromRefs(l.mule, sinkId, [l.gather])]);
+
+        instances.push({
+          ringType: 'scatter_gather',
+          signature: allRingNodes,
+          toRing: ctx => {
+            if (!ctx.isSuspicious(sg.source) && !ctx.isSuspicious(sg.sink)) return null;
+            const f = formulas.scatter_gather;
+            return {
+              nodes: allRingNodes.filter(id => ctx.isSuspicious(id)),
+              networkBonus: f.network_bonus,
+              // Member suspicion + number of mules used to split the funds
+              risk: avg => (avg * f.suspicion_weight) + (Math.log(sg.intermediaries.length + 1) * f.mule_weight) + f.base,
+              structure: () => ({
+                shape: 'scatter_gather',
+                members: [
+                  { id: sg.source, role: 'source' },
+                  ...sg.intermediaries.map(id => ({ id, role: 'intermediary' as const })),
+                  { id: sg.sink, role: 'sink' },
+                ],
+                legs: ringLegs,
+              }),
+              details: { central_hub: sg.source, scatter_gather: sg },
+            };
+          },
+        });
+      }
+    }
+
+    const points = scores.STRUCTURAL.SCATTER_GATHER;
+    return {
+      signals: [
+        ...signalsFor(sources,        { component: 'structural', points, pattern: 'scatter_source', weight: 'STRUCTURAL.SCATTER_GATHER' }),
+        ...signalsFor(sinks,          { component: 'structural', points, pattern: 'gather_sink', weight: 'STRUCTURAL.SCATTER_GATHER' }),
+        ...signalsFor(intermediaries, { component: 'structural', points, pattern: 'scatter_gather_mule', weight: 'STRUCTURAL.SCATTER_GATHER' }),
+      ],
+      instances,
+    };
+  },
+};
@@ -0,0 +1,93 @@
+/**
+ * Shell-chain detector — paths whose intermediaries are low-activity
+ * pass-through accounts (2–3 lifetime transactions).
+ */
+
+import { Detector, PatternInstance } from './types';
+import { signalsFor } from './signals';
+import { pathLegs } from './ring-structure';
+
+const MAX_ITER = 400; // BFS expansions per start node
+
+export const shellChainDetector: Detector = {
+  id: 'shell',
+  label: 'Shell Account Chains',
+  description: 'Chains of three or more accounts routed through low-activity shell accounts.',
+
+  async run(view, { scores, thresholds, formulas }) {
+    const flagged = new Set<string>();
+    const processedChains = new Set<string>(); // To avoid duplicate chains
+    const instances: PatternInstance[] = [];
+
+    const isShellNode = (id: string): boolean => {
+      const n = view.nodes.get(id);
+      if (!n) return false;
+      return n.total_degree >= thresholds.SHELL_TX_MIN && n.total_degree <= thresholds.SHELL_TX_MAX;
+    };
+
+    let processed = 0;
+    for (const [startId, startNode] of view.nodes) {
+      if (++processed % 100 === 0) await new Promise(r => setTimeout(r, 0));
+      if (startNode.out_degree === 0) continue;
+
+      const queue: { current: string; path: string[] }[] = [{ current: startId, path: [startId] }];
+      let iterations = 0;
+
+      while (queue.length > 0) {
+        if (++iterations > MAX_ITER) break;
+        const { current, path } = queue.shift()!;
+
+        if (path.length >= thresholds.SHELL_CHAIN_MIN_LENGTH) {
+          const intermediates = path.slice(1, -1);
+          if (intermediates.length > 0 && intermediates.every(id => isShellNode(id))) {
+            path.forEach(id => flagged.add(id));
+
+            const sortedPath = [...path].sort().join('-');
+            if (!processedChains.has(sortedPath)) {
+              processedChains.add(sortedPath);
+              instances.push({
+                ringType: 'shell_account_chain',
+                signature: path,
+                toRing: ctx => {
+                  const suspiciousShellNodes = path.filter(id => ctx.isSuspicious(id));
+                  if (suspiciousShellNodes.length === 0) return null;
+                  const legs = pathLegs(view, path);
+                  if (!legs) return null;
+                  const f = formulas.shell;
+                  return {
+                    nodes: suspiciousShellNodes,
+                    networkBonus: f.network_bonus,
+                    risk: avg => (avg * f.suspicion_weight) + (Math.log(suspiciousShellNodes.length + 1) * f.size_weight) + f.base,
+                    structure: () => ({
+                      shape: 'path',
+                      members: path.map((id, i) => ({
+                        id,
+                        role: i === 0 ? 'source' as const : i === path.length - 1 ? 'sink' as const : 'intermediary' as const,
+                      })),
+                      legs,
+                    }),
+                  };
+                },
+              });
+            }
+          }
+        }
+
+        if (path.length >= thresholds.CYCLE_DEPTH_LIMIT) continue;
+
+        // Uncapped peer refs for accurate neighbour discovery
+        const neighbours = new Set((view.outgoing.get(current) || []).map(r => r.peer));
+        for (const neighbour of neighbours) {
+          if (!path.includes(neighbour)) {
+            queue.push({ current: neighbour, path: [...path, neighbour] });
+          }
+        }
+      }
+    }
+
+    return {
+      signals: signalsFor(flagged, { component: 'structural', points: scores.STRUCTURAL.SHELL, pattern: 'shell', weight: 'STRUCTURAL.SHELL' }),
+      instances,
+    };
+  },
+};
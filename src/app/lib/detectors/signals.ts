@@ -0,0 +1,6 @@
+import { NodeSignal } from './types';
+
+/** The same signal for every account in `ids`. */
+export function signalsFor(ids: Iterable<string>, signal: Omit<NodeSignal, 'node'>): NodeSignal[] {
+  return Array.from(ids, node => ({ node, ...signal }));
+}
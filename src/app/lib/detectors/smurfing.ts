@@ -0,0 +1,57 @@
+/**
+ * Smurfing detector — ported from the retired in-memory GraphEngine
+ *
+ * A smurfing hub packs most of its activity into one short window and deals
+ * with a different counterparty almost every time (many small deposits or
+ * payouts from / to distinct accounts). The burst ratio is computed over the
+ * uncapped peer refs rather than the display-capped transaction arrays.
+ */
+
+import { GraphView, NodeSignal, Detector } from './types';
+
+/** Largest share of an account's transactions that falls inside one window. */
+export function burstRatio(view: GraphView, id: string, windowMs: number): number {
+  const node = view.nodes.get(id);
+  if (!node || node.total_degree === 0) return 0;
+
+  const times: number[] = [];
+  for (const ref of view.incoming.get(id) || []) times.push(ref.ts);
+  for (const ref of view.outgoing.get(id) || []) times.push(ref.ts);
+  times.sort((a, b) => a - b);
+
+  let maxBurst = 0;
+  let lo = 0;
+  for (let hi = 0; hi < times.length; hi++) {
+    while (times[hi] - times[lo] > windowMs) lo++;
+    maxBurst = Math.max(maxBurst, hi - lo + 1);
+  }
+  return maxBurst / node.total_degree;
+}
+
+export const smurfingDetector: Detector = {
+  id: 'smurfing',
+  label: 'Smurfing Hubs',
+  description: 'Accounts with a burst of transactions, almost all with distinct counterparties.',
+
+  async run(view, { scores, thresholds }) {
+    const signals: NodeSignal[] = [];
+    const windowMs = thresholds.SMURFING_BURST_WINDOW_HOURS * 3600 * 1000;
+
+    let processed = 0;
+    for (const [id, node] of view.nodes) {
+      if (++processed % 1000 === 0) await new Promise(r => setTimeout(r, 0));
+      if (node.total_degree <= thresholds.SMURFING_MIN_DEGREE) continue;
+
+      const diversityRatio = node.unique_counterparties / node.total_degree;
+      if (diversityRatio <= thresholds.SMURFING_DIVERSITY_RATIO) continue;
+      if (burstRatio(view, id, windowMs) <= thresholds.SMURFING_BURST_RATIO) continue;
+
+      signals.push(
+        { node: id, component: 'structural', points: scores.STRUCTURAL.SMURFING, pattern: 'smurfing_hub', weight: 'STRUCTURAL.SMURFING' },
+        { node: id, component: 'behavioral', points: scores.BEHAVIORAL.BURST, rule: 'smurfing_burst', weight: 'BEHAVIORAL.BURST' },
+      );
+    }
+
+    return { signals, instances: [] };
+  },
+};
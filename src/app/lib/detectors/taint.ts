@@ -0,0 +1,54 @@
+/**
+ * Taint detector — propagates taint from analyst-confirmed accounts (see
+ * ../taint) and annotates `taint` on every account it reaches. Accounts whose
+ * inflows are mostly tainted get network points scaled by the tainted share.
+ *
+ * `isFraud` labels seed it only when label seeding is switched on (off by
+ * default); the engine then leaves this detector out of the scores that
+ * ground-truth metrics are measured on, so the answer key is not scored
+ * against itself.
+ */
+
+import { propagateTaint, TaintTransfer } from '../taint';
+import { Detector, NodeSignal } from './types';
+
+export const taintDetector: Detector = {
+  id: 'taint',
+  label: 'Taint Exposure',
+  description: 'Accounts whose inflows trace back to analyst-confirmed fraud accounts (or labelled fraud, when label seeding is on).',
+
+  async run(view, { scores, thresholds, taintModel, taintSeeds, taintSeedTxIds }) {
+    const seeds = { txIds: taintSeedTxIds, accounts: new Set(taintSeeds) };
+    if (seeds.txIds.size === 0 && seeds.accounts.size === 0) return { signals: [], instances: [] };
+
+    const transfers: TaintTransfer[] = [];
+    for (const [from, refs] of view.outgoing) {
+      for (const r of refs) transfers.push({ from, to: r.peer, ts: r.ts, amount: r.amount, txId: r.txId, seq: r.seq });
+    }
+    const stats = propagateTaint(transfers, seeds, taintModel);
+
+    const signals: NodeSignal[] = [];
+    for (const [id, taint] of stats) {
+      const node = view.nodes.get(id);
+      if (!node) continue;
+      node.taint = taint;
+      if (taint.seed || taint.tainted_pct < thresholds.TAINT_MIN_SHARE * 100) continue;
+      signals.push({
+        node: id,
+        component: 'network',
+        points: Math.round(scores.NETWORK.TAINT_EXPOSURE * taint.tainted_pct / 100),
+        pattern: 'taint_exposure',
+        riskFactor: 'taint_exposure',
+        weight: 'NETWORK.TAINT_EXPOSURE',
+        evidence: [{
+          factor: 'taint_exposure',
+          tx_ids: taint.source_tx_ids,
+          note: `${taint.tainted_pct.toFixed(0)}% of inflows ($${taint.tainted_amount.toLocaleString()}) traced to ${seeds.txIds.size > 0 ? 'labelled or confirmed' : 'confirmed'} fraud (${taintModel} model)`,
+        }],
+      });
+    }
+
+    console.log(`[TAINT] ${stats.size} accounts reached from ${seeds.txIds.size} labelled tx and ${seeds.accounts.size} confirmed accounts (${taintModel}); ${signals.length} above ${thresholds.TAINT_MIN_SHARE * 100}%`);
+    return { signals, instances: [] };
+  },
+};
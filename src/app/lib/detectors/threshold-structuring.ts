@@ -0,0 +1,53 @@
+/**
+ * Threshold-structuring detector — repeated amounts just below the
+ * jurisdiction's reporting limits, from one account or from several senders
+ * into one beneficiary, inside a rolling window. Each flagged account cites
+ * the near-threshold transactions as evidence.
+ */
+
+import { RiskEvidence } from '../types';
+import { findStructuringBursts } from '../structuring';
+import { Detector, NodeSignal } from './types';
+
+export const thresholdStructuringDetector: Detector = {
+  id: 'threshold_structuring',
+  label: 'Threshold Structuring',
+  description: 'Clusters of amounts just below the selected jurisdiction’s reporting thresholds.',
+
+  async run(view, { scores, thresholds, jurisdiction }) {
+    const byAccount = new Map<string, RiskEvidence[]>();
+    const bursts = findStructuringBursts(
+      view.counters.nearThresholdTxs,
+      thresholds.STRUCTURING_WINDOW_HOURS * 3600 * 1000,
+      thresholds.STRUCTURING_MIN_TX
+    );
+
+    for (const burst of bursts) {
+      const threshold = jurisdiction.thresholds.find(t => t.limit === burst.limit)!;
+      const note =
+        `${burst.txs.length} tx just below ${burst.limit.toLocaleString()} ${jurisdiction.currency} ` +
+        `(${jurisdiction.id} ${threshold.label}) within ${thresholds.STRUCTURING_WINDOW_HOURS}h` +
+        (burst.linked ? ` from ${burst.accounts.length - 1} linked senders into ${burst.account}` : '');
+
+      for (const account of burst.accounts) {
+        const ownTxs = burst.linked && account !== burst.account
+          ? burst.txs.filter(tx => tx.sender === account)
+          : burst.txs;
+        const list = byAccount.get(account) || [];
+        list.push({ factor: 'threshold_structuring', tx_ids: ownTxs.map(tx => tx.txId), note });
+        byAccount.set(account, list);
+      }
+    }
+
+    const signals: NodeSignal[] = Array.from(byAccount, ([node, evidence]) => ({
+      node,
+      component: 'behavioral' as const,
+      points: scores.BEHAVIORAL.THRESHOLD_STRUCTURING,
+      riskFactor: 'threshold_structuring',
+      pattern: 'threshold_structuring',
+      weight: 'BEHAVIORAL.THRESHOLD_STRUCTURING' as const,
+      evidence,
+    }));
+    return { signals, instances: [] };
+  },
+};
@@ -0,0 +1,129 @@
+/**
+ * Detector plugin contract
+ *
+ * A detector receives a read-only view of the ingested graph plus the run
+ * configuration and returns:
+ *
+ *  - node signals: points for one score component on one account, optionally
+ *    tagged with a pattern / risk factor and the evidence behind it, and
+ *  - pattern instances: concrete structures (a cycle, a fan, a chain …) that
+ *    the pipeline may turn into one fraud ring each once nodes are scored.
+ *
+ * Detectors never touch scores directly. The pipeline sums signals per node,
+ * caps each component and forms rings, so a detector can be added, removed
+ * or disabled without changing any other detector.
+ */
+
+import { NodeData, Ring, RingLeg, RingMember, RingShape, RiskEvidence, DetectorCoverage, SuspicionScore, TaintModel } from '../types';
+import { JurisdictionPreset, NearThresholdTx } from '../structuring';
+import { AmountSketch } from '../activity-metrics';
+import { Scores, Thresholds, RingFormulas, WeightKey } from './constants';
+
+/** Compact reference to one transaction, seen from one of its two accounts; `seq` is its ingestion order. */
+export interface PeerRef { peer: string; ts: number; txId: string; amount: number; txType?: string; seq: number; }
+
+/** Per-account counters gathered while ingesting (accurate across ALL tx). */
+export interface IngestCounters {
+  hasPaySimData: boolean;
+  balanceAnomalyCount: Map<string, number>;
+  accountDrainCount:   Map<string, number>;
+  zeroDestBalCount:    Map<string, number>;
+  highRiskTxCount:     Map<string, number>;
+  totalTxCountPerNode: Map<string, number>;
+  roundAmountCount:    Map<string, number>;
+  temporalBurstCount:  Map<string, number>;
+  amountSketches:      Map<string, AmountSketch>;
+  nearThresholdTxs:    NearThresholdTx[];
+}
+
+export interface GraphView {
+  /** Accounts with finalised metrics. Detectors may annotate derived metrics (centrality, dwell …). */
+  nodes: Map<string, NodeData>;
+  /** Uncapped peer refs per account, in ingestion order */
+  incoming: Map<string, PeerRef[]>;
+  outgoing: Map<string, PeerRef[]>;
+  /** sender → receiver → refs sorted by timestamp (built once, on first use) */
+  edgeIndex(): Map<string, Map<string, PeerRef[]>>;
+  /** Earliest and latest transaction timestamp in the dataset */
+  datasetStart: number;
+  datasetEnd: number;
+  counters: IngestCounters;
+}
+
+export interface DetectorConfig {
+  jurisdiction: JurisdictionPreset;
+  dormancyDays: number;
+  taintModel: TaintModel;
+  taintSeeds: string[]; // accounts confirmed fraudulent by an analyst
+  taintSeedTxIds: ReadonlySet<string>; // labelled fraud tx seeding taint; empty unless label seeding is on
+  scores: Scores;
+  thresholds: Thresholds;
+  formulas: RingFormulas;
+}
+
+export type ScoreComponent = 'structural' | 'behavioral' | 'network';
+
+export interface NodeSignal {
+  node: string;
+  component: ScoreComponent;
+  points: number;
+  pattern?: string;
+  riskFactor?: string;
+  evidence?: RiskEvidence[];
+  /** Rule id for score attribution (default: risk factor, then pattern) */
+  rule?: string;
+  /** SCORES weight the points derive from; signals without one (custom rules) are not calibrated */
+  weight?: WeightKey;
+  /** Set by the pipeline */
+  detector?: string;
+}
+
+/** Read access to scored nodes while rings are formed. */
+export interface RingContext {
+  isSuspicious(id: string): boolean;
+  scoreOf(id: string): SuspicionScore | undefined;
+}
+
+/** A pattern instance's full structure; the pipeline flags suspicious members and totals the legs. */
+export interface RingSkeleton {
+  shape: RingShape;
+  members: Omit<RingMember, 'suspicious'>[];
+  legs: RingLeg[];
+}
+
+export interface RingDraft {
+  /** Suspicious members listed on the ring */
+  nodes: string[];
+  /** Network score every member is raised to (capped at NETWORK.MAX) */
+  networkBonus: number;
+  /** Pattern-specific risk, computed after the bonus is applied; clamped to 0–100 */
+  risk(averageSuspicion: number): number;
+  /** Every account and leg of the instance, suspicious or not; built only for rings that are kept */
+  structure(): RingSkeleton;
+  /** Pattern-specific ring fields (hops, central_hub, layering stats …) */
+  details?: Partial<Omit<Ring, 'id' | 'nodes' | 'risk_score' | 'patterns' | 'average_suspicion' | 'structure'>>;
+}
+
+export interface PatternInstance {
+  /** The ring's single pattern, e.g. 'cycle_length_3' or 'hub_spoke_fan_in' */
+  ringType: string;
+  /** Set by the pipeline */
+  detector?: string;
+  /** Ids identifying the structure; rings with the same type and ids are merged */
+  signature: string[];
+  /** Returns null when too few of the instance's accounts are suspicious */
+  toRing(ctx: RingContext): RingDraft | null;
+}
+
+export interface DetectorOutput {
+  signals: NodeSignal[];
+  instances: PatternInstance[];
+  coverage?: DetectorCoverage[];
+}
+
+export interface Detector {
+  id: string;
+  label: string;
+  description: string;
+  run(view: GraphView, config: DetectorConfig): Promise<DetectorOutput>;
+}
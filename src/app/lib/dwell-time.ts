@@ -0,0 +1,99 @@
+/**
+ * Dwell Time — how long money stays in an account before it moves on
+ *
+ * Inflows are queued as lots and outflows consume them first-in-first-out,
+ * so every forwarded unit of money gets a hold time (outflow ts − inflow ts).
+ * Outflows that exceed the queued lots were paid from a pre-existing balance
+ * and are left unmatched.
+ *
+ * Quantiles are amount-weighted: a 9,000 transfer forwarded in ten minutes
+ * counts for more than a 20 payment that sat for a week.
+ */
+
+import { DwellStats } from './types';
+
+export interface Flow {
+  ts: number;
+  amount: number;
+}
+
+const HOUR_MS = 3_600_000;
+
+/** Hold-time histogram buckets (upper bound in hours, inclusive). */
+export const DWELL_BUCKETS: { label: string; maxHours: number }[] = [
+  { label: '<1h',   maxHours: 1 },
+  { label: '1–6h',  maxHours: 6 },
+  { label: '6–24h', maxHours: 24 },
+  { label: '1–3d',  maxHours: 72 },
+  { label: '3–7d',  maxHours: 168 },
+  { label: '>7d',   maxHours: Infinity },
+];
+
+/** Amount-weighted quantile over (value, weight) pairs. */
+function weightedQuantile(pairs: { hold: number; amount: number }[], q: number): number {
+  if (pairs.length === 0) return 0;
+  const sorted = [...pairs].sort((a, b) => a.hold - b.hold);
+  const total = sorted.reduce((s, p) => s + p.amount, 0);
+  let acc = 0;
+  for (const p of sorted) {
+    acc += p.amount;
+    if (acc >= q * total) return p.hold;
+  }
+  return sorted[sorted.length - 1].hold;
+}
+
+/**
+ * FIFO-matches outflows against earlier inflows. Both lists may be unsorted.
+ * Returns null when nothing could be matched.
+ */
+export function computeDwellStats(inflows: Flow[], outflows: Flow[]): DwellStats | null {
+  if (inflows.length === 0 || outflows.length === 0) return null;
+
+  const ins  = [...inflows].sort((a, b) => a.ts - b.ts);
+  const outs = [...outflows].sort((a, b) => a.ts - b.ts);
+
+  const lots: { ts: number; remaining: number }[] = [];
+  let head = 0, nextIn = 0;
+  const matched: { hold: number; amount: number }[] = [];
+
+  for (const out of outs) {
+    // Funds that arrived at or before this outflow are available to it
+    while (nextIn < ins.length && ins[nextIn].ts <= out.ts) {
+      lots.push({ ts: ins[nextIn].ts, remaining: ins[nextIn].amount });
+      nextIn++;
+    }
+
+    let need = out.amount;
+    while (need > 0 && head < lots.length) {
+      const lot = lots[head];
+      const take = Math.min(need, lot.remaining);
+      if (take > 0) matched.push({ hold: out.ts - lot.ts, amount: take });
+      lot.remaining -= take;
+      need -= take;
+      if (lot.remaining <= 0) head++;
+    }
+  }
+
+  if (matched.length === 0) return null;
+
+  const inflowAmount  = ins.reduce((s, f) => s + f.amount, 0);
+  const matchedAmount = matched.reduce((s, m) => s + m.amount, 0);
+  const within = (hours: number) =>
+    matched.filter(m => m.hold <= hours * HOUR_MS).reduce((s, m) => s + m.amount, 0);
+
+  const histogram = DWELL_BUCKETS.map(() => 0);
+  for (const m of matched) {
+    const hours = m.hold / HOUR_MS;
+    histogram[DWELL_BUCKETS.findIndex(b => hours <= b.maxHours)] += m.amount;
+  }
+
+  return {
+    median_hold_hours: weightedQuantile(matched, 0.5) / HOUR_MS,
+    p10_hold_hours:    weightedQuantile(matched, 0.1) / HOUR_MS,
+    forwarded_1h_pct:  inflowAmount > 0 ? (within(1)  / inflowAmount) * 100 : 0,
+    forwarded_24h_pct: inflowAmount > 0 ? (within(24) / inflowAmount) * 100 : 0,
+    matched_amount:    matchedAmount,
+    inflow_amount:     inflowAmount,
+    hold_histogram:    histogram,
+  };
+}
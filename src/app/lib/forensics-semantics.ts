@@ -30,6 +30,9 @@ export const RISK_THRESHOLDS = {
   HIGH_MIN: 70      // 70-100 = High
 } as const;
 
+/** Score at or above which an account counts as flagged, unless the analyst picks another (Settings → Default Risk Threshold). */
+export const DEFAULT_RISK_THRESHOLD = 50;
+
 /**
  * Derives risk level from numeric score
  * CRITICAL: This is the ONLY function that determines risk level
@@ -113,9 +116,9 @@ export function getRiskInfo(score: number) {
  * 4. SHELL CHAINS:
  *    risk = (avgScore × 0.5) + log(memberCount+1) × 7 + 8
  * 
- * NOTE: These formulas are implemented directly in graph-engine.ts and 
- * chunked-uploader.ts during ring formation. This module provides the 
- * semantic framework and validation utilities.
+ * NOTE: These formulas are implemented by each detector's ring builder
+ * (lib/detectors) and applied in the pipeline's formRings(). This module
+ * provides the semantic framework and validation utilities.
  */
 
 /**
@@ -0,0 +1,213 @@
+/**
+ * Ground Truth Scopes — transaction- and ring-level evaluation
+ *
+ * Node-level metrics count any account party to a fraud transaction as
+ * fraudulent, which says little about what the detectors actually pointed
+ * at. These scopes check the flagged transactions themselves:
+ *
+ *  - Transaction level: a transaction is flagged when it belongs to a ring
+ *    (one of its legs) or when either account is high risk. Each flagged
+ *    transaction is credited to the ring patterns and high-risk account
+ *    patterns that flagged it, so noisy patterns show up as low precision.
+ *  - Ring level: purity — the share of a ring's transactions, and of its
+ *    members, that are labelled fraud.
+ *  - Typology level: when fraud transactions carry an injected typology
+ *    (synthetic datasets), the share of each typology's transactions that
+ *    were flagged and of its accounts that are high risk.
+ *
+ * Ring legs keep a capped sample of transaction ids; legs whose sample is
+ * incomplete are re-read from the uncapped peer refs over the leg's window,
+ * grouped by receiver once per sender so a hub's list is scanned only once.
+ */
+
+import { PatternPrecision, Ring, RingGroundTruth, RingLeg, RingPatternPurity, RingPurity, SuspicionScore, TransactionGroundTruth, TypologyRecall } from './types';
+import { getRiskLevel } from './forensics-semantics';
+import { PeerRef } from './detectors/types';
+
+/** Outgoing peer refs by (sender, receiver), grouped per sender on first use. */
+type PairIndex = (from: string, to: string) => PeerRef[];
+
+function createPairIndex(outgoing: Map<string, PeerRef[]>): PairIndex {
+  const index = new Map<string, Map<string, PeerRef[]>>();
+  return (from, to) => {
+    let byPeer = index.get(from);
+    if (!byPeer) {
+      index.set(from, byPeer = new Map());
+      for (const ref of outgoing.get(from) || []) {
+        const list = byPeer.get(ref.peer);
+        if (list) list.push(ref); else byPeer.set(ref.peer, [ref]);
+      }
+    }
+    return byPeer.get(to) || [];
+  };
+}
+
+/** Transaction ids behind a ring leg, complete even when the leg's sample is capped. */
+function legTxIds(leg: RingLeg, pairs: PairIndex): string[] {
+  if (leg.tx_ids.length >= leg.tx_count) return leg.tx_ids;
+  return pairs(leg.from, leg.to)
+    .filter(r => r.ts >= leg.first_ts && r.ts <= leg.last_ts)
+    .map(r => r.txId);
+}
+
+const ratio = (a: number, b: number) => parseFloat((b > 0 ? a / b : 0).toFixed(4));
+
+export function evaluateScopes(
+  outgoing: Map<string, PeerRef[]>,
+  fraudTxIds: Set<string>,
+  fraudTypologies: Map<string, string>,
+  fraudulentNodes: Set<string>,
+  suspiciousNodes: { id: string; score: SuspicionScore }[],
+  rings: Ring[]
+): { transactions: TransactionGroundTruth; rings: RingGroundTruth } {
+  // ── Ring level ────────────────────────────────────────────────────────────
+  const ringTxPatterns = new Map<string, Set<string>>();
+  const purity: RingPurity[] = [];
+  const pairs = createPairIndex(outgoing);
+
+  for (const ring of rings) {
+    const pattern = ring.patterns[0] || 'unknown';
+    const members = ring.structure ? ring.structure.members.map(m => m.id) : ring.nodes;
+    const txIds = new Set<string>();
+    for (const leg of ring.structure?.legs || []) {
+      for (const id of legTxIds(leg, pairs)) txIds.add(id);
+    }
+
+    let fraudTx = 0;
+    for (const id of txIds) {
+      if (fraudTxIds.has(id)) fraudTx++;
+      let set = ringTxPatterns.get(id);
+      if (!set) ringTxPatterns.set(id, set = new Set());
+      set.add(pattern);
+    }
+    const fraudMembers = members.filter(id => fraudulentNodes.has(id)).length;
+
+    purity.push({
+      ringId: ring.id,
+      pattern,
+      members: members.length,
+      fraudMembers,
+      txCount: txIds.size,
+      fraudTx,
+      txPurity: ratio(fraudTx, txIds.size),
+      memberPurity: ratio(fraudMembers, members.length),
+    });
+  }
+
+  const ringPatterns = new Map<string, RingPurity[]>();
+  for (const p of purity) {
+    const list = ringPatterns.get(p.pattern);
+    if (list) list.push(p); else ringPatterns.set(p.pattern, [p]);
+  }
+  const ringByPattern: RingPatternPurity[] = Array.from(ringPatterns, ([pattern, list]) => {
+    const txCount = list.reduce((s, p) => s + p.txCount, 0);
+    const fraudTx = list.reduce((s, p) => s + p.fraudTx, 0);
+    return {
+      pattern,
+      rings: list.length,
+      txCount,
+      fraudTx,
+      txPurity: ratio(fraudTx, txCount),
+      memberPurity: ratio(list.reduce((s, p) => s + p.memberPurity, 0), list.length),
+      pureRings: list.filter(p => p.txPurity >= 0.5).length,
+    };
+  }).sort((a, b) => b.rings - a.rings);
+
+  // ── Transaction level ─────────────────────────────────────────────────────
+  const highRiskPatterns = new Map<string, string[]>();
+  for (const n of suspiciousNodes) {
+    if (getRiskLevel(n.score.total) === 'high') highRiskPatterns.set(n.id, n.score.details.patterns);
+  }
+
+  let tp = 0, fp = 0, tn = 0, fn = 0;
+  const inRing = { flagged: 0, fraud: 0 };
+  const highRiskNode = { flagged: 0, fraud: 0 };
+  const byPattern = new Map<string, { flagged: number; fraud: number }>();
+  const credit = (pattern: string, fraud: boolean) => {
+    let c = byPattern.get(pattern);
+    if (!c) byPattern.set(pattern, c = { flagged: 0, fraud: 0 });
+    c.flagged++;
+    if (fraud) c.fraud++;
+  };
+  const typologies = new Map<string, { tx: number; flaggedTx: number; accounts: Set<string> }>();
+
+  for (const [from, refs] of outgoing) {
+    const senderPatterns = highRiskPatterns.get(from);
+    for (const r of refs) {
+      const fraud = fraudTxIds.has(r.txId);
+      const ringHit = ringTxPatterns.get(r.txId);
+      const receiverPatterns = highRiskPatterns.get(r.peer);
+      const flagged = !!(ringHit || senderPatterns || receiverPatterns);
+
+      const typology = fraudTypologies.get(r.txId);
+      if (typology) {
+        let t = typologies.get(typology);
+        if (!t) typologies.set(typology, t = { tx: 0, flaggedTx: 0, accounts: new Set() });
+        t.tx++;
+        if (flagged) t.flaggedTx++;
+        t.accounts.add(from).add(r.peer);
+      }
+
+      if (!flagged) {
+        if (fraud) fn++; else tn++;
+        continue;
+      }
+      if (fraud) tp++; else fp++;
+
+      const patterns = new Set<string>(ringHit);
+      if (ringHit) {
+        inRing.flagged++;
+        if (fraud) inRing.fraud++;
+      }
+      if (senderPatterns || receiverPatterns) {
+        highRiskNode.flagged++;
+        if (fraud) highRiskNode.fraud++;
+        senderPatterns?.forEach(p => patterns.add(p));
+        receiverPatterns?.forEach(p => patterns.add(p));
+      }
+      patterns.forEach(p => credit(p, fraud));
+    }
+  }
+
+  const patternPrecision: PatternPrecision[] = Array.from(byPattern, ([pattern, c]) => ({
+    pattern,
+    flagged: c.flagged,
+    fraud: c.fraud,
+    precision: ratio(c.fraud, c.flagged),
+  })).sort((a, b) => b.flagged - a.flagged);
+
+  const typologyRecall: TypologyRecall[] = Array.from(typologies, ([typology, t]) => {
+    const highRiskAccounts = Array.from(t.accounts).filter(id => highRiskPatterns.has(id)).length;
+    return {
+      typology,
+      tx: t.tx,
+      flaggedTx: t.flaggedTx,
+      txRecall: ratio(t.flaggedTx, t.tx),
+      accounts: t.accounts.size,
+      highRiskAccounts,
+      accountRecall: ratio(highRiskAccounts, t.accounts.size),
+    };
+  }).sort((a, b) => a.typology.localeCompare(b.typology));
+
+  return {
+    transactions: {
+      flagged: tp + fp,
+      tp,
+      fp,
+      tn,
+      fn,
+      precision: ratio(tp, tp + fp),
+      recall: ratio(tp, tp + fn),
+      inRing,
+      highRiskNode,
+      byPattern: patternPrecision,
+      byTypology: typologyRecall,
+    },
+    rings: {
+      rings: purity,
+      byPattern: ringByPattern,
+      avgTxPurity: ratio(purity.reduce((s, p) => s + p.txPurity, 0), purity.length),
+      avgMemberPurity: ratio(purity.reduce((s, p) => s + p.memberPurity, 0), purity.length),
+    },
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Layering Path Detection — follow the money with amount conservation
+ *
+ * Shell-chain detection only looks at node degrees. Layering detection follows
+ * actual transactions: starting from a transfer S → A it looks for a transfer
+ * out of A that
+ *
+ *  - happens after the funds arrived and within the dwell threshold, and
+ *  - forwards roughly the amount received (at most the amount received,
+ *    at least (1 − per-hop skim tolerance) of it).
+ *
+ * and repeats hop by hop until the money stops moving. Chains are reported
+ * once, from their earliest transaction, with the cumulative skim taken along
+ * the way. The search shares one global budget and reports coverage like the
+ * cycle search.
+ */
+
+import { DetectorCoverage, PatternHop } from './types';
+
+export interface FlowRef {
+  peer: string;
+  ts: number;
+  txId: string;
+  amount: number;
+}
+
+export interface LayeringOptions {
+  /** Outgoing transactions per account, sorted by timestamp ascending */
+  outgoing: Map<string, FlowRef[]>;
+  minHops: number;
+  maxHops: number;
+  maxDwellMs: number;
+  hopSkimTolerance: number;   // e.g. 0.1 → each hop may keep up to 10%
+  maxCumulativeSkim: number;  // e.g. 0.25 → whole chain may lose up to 25%
+  maxBranching: number;       // candidate continuations explored per hop
+  maxIterations: number;
+  maxMillis: number;
+}
+
+export interface LayeringPath {
+  hops: PatternHop[];
+  cumulativeSkim: number; // amount_in − amount_out
+  skimRatio: number;      // cumulativeSkim / amount_in
+  maxDwellMs: number;
+}
+
+const YIELD_EVERY = 5_000;
+
+export async function detectLayeringPaths(
+  options: LayeringOptions
+): Promise<{ paths: LayeringPath[]; coverage: DetectorCoverage }> {
+  const started = Date.now();
+  const paths: LayeringPath[] = [];
+  const continuation = new Set<string>(); // tx ids already used as a non-first hop
+
+  // Every transaction is a potential entry point; walk them chronologically
+  // so a chain is always found from its first leg before any of its suffixes.
+  const entries: { from: string; ref: FlowRef }[] = [];
+  for (const [from, refs] of options.outgoing) {
+    for (const ref of refs) {
+      if (options.outgoing.has(ref.peer)) entries.push({ from, ref });
+    }
+  }
+  entries.sort((a, b) => a.ref.ts - b.ref.ts);
+
+  const coverage: DetectorCoverage = {
+    detector:            'layering_path',
+    components_total:    entries.length,
+    components_searched: 0,
+    instances_found:     0,
+    budget_exhausted:    false,
+    iterations:          0,
+    elapsed_ms:          0,
+  };
+
+  const outOfBudget = () =>
+    coverage.iterations >= options.maxIterations || Date.now() - started >= options.maxMillis;
+
+  /** Transfers out of `node` that could be the received funds moving on. */
+  const candidatesAfter = (node: string, received: FlowRef): FlowRef[] => {
+    const refs = options.outgoing.get(node);
+    if (!refs) return [];
+
+    // First ref at or after the arrival (binary search on ts)
+    let lo = 0, hi = refs.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (refs[mid].ts < received.ts) lo = mid + 1; else hi = mid;
+    }
+
+    const floor = received.amount * (1 - options.hopSkimTolerance);
+    const matches: FlowRef[] = [];
+    for (let i = lo; i < refs.length && refs[i].ts - received.ts <= options.maxDwellMs; i++) {
+      const r = refs[i];
+      if (r.txId !== received.txId && r.amount <= received.amount && r.amount >= floor) matches.push(r);
+    }
+    // Closest amount match first
+    return matches.sort((a, b) => b.amount - a.amount).slice(0, options.maxBranching);
+  };
+
+  search:
+  for (const entry of entries) {
+    if (continuation.has(entry.ref.txId)) { coverage.components_searched++; continue; }
+
+    // DFS over continuations; only maximal chains (no further hop) are kept
+    const stack: { node: string; chain: { from: string; ref: FlowRef }[] }[] = [
+      { node: entry.ref.peer, chain: [entry] },
+    ];
+    let best: { from: string; ref: FlowRef }[] | null = null;
+
+    while (stack.length > 0) {
+      if (outOfBudget()) {
+        coverage.budget_exhausted = true;
+        break search;
+      }
+      if (++coverage.iterations % YIELD_EVERY === 0) await new Promise(r => setTimeout(r, 0));
+
+      const { node, chain } = stack.pop()!;
+      const first = chain[0].ref.amount;
+      const visited = new Set(chain.map(c => c.from));
+      visited.add(node);
+
+      let extended = false;
+      if (chain.length < options.maxHops) {
+        for (const next of candidatesAfter(node, chain[chain.length - 1].ref)) {
+          if (visited.has(next.peer)) continue; // loops belong to the cycle detector
+          if (first - next.amount > first * options.maxCumulativeSkim) continue;
+          stack.push({ node: next.peer, chain: [...chain, { from: node, ref: next }] });
+          extended = true;
+        }
+      }
+
+      if (!extended && chain.length >= options.minHops && (!best || chain.length > best.length)) {
+        best = chain;
+      }
+    }
+
+    coverage.components_searched++;
+    if (!best) continue;
+
+    best.slice(1).forEach(c => continuation.add(c.ref.txId));
+
+    const hops: PatternHop[] = best.map(c => ({
+      from: c.from, to: c.ref.peer, tx_id: c.ref.txId, amount: c.ref.amount, timestamp: c.ref.ts,
+    }));
+    let maxDwellMs = 0;
+    for (let k = 1; k < hops.length; k++) maxDwellMs = Math.max(maxDwellMs, hops[k].timestamp - hops[k - 1].timestamp);
+
+    const amountIn  = hops[0].amount;
+    const skim      = amountIn - hops[hops.length - 1].amount;
+    paths.push({
+      hops,
+      cumulativeSkim: skim,
+      skimRatio:      amountIn > 0 ? skim / amountIn : 0,
+      maxDwellMs,
+    });
+    coverage.instances_found++;
+  }
+
+  coverage.elapsed_ms = Date.now() - started;
+  return { paths, coverage };
+}
@@ -0,0 +1,97 @@
+/**
+ * Account Lifecycle — dormancy gaps and burner-mule behaviour
+ *
+ * An account's transactions are split into activity segments wherever the
+ * gap between two consecutive transactions reaches the dormancy period. The
+ * resulting timeline (active → dormant → active … → silent) drives two
+ * patterns:
+ *
+ *  - dormant_reactivation: after a dormant gap the account suddenly receives
+ *    funds and moves most of them on within a few days.
+ *  - mule_lifecycle: a new account receives inflows, cashes out almost all of
+ *    it within a short lifespan and then goes silent until the end of the data.
+ */
+
+import { LifecyclePhase, LifecycleTimeline } from './types';
+
+export interface LifecycleEvent {
+  ts: number;
+  amount: number;
+  inbound: boolean;
+}
+
+export interface LifecycleOptions {
+  dormancyMs: number;
+  datasetStart: number;
+  datasetEnd: number;
+  reactivationWindowMs: number;   // look at this much activity after the gap
+  reactivationForwardRatio: number; // out / in inside that window
+  newAccountGraceMs: number;      // accounts seen this early existed before the data
+  muleMaxLifespanMs: number;
+  muleCashOutRatio: number;       // lifetime out / in
+  muleSilenceMs: number;          // quiet from last tx to end of data
+}
+
+export function buildLifecycle(events: LifecycleEvent[], options: LifecycleOptions): LifecycleTimeline | null {
+  if (events.length < 2) return null;
+  const sorted = [...events].sort((a, b) => a.ts - b.ts);
+
+  // ── Segment into activity bursts separated by dormant gaps ──
+  const phases: LifecyclePhase[] = [];
+  let segment: LifecyclePhase | null = null;
+  let longestGap = 0;
+
+  for (let i = 0; i < sorted.length; i++) {
+    const e = sorted[i];
+    if (segment && e.ts - segment.end >= options.dormancyMs) {
+      longestGap = Math.max(longestGap, e.ts - segment.end);
+      phases.push(segment);
+      phases.push({ kind: 'dormant', start: segment.end, end: e.ts, tx_count: 0, amount_in: 0, amount_out: 0 });
+      segment = null;
+    }
+    if (!segment) segment = { kind: 'active', start: e.ts, end: e.ts, tx_count: 0, amount_in: 0, amount_out: 0 };
+    segment.end = e.ts;
+    segment.tx_count++;
+    if (e.inbound) segment.amount_in += e.amount; else segment.amount_out += e.amount;
+  }
+  phases.push(segment!);
+
+  const last = sorted[sorted.length - 1].ts;
+  if (options.datasetEnd - last >= options.muleSilenceMs) {
+    phases.push({ kind: 'silent', start: last, end: options.datasetEnd, tx_count: 0, amount_in: 0, amount_out: 0 });
+  }
+
+  // ── Dormant reactivation: receive and forward right after a gap ──
+  let reactivatedAt: number | undefined;
+  for (let i = 1; i < phases.length; i++) {
+    if (phases[i - 1].kind !== 'dormant' || phases[i].kind !== 'active') continue;
+    const from = phases[i].start;
+    let inAmt = 0, outAmt = 0;
+    for (const e of sorted) {
+      if (e.ts < from || e.ts - from > options.reactivationWindowMs) continue;
+      if (e.inbound) inAmt += e.amount; else outAmt += e.amount;
+    }
+    if (inAmt > 0 && outAmt >= inAmt * options.reactivationForwardRatio) {
+      reactivatedAt = from;
+      break;
+    }
+  }
+
+  // ── Mule lifecycle: new → funded → cashed out → silent ──
+  const first = sorted[0];
+  const totalIn  = sorted.filter(e => e.inbound).reduce((s, e) => s + e.amount, 0);
+  const totalOut = sorted.filter(e => !e.inbound).reduce((s, e) => s + e.amount, 0);
+  const isMuleLifecycle =
+    first.inbound &&
+    first.ts - options.datasetStart >= options.newAccountGraceMs &&
+    last - first.ts <= options.muleMaxLifespanMs &&
+    totalIn > 0 && totalOut >= totalIn * options.muleCashOutRatio &&
+    phases[phases.length - 1].kind === 'silent';
+
+  return {
+    phases,
+    longest_dormant_days: longestGap / 86_400_000,
+    reactivated_at: reactivatedAt,
+    mule_lifecycle: isMuleLifecycle,
+  };
+}
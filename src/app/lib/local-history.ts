@@ -4,8 +4,9 @@
  * The full GraphAnalysisResult (nodes Map + edges) is far too large for
  * localStorage (~5 MB limit). We store a SLIM summary instead:
  *   - metadata
- *   - rings  (no per-transaction data — just IDs + scores)
+ *   - rings  (IDs + scores; ring structures keep a few tx IDs per leg)
  *   - top-100 suspicious nodes  (score object only, no transaction arrays)
+ *   - the ruleset snapshot that produced the result (for reproducibility)
  *
  * Storage layout (one key per entry + a separate index):
  *   analysisHistory_{userId}_index   → string[]  (ordered newest-first, max 10)
@@ -17,7 +18,7 @@
  * the original file is required for a full interactive graph.
  */
 
-import { GraphAnalysisResult, Ring } from './types';
+import { GraphAnalysisResult, Ring, ScoreContribution } from './types';
 
 // ── Public types ─────────────────────────────────────────────────────────────
 
@@ -45,16 +46,22 @@ interface SlimSuspiciousNode {
     structural: number;
     behavioral: number;
     network: number;
-    details?: { patterns?: string[]; risk_factors?: string[] };
+    details?: { patterns?: string[]; risk_factors?: string[]; contributions?: ScoreContribution[] };
   };
 }
 
 interface SlimAnalysisResult {
   metadata: GraphAnalysisResult['metadata'];
-  /** Full ring objects (they contain only IDs + scores, no transaction arrays). */
+  /** Ring objects; structure legs are trimmed by slimRing. */
   rings: Ring[];
   /** Top-100 suspicious nodes, score only — no transaction arrays. */
   suspicious_nodes: SlimSuspiciousNode[];
+  /** Detector coverage, so restored results still show partial-search warnings. */
+  coverage?: GraphAnalysisResult['coverage'];
+  /** Ruleset snapshot (weights, thresholds, formulas + checksum) used for this run. */
+  ruleset?: GraphAnalysisResult['ruleset'];
+  /** Jurisdiction, dormancy, detectors, custom rules and taint settings used for this run. */
+  run_settings?: GraphAnalysisResult['run_settings'];
 }
 
 // ── Constants ─────────────────────────────────────────────────────────────────
@@ -62,6 +69,8 @@ interface SlimAnalysisResult {
 const PREFIX       = 'analysisHistory_';
 const MAX_ENTRIES  = 10;
 const MAX_SUS_NODES = 100;
+const MAX_RING_LEGS = 100;
+const MAX_LEG_TX_IDS = 5;
 
 // ── Key helpers ───────────────────────────────────────────────────────────────
 
@@ -104,6 +113,20 @@ export function getUserHistory(userId: string): AnalysisHistoryEntry[] {
   return entries;
 }
 
+/** Ring with its structure trimmed to the first legs and a few tx IDs per leg (totals stay exact). */
+function slimRing(ring: Ring): Ring {
+  if (!ring.structure) return ring;
+  return {
+    ...ring,
+    structure: {
+      ...ring.structure,
+      legs: ring.structure.legs
+        .slice(0, MAX_RING_LEGS)
+        .map(leg => ({ ...leg, tx_ids: leg.tx_ids.slice(0, MAX_LEG_TX_IDS) })),
+    },
+  };
+}
+
 /** Saves a slim summary. Evicts the oldest entry if the 10-entry cap is hit. */
 export function addHistoryEntry(
   userId: string,
@@ -113,7 +136,10 @@ export function addHistoryEntry(
   // Build slim result — never store the nodes Map or edge array
   const slimResult: SlimAnalysisResult = {
     metadata: result.metadata,
-    rings:    result.rings,
+    rings:    result.rings.map(slimRing),
+    coverage: result.coverage,
+    ruleset:  result.ruleset,
+    run_settings: result.run_settings,
     suspicious_nodes: result.suspicious_nodes
       .slice(0, MAX_SUS_NODES)
       .map(n => ({
@@ -127,6 +153,11 @@ export function addHistoryEntry(
             ? {
                 patterns:     (n.score.details.patterns     || []).slice(0, 20),
                 risk_factors: (n.score.details.risk_factors || []).slice(0, 20),
+                contributions: (n.score.details.contributions || []).map(c => ({
+                  ...c,
+                  ...(c.tx_ids       ? { tx_ids:       c.tx_ids.slice(0, 20) }       : {}),
+                  ...(c.instance_ids ? { instance_ids: c.instance_ids.slice(0, 20) } : {}),
+                })),
               }
             : undefined,
         },
@@ -222,6 +253,7 @@ export function rehydrateAnalysisResult(entry: AnalysisHistoryEntry): GraphAnaly
   const nodeIds = new Set<string>();
   slim.suspicious_nodes.forEach(n => nodeIds.add(n.id));
   slim.rings.forEach(r => r.nodes.forEach(id => nodeIds.add(id)));
+  slim.rings.forEach(r => r.structure?.members.forEach(m => nodeIds.add(m.id)));
 
   // Build stub node map so the dashboard doesn't crash
   const nodes = new Map<string, any>();
@@ -246,6 +278,7 @@ export function rehydrateAnalysisResult(entry: AnalysisHistoryEntry): GraphAnaly
       details:    n.score.details ? {
         patterns: n.score.details.patterns || [],
         risk_factors: n.score.details.risk_factors || [],
+        contributions: n.score.details.contributions || [],
       } : { patterns: [], risk_factors: [] },
     },
   }));
@@ -254,6 +287,9 @@ export function rehydrateAnalysisResult(entry: AnalysisHistoryEntry): GraphAnaly
     metadata:        slim.metadata,
     rings:           slim.rings,
     suspicious_nodes: suspiciousNodes,
+    coverage:        slim.coverage,
+    ruleset:         slim.ruleset,
+    run_settings:    slim.run_settings,
     nodes,
     edges: [], // not stored — re-upload file for full graph
   };
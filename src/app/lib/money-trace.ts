@@ -0,0 +1,173 @@
+/**
+ * Follow the Money — traces funds from one account, forward (where did the
+ * money go) or backward (where did it come from), hop by hop.
+ *
+ * Traces run on the uncapped peer refs, never the 50-transaction display
+ * sample. Each hop respects time ordering: forward, an account's outflows
+ * only count from the moment the traced money first reached it; backward,
+ * its inflows only count up to the last moment it passed money on.
+ *
+ * Value is attributed by amount: an account that received X and sent on Y
+ * (in the eligible window) passes min(X, Y) to its counterparties, split in
+ * proportion to what each of them received. Branches below `minShare` of the
+ * root amount or beyond the `maxBranches` largest are rolled up per node.
+ */
+
+import { PeerRef } from './detectors/types';
+
+export type TraceDirection = 'forward' | 'backward';
+
+export interface TraceOptions {
+  direction: TraceDirection;
+  maxHops: number;
+  /** Smallest branch kept, as a share of the root amount (0–1) */
+  minShare?: number;
+  /** Largest branches kept per account */
+  maxBranches?: number;
+  /** Accounts in the whole tree before the trace stops expanding */
+  maxNodes?: number;
+}
+
+export interface TraceNode {
+  account: string;
+  depth: number;
+  amount: number;      // traced value attributed to this account
+  share: number;       // amount / root amount
+  tx_ids: string[];    // transactions between this account and its parent (capped)
+  tx_count: number;
+  first_ts: number;    // epoch ms
+  last_ts: number;
+  revisit?: boolean;   // already on this branch — shown but not expanded
+  other_amount?: number; // branches rolled up (below minShare or beyond maxBranches)
+  other_count?: number;
+  children: TraceNode[];
+}
+
+export interface MoneyTrace {
+  root: string;
+  direction: TraceDirection;
+  max_hops: number;
+  total_amount: number;
+  node_count: number;
+  truncated: boolean;  // maxNodes reached before every branch was expanded
+  tree: TraceNode;
+}
+
+/** Uncapped peer refs per account, as kept on the analysis result. */
+export interface PeerIndex {
+  incoming: Map<string, PeerRef[]>;
+  outgoing: Map<string, PeerRef[]>;
+}
+
+const MAX_TX_IDS = 20;
+
+interface Branch {
+  peer: string;
+  amount: number;
+  refs: PeerRef[];
+  first: number;
+  last: number;
+}
+
+/** Eligible refs grouped by counterparty, largest first. */
+function branchesOf(refs: PeerRef[], eligible: (r: PeerRef) => boolean): Branch[] {
+  const byPeer = new Map<string, Branch>();
+  for (const r of refs) {
+    if (!eligible(r)) continue;
+    let b = byPeer.get(r.peer);
+    if (!b) byPeer.set(r.peer, b = { peer: r.peer, amount: 0, refs: [], first: r.ts, last: r.ts });
+    b.amount += r.amount;
+    b.refs.push(r);
+    if (r.ts < b.first) b.first = r.ts;
+    if (r.ts > b.last) b.last = r.ts;
+  }
+  return Array.from(byPeer.values()).sort((a, b) => b.amount - a.amount);
+}
+
+export function traceFunds(peers: PeerIndex, root: string, options: TraceOptions): MoneyTrace {
+  const { direction, maxHops, minShare = 0.01, maxBranches = 10, maxNodes = 500 } = options;
+  const forward = direction === 'forward';
+  const refsOf = (id: string) => (forward ? peers.outgoing : peers.incoming).get(id) || [];
+
+  const rootRefs = refsOf(root);
+  const rootAmount = rootRefs.reduce((s, r) => s + r.amount, 0);
+  const tree: TraceNode = {
+    account: root,
+    depth: 0,
+    amount: parseFloat(rootAmount.toFixed(2)),
+    share: rootAmount > 0 ? 1 : 0,
+    tx_ids: [],
+    tx_count: rootRefs.length,
+    first_ts: rootRefs.reduce((m, r) => Math.min(m, r.ts), rootRefs[0]?.ts ?? 0),
+    last_ts: rootRefs.reduce((m, r) => Math.max(m, r.ts), rootRefs[0]?.ts ?? 0),
+    children: [],
+  };
+
+  // Breadth-first, so a node budget cuts the deepest hops first
+  const queue: { node: TraceNode; amount: number; bound: number; path: Set<string> }[] = [
+    { node: tree, amount: rootAmount, bound: forward ? -Infinity : Infinity, path: new Set([root]) },
+  ];
+  let nodeCount = 1;
+  let truncated = false;
+
+  while (queue.length > 0) {
+    const { node, amount, bound, path } = queue.shift()!;
+    if (node.depth >= maxHops || amount <= 0) continue;
+
+    const branches = branchesOf(refsOf(node.account), r => forward ? r.ts >= bound : r.ts <= bound);
+    const available = branches.reduce((s, b) => s + b.amount, 0);
+    if (available <= 0) continue;
+    const passed = Math.min(amount, available);
+
+    let otherAmount = 0, otherCount = 0;
+    for (const b of branches) {
+      const traced = passed * (b.amount / available);
+      if (node.children.length >= maxBranches || traced < rootAmount * minShare) {
+        otherAmount += traced;
+        otherCount++;
+        continue;
+      }
+      if (nodeCount >= maxNodes) {
+        truncated = true;
+        otherAmount += traced;
+        otherCount++;
+        continue;
+      }
+
+      const child: TraceNode = {
+        account: b.peer,
+        depth: node.depth + 1,
+        amount: parseFloat(traced.toFixed(2)),
+        share: rootAmount > 0 ? parseFloat((traced / rootAmount).toFixed(4)) : 0,
+        tx_ids: b.refs.slice(0, MAX_TX_IDS).map(r => r.txId),
+        tx_count: b.refs.length,
+        first_ts: b.first,
+        last_ts: b.last,
+        ...(path.has(b.peer) ? { revisit: true } : {}),
+        children: [],
+      };
+      node.children.push(child);
+      nodeCount++;
+
+      // Forward, the money is there from its first arrival; backward, it left by the last send
+      if (!child.revisit) {
+        queue.push({ node: child, amount: traced, bound: forward ? b.first : b.last, path: new Set(path).add(b.peer) });
+      }
+    }
+
+    if (otherCount > 0) {
+      node.other_amount = parseFloat(otherAmount.toFixed(2));
+      node.other_count = otherCount;
+    }
+  }
+
+  return {
+    root,
+    direction,
+    max_hops: maxHops,
+    total_amount: tree.amount,
+    node_count: nodeCount,
+    truncated,
+    tree,
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Result Export — the downloadable forms of an analysis
+ *
+ *  - Results JSON: run metadata, the ruleset and run settings that scored it
+ *    (enough to reproduce the run, e.g. with the CLI's --ruleset), suspicious
+ *    entities (highest score first, with the per-signal contributions behind
+ *    each score) and fraud rings with their structure.
+ *  - Suspicious-entity CSV and ring CSV: one row per entity / ring, for
+ *    spreadsheets and for diffing two runs line by line.
+ *
+ * The dashboard download and the command-line analyzer both write these, so
+ * a file from either can be compared with the other.
+ */
+
+import { GraphAnalysisResult } from './types';
+import { getRiskLevel } from './forensics-semantics';
+
+export function buildResultsJson(data: GraphAnalysisResult, executionTimeMs: number) {
+  return {
+    metadata: {
+      timestamp: new Date().toISOString(),
+      execution_time_ms: executionTimeMs,
+      total_transactions: data.metadata.total_transactions,
+      total_volume: data.metadata.total_volume,
+      algorithm_version: data.ruleset?.version ?? '1.0.0',
+    },
+    ...(data.ruleset ? {
+      ruleset: {
+        id: data.ruleset.id,
+        name: data.ruleset.name,
+        version: data.ruleset.version,
+        checksum: data.ruleset.checksum,
+        parent_id: data.ruleset.parent_id,
+        scores: data.ruleset.scores,
+        thresholds: data.ruleset.thresholds,
+        ring_formulas: data.ruleset.ring_formulas,
+      },
+    } : {}),
+    ...(data.run_settings ? { run_settings: data.run_settings } : {}),
+    suspicious_entities: [...data.suspicious_nodes].sort((a, b) => b.score.total - a.score.total).map(n => ({
+      account_id: n.id,
+      suspicion_score: parseFloat(n.score.total.toFixed(2)),
+      score_breakdown: { structural: n.score.structural, behavioral: n.score.behavioral, network: n.score.network },
+      risk_factors: n.score.details?.risk_factors || [],
+      patterns: n.score.details?.patterns || [],
+      ...(n.score.details?.contributions ? { contributions: n.score.details.contributions } : {}),
+      ...(n.score.details?.evidence ? { evidence: n.score.details.evidence } : {}),
+    })),
+    fraud_rings: data.rings.map(r => ({
+      ring_id: r.id,
+      risk_score: parseFloat(r.risk_score.toFixed(2)),
+      member_count: r.nodes.length,
+      members: r.nodes,
+      patterns: r.patterns,
+      ...(r.hops ? { hops: r.hops } : {}),
+      ...(r.community ? { community: r.community } : {}),
+      ...(r.layering ? { layering: r.layering } : {}),
+      ...(r.scatter_gather ? { scatter_gather: r.scatter_gather } : {}),
+      ...(r.round_trip ? { round_trip: r.round_trip } : {}),
+      ...(r.structure ? { structure: r.structure } : {}),
+    })),
+  };
+}
+
+// RFC 4180: quote fields containing a delimiter, quote or line break
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: (string | number)[][]): string {
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+/** One row per suspicious account, highest score first; lists are `;`-separated. */
+export function suspiciousEntitiesCsv(data: GraphAnalysisResult): string {
+  const ringOf = new Map<string, string>();
+  for (const ring of data.rings) {
+    for (const id of ring.nodes) if (!ringOf.has(id)) ringOf.set(id, ring.id);
+  }
+  const nodes = [...data.suspicious_nodes].sort((a, b) => b.score.total - a.score.total);
+  return toCsv(
+    ['account_id', 'suspicion_score', 'risk_level', 'structural', 'behavioral', 'network', 'ring_id', 'patterns', 'risk_factors'],
+    nodes.map(n => [
+      n.id,
+      n.score.total.toFixed(2),
+      getRiskLevel(n.score.total),
+      n.score.structural,
+      n.score.behavioral,
+      n.score.network,
+      ringOf.get(n.id) ?? '',
+      (n.score.details?.patterns || []).join(';'),
+      (n.score.details?.risk_factors || []).join(';'),
+    ])
+  );
+}
+
+/** One row per fraud ring; structure columns are blank for rings saved without one. */
+export function ringsCsv(data: GraphAnalysisResult): string {
+  return toCsv(
+    ['ring_id', 'risk_score', 'member_count', 'patterns', 'shape', 'total_value', 'tx_count', 'span_hours', 'members'],
+    data.rings.map(r => [
+      r.id,
+      r.risk_score.toFixed(2),
+      r.nodes.length,
+      r.patterns.join(';'),
+      r.structure?.shape ?? '',
+      r.structure?.total_value ?? '',
+      r.structure?.tx_count ?? '',
+      r.structure?.span_hours ?? '',
+      r.nodes.join(';'),
+    ])
+  );
+}
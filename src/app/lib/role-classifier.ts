@@ -12,6 +12,8 @@ export type AccountRole =
   | 'smurfing_hub'
   | 'distribution_hub'
   | 'layering_node'
+  | 'burner_mule'
+  | 'reactivated_dormant'
   | 'balance_manipulator'
   | 'unknown';
 
@@ -41,6 +43,28 @@ export function classifyAccountRole(patterns: string[]): RoleClassification {
     };
   }
 
+  // Burner mule - opened, funded, cashed out, abandoned
+  if (patterns.includes('mule_lifecycle')) {
+    return {
+      primary: 'burner_mule',
+      label: 'Burner Mule',
+      description: 'New account that received funds, cashed them out quickly and then went silent',
+      confidence: 'high',
+      patterns: patterns.filter(p => p === 'mule_lifecycle' || p === 'rapid_pass_through')
+    };
+  }
+
+  // Scatter-gather intermediary - receives a split from one source, forwards to a shared sink
+  if (patterns.includes('scatter_gather_mule')) {
+    return {
+      primary: 'mule_operator',
+      label: 'Suspected Mule',
+      description: 'Receives a share of split funds and forwards it to the same collection account as other mules',
+      confidence: 'high',
+      patterns: patterns.filter(p => p === 'scatter_gather_mule')
+    };
+  }
+
   // Shell Account - High flow-through, low connections
   if (patterns.includes('shell_account') || patterns.includes('shell')) {
     return {
@@ -85,6 +109,28 @@ export function classifyAccountRole(patterns: string[]): RoleClassification {
     };
   }
 
+  // Layering Path - Forwards received funds down a multi-hop chain
+  if (patterns.includes('layering')) {
+    return {
+      primary: 'layering_node',
+      label: 'Layering Node',
+      description: 'Forwards received funds onward within hours, keeping only a small skim',
+      confidence: 'high',
+      patterns: patterns.filter(p => p === 'layering')
+    };
+  }
+
+  // Reactivated Dormant Account - long silence, then funds in and straight out
+  if (patterns.includes('dormant_reactivation')) {
+    return {
+      primary: 'reactivated_dormant',
+      label: 'Reactivated Dormant Account',
+      description: 'Dormant account that suddenly received and moved funds — possible takeover or sold account',
+      confidence: 'medium',
+      patterns: patterns.filter(p => p === 'dormant_reactivation')
+    };
+  }
+
   // Mule Operator - Combination of high velocity and multiple counterparties
   if (patterns.includes('high_velocity') && patterns.includes('high_counterparty_count')) {
     return {
@@ -165,6 +211,18 @@ export function getRoleBadgeColor(role: AccountRole): {
         text: 'text-pink-300',
         border: 'border-pink-900/40'
       };
+    case 'burner_mule':
+      return {
+        bg: 'bg-rose-950/30',
+        text: 'text-rose-300',
+        border: 'border-rose-900/40'
+      };
+    case 'reactivated_dormant':
+      return {
+        bg: 'bg-amber-950/30',
+        text: 'text-amber-300',
+        border: 'border-amber-900/40'
+      };
     default:
       return {
         bg: 'bg-slate-950/30',
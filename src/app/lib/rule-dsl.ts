@@ -0,0 +1,673 @@
+/**
+ * Custom Detection Rules — a small declarative rule language
+ *
+ * Compliance teams write bespoke rules in Settings; each rule is evaluated
+ * per account over that account's transactions and, when it matches, adds
+ * points to one score component under a named pattern, like a built-in
+ * detector. Example:
+ *
+ *   # Many cash-ins from distinct senders, then a single transfer out
+ *   rule cash_in_funnel "Cash-in funnel" {
+ *     score behavioral 15
+ *     when distinct(in where type = CASH_IN) > 20 within 24h
+ *     then count(out where type = TRANSFER) = 1 within 24h
+ *   }
+ *
+ * Clauses
+ *   score <structural|behavioral|network> <points>   required
+ *   pattern <name>                                    default: the rule id
+ *   risk "<text>"                                     risk factor shown to analysts
+ *   when <condition> [within <duration>]              required, first stage
+ *   then <condition> within <duration>                further stages, in order
+ *
+ * Stages: `when … within D` holds if some window [t, t + D] starting at one of
+ * the account's transactions satisfies the condition (without `within`, the
+ * whole history is used). Each `then` stage is checked over the D after the
+ * last transaction the previous stage counted.
+ *
+ * Conditions combine comparisons with and / or / not and parentheses.
+ * Operands are numbers, + - * /, account metrics (node.degree …) and
+ * aggregates over the window's transactions:
+ *
+ *   count(scope)  sum(scope)  avg(scope)  min(scope)  max(scope)
+ *   distinct(scope)  — distinct counterparties
+ *
+ * where scope is `in`, `out` or `all`, optionally filtered: `in where <filter>`.
+ * Filters see one transaction: amount, type, hour (UTC hour of day), peer
+ * (counterparty id) and the counterparty's metrics (peer.degree …). Strings
+ * compare with = / != / in (…); bare upper-case words such as CASH_IN are
+ * string literals. Durations take m, h or d. Comments start with # or //.
+ */
+
+import type { NodeData } from './types';
+import type { ScoreComponent } from './detectors/types';
+
+// ── Public types ─────────────────────────────────────────────────────────────
+
+export interface RuleSyntaxError {
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface RuleStage {
+  condition: Expr;
+  windowMs?: number;
+  /** Source text of the clause, quoted in evidence notes */
+  text: string;
+}
+
+export interface CustomRule {
+  id: string;
+  label: string;
+  component: ScoreComponent;
+  points: number;
+  pattern: string;
+  risk?: string;
+  stages: RuleStage[];
+  line: number;
+}
+
+/** One transaction as seen from the account the rule is evaluated for. */
+export interface RuleEvent {
+  dir: 'in' | 'out';
+  peer: string;
+  amount: number;
+  ts: number;
+  txId: string;
+  type?: string;
+}
+
+export interface RuleMatch {
+  /** Transactions counted by the rule's aggregates, across all stages */
+  tx_ids: string[];
+}
+
+export const NODE_METRICS = {
+  degree:         'total_degree',
+  in_degree:      'in_degree',
+  out_degree:     'out_degree',
+  active_days:    'active_days',
+  counterparties: 'unique_counterparties',
+  velocity:       'velocity',
+  flow_through:   'flow_through',
+} as const satisfies Record<string, keyof NodeData>;
+
+export type NodeMetric = keyof typeof NODE_METRICS;
+
+// ── AST ──────────────────────────────────────────────────────────────────────
+
+type Aggregate = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'distinct';
+type Scope = 'in' | 'out' | 'all';
+type CmpOp = '=' | '!=' | '<' | '<=' | '>' | '>=';
+type ValueType = 'num' | 'str' | 'bool';
+
+export type Expr =
+  | { kind: 'num'; value: number }
+  | { kind: 'str'; value: string }
+  | { kind: 'tx'; field: 'amount' | 'type' | 'hour' | 'peer' }
+  | { kind: 'metric'; of: 'node' | 'peer'; metric: NodeMetric }
+  | { kind: 'agg'; fn: Aggregate; scope: Scope; filter?: Expr }
+  | { kind: 'arith'; op: '+' | '-' | '*' | '/'; left: Expr; right: Expr }
+  | { kind: 'cmp'; op: CmpOp; left: Expr; right: Expr }
+  | { kind: 'in'; left: Expr; values: (string | number)[] }
+  | { kind: 'and' | 'or'; left: Expr; right: Expr }
+  | { kind: 'not'; expr: Expr };
+
+// ── Lexer ────────────────────────────────────────────────────────────────────
+
+interface Token {
+  kind: 'ident' | 'number' | 'duration' | 'string' | 'punct' | 'eof';
+  text: string;
+  value: number;
+  line: number;
+  column: number;
+  offset: number;
+  end: number;
+}
+
+class SyntaxFailure extends Error {
+  constructor(readonly line: number, readonly column: number, message: string) {
+    super(message);
+  }
+}
+
+const DURATION_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+const NUMBER_RE = /(\d[\d_]*(?:\.\d+)?)([a-zA-Z_]\w*)?/y;
+const WORD_RE = /[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)?/y;
+const PUNCT = ['<=', '>=', '!=', '==', '{', '}', '(', ')', ',', '=', '<', '>', '+', '-', '*', '/'];
+
+/** Splits source into tokens. Lexical errors are recorded and the offending text skipped. */
+function tokenize(source: string, errors: RuleSyntaxError[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0, line = 1, lineStart = 0;
+  const at = (offset: number) => ({ line, column: offset - lineStart + 1, offset });
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '\n') { line++; i++; lineStart = i; continue; }
+    if (/\s/.test(ch) || ch === ';') { i++; continue; }
+    if (ch === '#' || source.startsWith('//', i)) {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+
+    const pos = at(i);
+    if (ch === '"') {
+      const close = source.indexOf('"', i + 1);
+      const nl = source.indexOf('\n', i + 1);
+      if (close < 0 || (nl >= 0 && nl < close)) {
+        errors.push({ line: pos.line, column: pos.column, message: 'Unterminated string' });
+        i = nl < 0 ? source.length : nl;
+        continue;
+      }
+      tokens.push({ kind: 'string', text: source.slice(i + 1, close), value: 0, ...pos, end: close + 1 });
+      i = close + 1;
+      continue;
+    }
+    NUMBER_RE.lastIndex = i;
+    const num = NUMBER_RE.exec(source);
+    if (num) {
+      const value = Number(num[1].replace(/_/g, ''));
+      const unit = num[2];
+      if (unit && !(unit in DURATION_MS)) errors.push({ line: pos.line, column: pos.column, message: `Unknown duration unit '${unit}' (use m, h or d)` });
+      tokens.push(unit && unit in DURATION_MS
+        ? { kind: 'duration', text: num[0], value: value * DURATION_MS[unit], ...pos, end: i + num[0].length }
+        : { kind: 'number', text: num[0], value, ...pos, end: i + num[0].length });
+      i += num[0].length;
+      continue;
+    }
+    WORD_RE.lastIndex = i;
+    const word = WORD_RE.exec(source);
+    if (word) {
+      tokens.push({ kind: 'ident', text: word[0], value: 0, ...pos, end: i + word[0].length });
+      i += word[0].length;
+      continue;
+    }
+    const punct = PUNCT.find(p => source.startsWith(p, i));
+    if (!punct) {
+      errors.push({ line: pos.line, column: pos.column, message: `Unexpected character '${ch}'` });
+      i++;
+      continue;
+    }
+    tokens.push({ kind: 'punct', text: punct, value: 0, ...pos, end: i + punct.length });
+    i += punct.length;
+  }
+
+  tokens.push({ kind: 'eof', text: 'end of input', value: 0, ...at(i), end: i });
+  return tokens;
+}
+
+// ── Parser ───────────────────────────────────────────────────────────────────
+
+const COMPONENTS: ScoreComponent[] = ['structural', 'behavioral', 'network'];
+const AGGREGATES: Aggregate[] = ['count', 'sum', 'avg', 'min', 'max', 'distinct'];
+const SCOPES: Scope[] = ['in', 'out', 'all'];
+const CMP_OPS = ['=', '==', '!=', '<', '<=', '>', '>='];
+const RESERVED = new Set(['and', 'or', 'not', 'in', 'where', 'within', 'then', 'when', 'score', 'pattern', 'risk', 'rule']);
+
+type Context = 'stage' | 'filter';
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+  get done(): boolean {
+    return this.peek().kind === 'eof';
+  }
+
+  peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos];
+    if (token.kind !== 'eof') this.pos++;
+    return token;
+  }
+
+  private fail(token: Token, message: string): never {
+    throw new SyntaxFailure(token.line, token.column, message);
+  }
+
+  private isWord(text: string): boolean {
+    const t = this.peek();
+    return t.kind === 'ident' && t.text === text;
+  }
+
+  private isPunct(text: string): boolean {
+    const t = this.peek();
+    return t.kind === 'punct' && t.text === text;
+  }
+
+  private expectPunct(text: string): Token {
+    if (!this.isPunct(text)) this.fail(this.peek(), `Expected '${text}' but found '${this.peek().text}'`);
+    return this.next();
+  }
+
+  private expectWord(text: string): Token {
+    if (!this.isWord(text)) this.fail(this.peek(), `Expected '${text}' but found '${this.peek().text}'`);
+    return this.next();
+  }
+
+  private expectIdent(what: string): Token {
+    const t = this.peek();
+    if (t.kind !== 'ident' || t.text.includes('.') || RESERVED.has(t.text)) this.fail(t, `Expected ${what} but found '${t.text}'`);
+    return this.next();
+  }
+
+  /** Skips to the next top-level `rule` keyword after an error. */
+  recover(): void {
+    while (!this.done) {
+      this.next();
+      if (this.isWord('rule')) return;
+    }
+  }
+
+  parseRule(): CustomRule {
+    const start = this.expectWord('rule');
+    const id = this.expectIdent('a rule id').text;
+    const label = this.peek().kind === 'string' ? this.next().text : id;
+    this.expectPunct('{');
+
+    let score: { component: ScoreComponent; points: number } | undefined;
+    let pattern: string | undefined;
+    let risk: string | undefined;
+    const stages: RuleStage[] = [];
+
+    while (!this.isPunct('}')) {
+      const clause = this.next();
+      if (clause.kind !== 'ident') this.fail(clause, `Expected a clause (score, pattern, risk, when, then) but found '${clause.text}'`);
+      switch (clause.text) {
+        case 'score': {
+          const component = this.expectIdent('a score component').text as ScoreComponent;
+          if (!COMPONENTS.includes(component)) this.fail(this.tokens[this.pos - 1], `Score component must be one of ${COMPONENTS.join(', ')}`);
+          const negative = this.isPunct('-') && !!this.next();
+          const t = this.next();
+          if (t.kind !== 'number') this.fail(t, 'Expected the number of points');
+          const points = negative ? -t.value : t.value;
+          if (points === 0 || Math.abs(points) > 100) this.fail(t, 'Points must be non-zero and between -100 and 100');
+          score = { component, points };
+          break;
+        }
+        case 'pattern':
+          pattern = this.expectIdent('a pattern name').text;
+          break;
+        case 'risk': {
+          const t = this.next();
+          if (t.kind !== 'string') this.fail(t, 'Expected a quoted risk description');
+          risk = t.text;
+          break;
+        }
+        case 'when':
+        case 'then': {
+          if (clause.text === 'when' && stages.length) this.fail(clause, "Only one 'when' clause is allowed — use 'then' for later stages");
+          if (clause.text === 'then' && !stages.length) this.fail(clause, "'then' must follow a 'when' clause");
+          const condition = this.parseCondition('stage');
+          let windowMs: number | undefined;
+          if (this.isWord('within')) {
+            this.next();
+            const t = this.next();
+            if (t.kind !== 'duration' || t.value <= 0) this.fail(t, 'Expected a duration such as 30m, 24h or 7d');
+            windowMs = t.value;
+          } else if (clause.text === 'then') {
+            this.fail(this.peek(), "'then' needs a window, e.g. 'within 24h'");
+          }
+          stages.push({ condition, windowMs, text: this.source.slice(clause.offset, this.tokens[this.pos - 1].end) });
+          break;
+        }
+        default:
+          this.fail(clause, `Unknown clause '${clause.text}' (expected score, pattern, risk, when or then)`);
+      }
+    }
+    const close = this.expectPunct('}');
+
+    if (!score) this.fail(close, `Rule '${id}' needs a 'score' clause`);
+    if (!stages.length) this.fail(close, `Rule '${id}' needs a 'when' clause`);
+    return { id, label, ...score, pattern: pattern ?? id, risk, stages, line: start.line };
+  }
+
+  private parseCondition(ctx: Context): Expr {
+    const t = this.peek();
+    const expr = this.parseOr(ctx);
+    if (typeOf(expr) !== 'bool') this.fail(t, 'Expected a condition (a comparison such as count(in) > 5)');
+    return expr;
+  }
+
+  private parseOr(ctx: Context): Expr {
+    let left = this.parseAnd(ctx);
+    while (this.isWord('or')) {
+      const op = this.next();
+      const right = this.parseAnd(ctx);
+      this.requireBool(op, left, right);
+      left = { kind: 'or', left, right };
+    }
+    return left;
+  }
+
+  private parseAnd(ctx: Context): Expr {
+    let left = this.parseNot(ctx);
+    while (this.isWord('and')) {
+      const op = this.next();
+      const right = this.parseNot(ctx);
+      this.requireBool(op, left, right);
+      left = { kind: 'and', left, right };
+    }
+    return left;
+  }
+
+  private parseNot(ctx: Context): Expr {
+    if (!this.isWord('not')) return this.parseComparison(ctx);
+    const op = this.next();
+    const expr = this.parseNot(ctx);
+    this.requireBool(op, expr);
+    return { kind: 'not', expr };
+  }
+
+  private parseComparison(ctx: Context): Expr {
+    const left = this.parseAdditive(ctx);
+    const t = this.peek();
+    if (t.kind === 'punct' && CMP_OPS.includes(t.text)) {
+      this.next();
+      const right = this.parseAdditive(ctx);
+      const lt = typeOf(left), rt = typeOf(right);
+      if (lt === 'bool' || rt === 'bool') this.fail(t, 'Conditions cannot be compared — combine them with and / or');
+      if (lt !== rt) this.fail(t, `Cannot compare ${lt === 'num' ? 'a number' : 'text'} with ${rt === 'num' ? 'a number' : 'text'}`);
+      const op = (t.text === '==' ? '=' : t.text) as CmpOp;
+      if (lt === 'str' && op !== '=' && op !== '!=') this.fail(t, 'Text can only be compared with = or !=');
+      return { kind: 'cmp', op, left, right };
+    }
+    if (this.isWord('in')) {
+      this.next();
+      if (typeOf(left) === 'bool') this.fail(t, "'in' needs a value on its left");
+      this.expectPunct('(');
+      const values: (string | number)[] = [];
+      do {
+        const v = this.next();
+        if (v.kind === 'number') values.push(v.value);
+        else if (v.kind === 'string' || (v.kind === 'ident' && isBareLiteral(v.text))) values.push(v.text);
+        else this.fail(v, 'Expected a number or text value');
+        if ((typeof values[values.length - 1] === 'number') !== (typeOf(left) === 'num')) this.fail(v, 'List values must match the type of the left-hand side');
+      } while (this.isPunct(',') && this.next());
+      this.expectPunct(')');
+      return { kind: 'in', left, values };
+    }
+    return left;
+  }
+
+  private parseAdditive(ctx: Context): Expr {
+    let left = this.parseMultiplicative(ctx);
+    while (this.isPunct('+') || this.isPunct('-')) {
+      const op = this.next();
+      const right = this.parseMultiplicative(ctx);
+      this.requireNum(op, left, right);
+      left = { kind: 'arith', op: op.text as '+' | '-', left, right };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(ctx: Context): Expr {
+    let left = this.parseUnary(ctx);
+    while (this.isPunct('*') || this.isPunct('/')) {
+      const op = this.next();
+      const right = this.parseUnary(ctx);
+      this.requireNum(op, left, right);
+      left = { kind: 'arith', op: op.text as '*' | '/', left, right };
+    }
+    return left;
+  }
+
+  private parseUnary(ctx: Context): Expr {
+    if (!this.isPunct('-')) return this.parsePrimary(ctx);
+    const op = this.next();
+    const expr = this.parseUnary(ctx);
+    this.requireNum(op, expr);
+    return { kind: 'arith', op: '-', left: { kind: 'num', value: 0 }, right: expr };
+  }
+
+  private parsePrimary(ctx: Context): Expr {
+    const t = this.next();
+    switch (t.kind) {
+      case 'number':   return { kind: 'num', value: t.value };
+      case 'string':   return { kind: 'str', value: t.text };
+      case 'duration': this.fail(t, 'Durations are only allowed after within');
+      case 'eof':      this.fail(t, 'Unexpected end of input — expected a value');
+      case 'punct': {
+        if (t.text !== '(') this.fail(t, `Unexpected '${t.text}'`);
+        const expr = this.parseOr(ctx);
+        this.expectPunct(')');
+        return expr;
+      }
+    }
+
+    const name = t.text;
+    if ((AGGREGATES as string[]).includes(name) && this.isPunct('(')) {
+      if (ctx === 'filter') this.fail(t, 'Aggregates cannot be used inside a where filter');
+      this.next();
+      const scope = this.next();
+      if (!(SCOPES as string[]).includes(scope.text)) this.fail(scope, `Expected in, out or all but found '${scope.text}'`);
+      let filter: Expr | undefined;
+      if (this.isWord('where')) {
+        this.next();
+        filter = this.parseCondition('filter');
+      }
+      this.expectPunct(')');
+      return { kind: 'agg', fn: name as Aggregate, scope: scope.text as Scope, filter };
+    }
+    if (name.startsWith('node.') || name.startsWith('peer.')) {
+      const [of, metric] = name.split('.') as ['node' | 'peer', string];
+      if (!(metric in NODE_METRICS)) this.fail(t, `Unknown metric '${metric}' (use ${Object.keys(NODE_METRICS).join(', ')})`);
+      if (of === 'node' && ctx === 'filter') this.fail(t, 'node.* metrics belong outside the where filter — use peer.* for the counterparty');
+      if (of === 'peer' && ctx === 'stage') this.fail(t, 'peer.* metrics are only available inside a where filter');
+      return { kind: 'metric', of, metric: metric as NodeMetric };
+    }
+    if (name === 'amount' || name === 'type' || name === 'hour' || name === 'peer') {
+      if (ctx === 'stage') this.fail(t, `'${name}' describes one transaction — use it inside a where filter, e.g. count(in where ${name} …)`);
+      return { kind: 'tx', field: name };
+    }
+    if (isBareLiteral(name)) return { kind: 'str', value: name };
+    this.fail(t, `Unknown name '${name}'`);
+  }
+
+  private requireBool(op: Token, ...exprs: Expr[]): void {
+    if (exprs.some(e => typeOf(e) !== 'bool')) this.fail(op, `'${op.text}' combines conditions, not values`);
+  }
+
+  private requireNum(op: Token, ...exprs: Expr[]): void {
+    if (exprs.some(e => typeOf(e) !== 'num')) this.fail(op, `'${op.text}' needs numbers on both sides`);
+  }
+}
+
+/** Upper-case words (CASH_IN, TRANSFER …) stand for themselves. */
+function isBareLiteral(word: string): boolean {
+  return /^[A-Z][A-Z0-9_]*$/.test(word);
+}
+
+function typeOf(expr: Expr): ValueType {
+  switch (expr.kind) {
+    case 'num': case 'metric': case 'agg': case 'arith': return 'num';
+    case 'str': return 'str';
+    case 'tx':  return expr.field === 'type' || expr.field === 'peer' ? 'str' : 'num';
+    default:    return 'bool';
+  }
+}
+
+/**
+ * Parses rule source. Rules with errors are left out of `rules`; parsing
+ * resumes at the next rule so every broken rule is reported at once.
+ */
+export function parseRules(source: string): { rules: CustomRule[]; errors: RuleSyntaxError[] } {
+  const rules: CustomRule[] = [];
+  const errors: RuleSyntaxError[] = [];
+  const parser = new Parser(tokenize(source, errors), source);
+  const seen = new Set<string>();
+  while (!parser.done) {
+    try {
+      const rule = parser.parseRule();
+      if (seen.has(rule.id)) {
+        errors.push({ line: rule.line, column: 1, message: `Duplicate rule id '${rule.id}'` });
+      } else {
+        seen.add(rule.id);
+        rules.push(rule);
+      }
+    } catch (err) {
+      if (!(err instanceof SyntaxFailure)) throw err;
+      errors.push({ line: err.line, column: err.column, message: err.message });
+      parser.recover();
+    }
+  }
+  errors.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { rules, errors };
+}
+
+// ── Evaluation ───────────────────────────────────────────────────────────────
+
+interface StageEnv {
+  events: RuleEvent[];
+  lo: number;
+  hi: number;
+  /** Indices of transactions counted by any aggregate */
+  matched: Set<number>;
+  metric(account: string | null, metric: NodeMetric): number;
+  /** Transactions scanned so far; windows stop being tried once `limit` is passed */
+  cost: { scanned: number; limit: number };
+}
+
+function evalFilter(expr: Expr, ev: RuleEvent, env: StageEnv): number | string | boolean {
+  switch (expr.kind) {
+    case 'num':    return expr.value;
+    case 'str':    return expr.value;
+    case 'tx':
+      if (expr.field === 'amount') return ev.amount;
+      if (expr.field === 'hour')   return new Date(ev.ts).getUTCHours();
+      if (expr.field === 'type')   return ev.type ?? '';
+      return ev.peer;
+    case 'metric': return env.metric(ev.peer, expr.metric);
+    default:       return evalShared(expr, e => evalFilter(e, ev, env));
+  }
+}
+
+function evalStage(expr: Expr, env: StageEnv): number | string | boolean {
+  switch (expr.kind) {
+    case 'num':    return expr.value;
+    case 'str':    return expr.value;
+    case 'metric': return env.metric(null, expr.metric);
+    case 'agg':    return aggregate(expr, env);
+    default:       return evalShared(expr, e => evalStage(e, env));
+  }
+}
+
+function evalShared(expr: Expr, evaluate: (e: Expr) => number | string | boolean): number | string | boolean {
+  switch (expr.kind) {
+    case 'arith': {
+      const a = evaluate(expr.left) as number, b = evaluate(expr.right) as number;
+      if (expr.op === '+') return a + b;
+      if (expr.op === '-') return a - b;
+      if (expr.op === '*') return a * b;
+      return b === 0 ? 0 : a / b;
+    }
+    case 'cmp': return compare(expr.op, evaluate(expr.left), evaluate(expr.right));
+    case 'in':  return expr.values.includes(evaluate(expr.left) as string | number);
+    case 'and': return !!evaluate(expr.left) && !!evaluate(expr.right);
+    case 'or':  return !!evaluate(expr.left) || !!evaluate(expr.right);
+    case 'not': return !evaluate(expr.expr);
+    default:    throw new Error(`Unexpected expression '${expr.kind}'`);
+  }
+}
+
+function compare(op: CmpOp, a: number | string | boolean, b: number | string | boolean): boolean {
+  switch (op) {
+    case '=':  return a === b;
+    case '!=': return a !== b;
+    case '<':  return a < b;
+    case '<=': return a <= b;
+    case '>':  return a > b;
+    case '>=': return a >= b;
+  }
+}
+
+function aggregate(expr: Extract<Expr, { kind: 'agg' }>, env: StageEnv): number {
+  let count = 0, sum = 0, min = Infinity, max = -Infinity;
+  const peers = new Set<string>();
+  for (let i = env.lo; i < env.hi; i++) {
+    const ev = env.events[i];
+    if (expr.scope !== 'all' && ev.dir !== expr.scope) continue;
+    if (expr.filter && !evalFilter(expr.filter, ev, env)) continue;
+    env.matched.add(i);
+    count++;
+    sum += ev.amount;
+    if (ev.amount < min) min = ev.amount;
+    if (ev.amount > max) max = ev.amount;
+    peers.add(ev.peer);
+  }
+  env.cost.scanned += env.hi - env.lo;
+
+  switch (expr.fn) {
+    case 'count':    return count;
+    case 'sum':      return sum;
+    case 'avg':      return count ? sum / count : 0;
+    case 'min':      return count ? min : 0;
+    case 'max':      return count ? max : 0;
+    case 'distinct': return peers.size;
+  }
+}
+
+/** First index in `events` (sorted by ts) with ts > `after`. */
+function firstAfter(events: RuleEvent[], after: number, from: number): number {
+  let i = from;
+  while (i < events.length && events[i].ts <= after) i++;
+  return i;
+}
+
+/**
+ * Evaluates `rule` for one account. `events` are the account's transactions
+ * sorted by timestamp; `metric(null, m)` reads the account itself and
+ * `metric(peer, m)` a counterparty. Returns the counted transactions on a
+ * match, null otherwise. `cost.scanned` accumulates the work done across
+ * calls; once it passes `cost.limit` no further windows are tried.
+ */
+export function matchRule(
+  rule: CustomRule,
+  events: RuleEvent[],
+  metric: StageEnv['metric'],
+  cost: StageEnv['cost'],
+): RuleMatch | null {
+  const [first, ...rest] = rule.stages;
+
+  // Stages after the first run from where the previous stage's evidence ends
+  const followOn = (prevEnd: number, matched: Set<number>): boolean => {
+    let end = prevEnd;
+    for (const stage of rest) {
+      const lo = firstAfter(events, end, 0);
+      const hi = firstAfter(events, end + stage.windowMs!, lo);
+      const stageMatched = new Set<number>();
+      if (!evalStage(stage.condition, { events, lo, hi, matched: stageMatched, metric, cost })) return false;
+      stageMatched.forEach(i => matched.add(i));
+      end = stageMatched.size ? Math.max(...Array.from(stageMatched, i => events[i].ts)) : end + stage.windowMs!;
+    }
+    return true;
+  };
+
+  const tryWindow = (lo: number, hi: number): RuleMatch | null => {
+    const matched = new Set<number>();
+    if (!evalStage(first.condition, { events, lo, hi, matched, metric, cost })) return null;
+    const end = matched.size
+      ? Math.max(...Array.from(matched, i => events[i].ts))
+      : (hi > lo ? events[hi - 1].ts : -Infinity);
+    if (!followOn(end, matched)) return null;
+    return { tx_ids: Array.from(matched).sort((a, b) => a - b).map(i => events[i].txId) };
+  };
+
+  if (first.windowMs === undefined) return tryWindow(0, events.length);
+
+  let hi = 0;
+  for (let lo = 0; lo < events.length && cost.scanned <= cost.limit; lo++) {
+    if (lo > 0 && events[lo].ts === events[lo - 1].ts) continue; // same window start
+    hi = firstAfter(events, events[lo].ts + first.windowMs, Math.max(hi, lo));
+    const match = tryWindow(lo, hi);
+    if (match) return match;
+  }
+  // Conditions that can hold over an empty window (e.g. count(in) = 0)
+  return events.length ? null : tryWindow(0, 0);
+}
@@ -0,0 +1,359 @@
+/**
+ * Scoring Rulesets
+ *
+ * A ruleset is the complete set of numbers the detectors score with: signal
+ * weights and component caps (SCORES), detector thresholds (THRESHOLDS) and
+ * ring risk formulas (RING_FORMULAS). The built-in default mirrors the
+ * compiled constants; analysts clone it, edit the copy in Settings and
+ * activate it for new scans.
+ *
+ * Every analysis carries a snapshot of the ruleset that produced it plus a
+ * checksum over its parameters, alongside the run's other settings
+ * (`run_settings`: jurisdiction, dormancy, detectors, custom rules, taint),
+ * so a result can be reproduced later and two runs can be shown to have used
+ * identical rules.
+ *
+ * Versioning: a clone starts at the next minor version of its parent and each
+ * saved edit bumps the patch version. The built-in ruleset is read-only.
+ * Parameters added to the app after a ruleset was saved are filled in with
+ * their default values when it is loaded.
+ *
+ * Storage layout (localStorage):
+ *   muleguard_rulesets        → Ruleset[]  (custom rulesets only)
+ *   muleguard_active_ruleset  → ruleset id (absent → built-in default)
+ */
+
+import { SCORES, THRESHOLDS, RING_FORMULAS, Scores, Thresholds, RingFormulas } from './detectors';
+
+// ── Public types ─────────────────────────────────────────────────────────────
+
+export interface Ruleset {
+  id: string;
+  name: string;
+  version: string;          // semver, e.g. 1.2.0
+  description?: string;
+  parent_id?: string;       // ruleset this one was cloned from
+  builtin?: boolean;        // shipped with the app — cannot be edited or deleted
+  created_at: string;
+  updated_at: string;
+  scores: Scores;
+  thresholds: Thresholds;
+  ring_formulas: RingFormulas;
+}
+
+/** The ruleset snapshot stored with an analysis result. */
+export interface AppliedRuleset extends Ruleset {
+  checksum: string;
+}
+
+export interface RulesetChange {
+  path: string;
+  before: number | undefined;
+  after: number | undefined;
+}
+
+export interface RulesetValidation {
+  ruleset?: Ruleset;
+  errors: string[];
+}
+
+export const DEFAULT_RULESET: Ruleset = {
+  id:          'default',
+  name:        'MuleGuard Default',
+  version:     '1.0.0',
+  description: 'Built-in weights and thresholds (PaySim-calibrated).',
+  builtin:     true,
+  created_at:  '2025-01-01T00:00:00.000Z',
+  updated_at:  '2025-01-01T00:00:00.000Z',
+  scores:        SCORES,
+  thresholds:    THRESHOLDS,
+  ring_formulas: RING_FORMULAS,
+};
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+const SEMVER = /^\d+\.\d+\.\d+$/;
+
+// Ratios, shares and quantiles — meaningless outside 0–1
+const UNIT_INTERVAL_THRESHOLDS: (keyof Thresholds)[] = [
+  'LAYERING_HOP_SKIM', 'LAYERING_MAX_SKIM', 'ROUND_TRIP_AMOUNT_TOLERANCE',
+  'SMURFING_BURST_RATIO', 'SMURFING_DIVERSITY_RATIO', 'LEGIT_MAX_BURST_RATIO',
+  'BALANCE_ANOMALY_RATIO', 'HIGH_RISK_TX_RATIO', 'ACCOUNT_DRAIN_RATIO', 'ZERO_DEST_RATIO',
+  'STRUCTURING_BAND_PCT', 'REACTIVATION_FORWARD_RATIO', 'MULE_CASHOUT_RATIO',
+  'AMOUNT_SIMILARITY_PCT', 'TIME_CONCENTRATION_GINI', 'UNIFORM_AMOUNT_CV',
+  'CENTRALITY_QUANTILE', 'HITS_QUANTILE', 'COMMUNITY_MIN_SUSPICIOUS_SHARE', 'TAINT_MIN_SHARE',
+];
+
+// Objects whose keys are data (cycle length → bonus), not part of the schema
+const OPEN_MAPS = new Set(['ring_formulas.cycle.length_bonus']);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Checks `value` has exactly the shape of `template`, with a finite number at every leaf. */
+function checkShape(value: unknown, template: Record<string, unknown>, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (OPEN_MAPS.has(path)) {
+    for (const [key, v] of Object.entries(value)) {
+      if (!/^\d+$/.test(key)) errors.push(`${path}.${key}: key must be a whole number`);
+      if (typeof v !== 'number' || !Number.isFinite(v)) errors.push(`${path}.${key} must be a finite number`);
+    }
+    return;
+  }
+  for (const key of Object.keys(template)) {
+    const expected = template[key];
+    const actual = value[key];
+    if (actual === undefined) {
+      errors.push(`${path}.${key} is missing`);
+    } else if (isObject(expected)) {
+      checkShape(actual, expected, `${path}.${key}`, errors);
+    } else if (typeof actual !== 'number' || !Number.isFinite(actual)) {
+      errors.push(`${path}.${key} must be a finite number`);
+    }
+  }
+  for (const key of Object.keys(value)) {
+    if (!(key in template)) errors.push(`${path}.${key} is not a known parameter`);
+  }
+}
+
+/** Validates an untrusted ruleset (e.g. edited JSON). Returns it typed when there are no errors. */
+export function validateRuleset(input: unknown): RulesetValidation {
+  const errors: string[] = [];
+  if (!isObject(input)) return { errors: ['Ruleset must be a JSON object'] };
+
+  if (typeof input.id !== 'string' || !input.id.trim()) errors.push('id must be a non-empty string');
+  if (typeof input.name !== 'string' || !input.name.trim()) errors.push('name must be a non-empty string');
+  if (typeof input.version !== 'string' || !SEMVER.test(input.version)) errors.push('version must look like 1.2.3');
+  if (input.description !== undefined && typeof input.description !== 'string') errors.push('description must be a string');
+
+  checkShape(input.scores,        DEFAULT_RULESET.scores,        'scores',        errors);
+  checkShape(input.thresholds,    DEFAULT_RULESET.thresholds,    'thresholds',    errors);
+  checkShape(input.ring_formulas, DEFAULT_RULESET.ring_formulas, 'ring_formulas', errors);
+  if (errors.length) return { errors };
+
+  const scores = input.scores as Scores;
+  const thresholds = input.thresholds as Thresholds;
+  const formulas = input.ring_formulas as RingFormulas;
+
+  for (const component of ['STRUCTURAL', 'BEHAVIORAL', 'NETWORK'] as const) {
+    if (scores[component].MAX <= 0) errors.push(`scores.${component}.MAX must be greater than 0`);
+  }
+  for (const [key, v] of Object.entries(thresholds)) {
+    if (v < 0) errors.push(`thresholds.${key} must not be negative`);
+  }
+  for (const key of UNIT_INTERVAL_THRESHOLDS) {
+    if (thresholds[key] > 1) errors.push(`thresholds.${key} must be between 0 and 1`);
+  }
+  if (thresholds.CYCLE_MIN_LEN > thresholds.CYCLE_MAX_LEN) errors.push('thresholds.CYCLE_MIN_LEN must not exceed CYCLE_MAX_LEN');
+  if (thresholds.LAYERING_MIN_HOPS > thresholds.LAYERING_MAX_HOPS) errors.push('thresholds.LAYERING_MIN_HOPS must not exceed LAYERING_MAX_HOPS');
+  if (thresholds.SHELL_TX_MIN > thresholds.SHELL_TX_MAX) errors.push('thresholds.SHELL_TX_MIN must not exceed SHELL_TX_MAX');
+  for (const [ring, formula] of Object.entries(formulas)) {
+    for (const [key, v] of Object.entries(formula)) {
+      if (typeof v === 'number' && v < 0) errors.push(`ring_formulas.${ring}.${key} must not be negative`);
+    }
+  }
+  if (errors.length) return { errors };
+
+  const now = new Date().toISOString();
+  return {
+    errors,
+    ruleset: {
+      id:            input.id as string,
+      name:          input.name as string,
+      version:       input.version as string,
+      description:   input.description as string | undefined,
+      parent_id:     typeof input.parent_id === 'string' ? input.parent_id : undefined,
+      created_at:    typeof input.created_at === 'string' ? input.created_at : now,
+      updated_at:    typeof input.updated_at === 'string' ? input.updated_at : now,
+      scores,
+      thresholds,
+      ring_formulas: formulas,
+    },
+  };
+}
+
+// ── Checksum & diff ──────────────────────────────────────────────────────────
+
+/** JSON with object keys sorted, so equal parameters always serialise identically. */
+function canonicalJson(value: unknown): string {
+  if (!isObject(value)) return JSON.stringify(value);
+  return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${canonicalJson(value[k])}`).join(',')}}`;
+}
+
+/** FNV-1a (32-bit) over the scoring parameters — metadata (name, version, dates) is excluded. */
+export function rulesetChecksum(ruleset: Ruleset): string {
+  const text = canonicalJson({ scores: ruleset.scores, thresholds: ruleset.thresholds, ring_formulas: ruleset.ring_formulas });
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function flatten(value: unknown, path: string, out: Map<string, number>): void {
+  if (isObject(value)) {
+    for (const [key, v] of Object.entries(value)) flatten(v, path ? `${path}.${key}` : key, out);
+  } else if (typeof value === 'number') {
+    out.set(path, value);
+  }
+}
+
+/** Parameter-level differences between two rulesets, in schema order. */
+export function diffRulesets(from: Ruleset, to: Ruleset): RulesetChange[] {
+  const a = new Map<string, number>();
+  const b = new Map<string, number>();
+  for (const section of ['scores', 'thresholds', 'ring_formulas'] as const) {
+    flatten(from[section], section, a);
+    flatten(to[section], section, b);
+  }
+  const changes: RulesetChange[] = [];
+  for (const path of new Set([...a.keys(), ...b.keys()])) {
+    if (a.get(path) !== b.get(path)) changes.push({ path, before: a.get(path), after: b.get(path) });
+  }
+  return changes;
+}
+
+// ── Versioning ───────────────────────────────────────────────────────────────
+
+function bumpVersion(version: string, part: 'minor' | 'patch'): string {
+  const [major, minor, patch] = version.split('.').map(Number);
+  return part === 'minor' ? `${major}.${minor + 1}.0` : `${major}.${minor}.${patch + 1}`;
+}
+
+/** Copy of `source` under a new id, at the next minor version. Not persisted. */
+export function cloneRuleset(source: Ruleset, name = `${source.name} (copy)`): Ruleset {
+  const now = new Date().toISOString();
+  return {
+    ...structuredClone(source),
+    id:         `ruleset_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    name,
+    version:    bumpVersion(source.version, 'minor'),
+    parent_id:  source.id,
+    builtin:    undefined,
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+/** Snapshot stored with an analysis result. */
+export function applyRuleset(ruleset: Ruleset): AppliedRuleset {
+  return { ...structuredClone(ruleset), checksum: rulesetChecksum(ruleset) };
+}
+
+// ── Storage ──────────────────────────────────────────────────────────────────
+
+const STORE_KEY  = 'muleguard_rulesets';
+const ACTIVE_KEY = 'muleguard_active_ruleset';
+
+/** Copy of `value` with parameters missing from it (added since it was saved) taken from `template`. */
+function withDefaults(value: unknown, template: Record<string, unknown>, path: string): unknown {
+  if (!isObject(value) || OPEN_MAPS.has(path)) return value;
+  const filled: Record<string, unknown> = { ...value };
+  for (const [key, expected] of Object.entries(template)) {
+    if (filled[key] === undefined) filled[key] = structuredClone(expected);
+    else if (isObject(expected)) filled[key] = withDefaults(filled[key], expected, `${path}.${key}`);
+  }
+  return filled;
+}
+
+/**
+ * Validates a ruleset saved by this or an older version of the app (stored,
+ * exported with a result, or read from a file), filling in parameters added
+ * since it was saved.
+ */
+export function loadRuleset(input: unknown): RulesetValidation {
+  return validateRuleset(isObject(input) ? {
+    ...input,
+    scores:        withDefaults(input.scores,        SCORES,        'scores'),
+    thresholds:    withDefaults(input.thresholds,    THRESHOLDS,    'thresholds'),
+    ring_formulas: withDefaults(input.ring_formulas, RING_FORMULAS, 'ring_formulas'),
+  } : input);
+}
+
+function readCustom(): Ruleset[] {
+  try {
+    const raw = localStorage.getItem(STORE_KEY);
+    const stored: unknown[] = raw ? JSON.parse(raw) : [];
+    const rulesets: Ruleset[] = [];
+    for (const item of stored) {
+      const { ruleset, errors } = loadRuleset(item);
+      if (ruleset) rulesets.push(ruleset);
+      else console.warn('Skipping invalid stored ruleset:', errors);
+    }
+    return rulesets;
+  } catch {
+    return [];
+  }
+}
+
+function writeCustom(rulesets: Ruleset[]): void {
+  localStorage.setItem(STORE_KEY, JSON.stringify(rulesets));
+}
+
+/** Built-in default first, then custom rulesets oldest-first. */
+export function listRulesets(): Ruleset[] {
+  return [DEFAULT_RULESET, ...readCustom()];
+}
+
+export function getRuleset(id: string): Ruleset | null {
+  return listRulesets().find(r => r.id === id) ?? null;
+}
+
+/**
+ * Validates and stores a custom ruleset. Saving over an existing one bumps
+ * its patch version (when the parameters changed); a new one is stored as is.
+ */
+export function saveRuleset(input: unknown): RulesetValidation {
+  const result = validateRuleset(input);
+  if (!result.ruleset) return result;
+  const ruleset = result.ruleset;
+  if (ruleset.id === DEFAULT_RULESET.id) return { errors: ['The built-in ruleset cannot be modified — clone it first'] };
+
+  const custom = readCustom();
+  const idx = custom.findIndex(r => r.id === ruleset.id);
+  if (idx >= 0) {
+    const previous = custom[idx];
+    const changed = rulesetChecksum(previous) !== rulesetChecksum(ruleset);
+    ruleset.created_at = previous.created_at;
+    ruleset.parent_id  = previous.parent_id;
+    ruleset.updated_at = new Date().toISOString();
+    if (changed && ruleset.version === previous.version) ruleset.version = bumpVersion(previous.version, 'patch');
+    custom[idx] = ruleset;
+  } else {
+    custom.push(ruleset);
+  }
+
+  try {
+    writeCustom(custom);
+  } catch (err) {
+    console.error('Failed to save ruleset:', err);
+    return { errors: ['Failed to save ruleset'] };
+  }
+  return { ruleset, errors: [] };
+}
+
+/** Deletes a custom ruleset; the active ruleset falls back to the default if it was deleted. */
+export function deleteRuleset(id: string): void {
+  writeCustom(readCustom().filter(r => r.id !== id));
+  if (localStorage.getItem(ACTIVE_KEY) === id) localStorage.removeItem(ACTIVE_KEY);
+}
+
+/** The ruleset new scans run with. */
+export function getActiveRuleset(): Ruleset {
+  try {
+    const id = localStorage.getItem(ACTIVE_KEY);
+    return (id && getRuleset(id)) || DEFAULT_RULESET;
+  } catch {
+    return DEFAULT_RULESET;
+  }
+}
+
+export function setActiveRuleset(id: string): void {
+  if (id === DEFAULT_RULESET.id) localStorage.removeItem(ACTIVE_KEY);
+  else localStorage.setItem(ACTIVE_KEY, id);
+}
@@ -0,0 +1,143 @@
+/**
+ * Threshold-Avoidance Structuring
+ *
+ * Structuring ("smurfing" in the regulatory sense) is splitting funds into
+ * repeated transactions just below a reporting threshold, e.g. 9,000–9,999
+ * under a 10,000 CTR limit. Round amounts alone say nothing about this; what
+ * matters is a cluster of near-threshold amounts inside a rolling window:
+ *
+ *  - from one account (the depositor splits their own funds), or
+ *  - from several linked accounts into one beneficiary (the split is spread
+ *    across people so no single sender looks unusual).
+ *
+ * Thresholds come from a jurisdiction preset chosen in Settings.
+ */
+
+export type JurisdictionId = 'US' | 'EU' | 'IN';
+
+export interface ReportingThreshold {
+  limit: number;
+  label: string;
+}
+
+export interface JurisdictionPreset {
+  id: JurisdictionId;
+  label: string;
+  currency: string;
+  thresholds: ReportingThreshold[];
+}
+
+export const JURISDICTION_PRESETS: Record<JurisdictionId, JurisdictionPreset> = {
+  US: {
+    id: 'US',
+    label: 'United States (FinCEN)',
+    currency: 'USD',
+    thresholds: [{ limit: 10_000, label: 'CTR' }],
+  },
+  EU: {
+    id: 'EU',
+    label: 'European Union (AMLD)',
+    currency: 'EUR',
+    thresholds: [
+      { limit: 10_000, label: 'Cash payment limit' },
+      { limit: 15_000, label: 'Occasional transaction CDD' },
+    ],
+  },
+  IN: {
+    id: 'IN',
+    label: 'India (PMLA / FIU-IND)',
+    currency: 'INR',
+    thresholds: [
+      { limit: 50_000, label: 'PAN requirement' },
+      { limit: 1_000_000, label: 'CTR' },
+    ],
+  },
+};
+
+export const DEFAULT_JURISDICTION: JurisdictionId = 'US';
+
+export interface NearThresholdTx {
+  sender: string;
+  receiver: string;
+  txId: string;
+  amount: number;
+  ts: number;
+  limit: number;
+}
+
+export interface StructuringBurst {
+  account: string;          // the depositor, or the beneficiary for linked groups
+  linked: boolean;          // true → several senders into one beneficiary
+  accounts: string[];       // every account involved (senders + beneficiary)
+  limit: number;
+  txs: NearThresholdTx[];
+}
+
+/** The threshold an amount sits just below (within bandPct), if any. */
+export function nearThreshold(amount: number, preset: JurisdictionPreset, bandPct: number): ReportingThreshold | null {
+  for (const t of preset.thresholds) {
+    if (amount < t.limit && amount >= t.limit * (1 - bandPct)) return t;
+  }
+  return null;
+}
+
+/** Largest set of a key's txs that fits inside one rolling window. */
+function densestWindow(txs: NearThresholdTx[], windowMs: number): NearThresholdTx[] {
+  const sorted = [...txs].sort((a, b) => a.ts - b.ts);
+  let best: NearThresholdTx[] = [];
+  let lo = 0;
+  for (let hi = 0; hi < sorted.length; hi++) {
+    while (sorted[hi].ts - sorted[lo].ts > windowMs) lo++;
+    if (hi - lo + 1 > best.length) best = sorted.slice(lo, hi + 1);
+  }
+  return best;
+}
+
+export function findStructuringBursts(
+  txs: NearThresholdTx[],
+  windowMs: number,
+  minCount: number
+): StructuringBurst[] {
+  const bursts: StructuringBurst[] = [];
+
+  const group = (key: (tx: NearThresholdTx) => string) => {
+    const groups = new Map<string, NearThresholdTx[]>();
+    for (const tx of txs) {
+      const k = `${key(tx)}::${tx.limit}`;
+      if (!groups.has(k)) groups.set(k, []);
+      groups.get(k)!.push(tx);
+    }
+    return groups;
+  };
+
+  // One account splitting its own funds
+  for (const list of group(tx => tx.sender).values()) {
+    if (list.length < minCount) continue;
+    const window = densestWindow(list, windowMs);
+    if (window.length < minCount) continue;
+    bursts.push({
+      account:  window[0].sender,
+      linked:   false,
+      accounts: [window[0].sender],
+      limit:    window[0].limit,
+      txs:      window,
+    });
+  }
+
+  // Several senders feeding one beneficiary
+  for (const list of group(tx => tx.receiver).values()) {
+    if (list.length < minCount) continue;
+    const window = densestWindow(list, windowMs);
+    const senders = new Set(window.map(tx => tx.sender));
+    if (window.length < minCount || senders.size < 2) continue;
+    bursts.push({
+      account:  window[0].receiver,
+      linked:   true,
+      accounts: [...senders, window[0].receiver],
+      limit:    window[0].limit,
+      txs:      window,
+    });
+  }
+
+  return bursts;
+}
@@ -0,0 +1,295 @@
+/**
+ * Synthetic Labelled Datasets — background population + injected typologies
+ *
+ * Generates a benchmark dataset without hunting for PaySim dumps: a
+ * background population of ordinary customer and merchant activity, with
+ * laundering typologies injected on top. Every injected transaction carries
+ * `isFraud: true` and a `typology` label, so ground truth can report recall
+ * per typology.
+ *
+ * Everything is driven by a seeded PRNG, including timestamps (anchored at
+ * `startDate`, not the clock), so the same config always yields the same
+ * dataset and detector changes can be compared run against run.
+ *
+ * Injected typologies use fresh accounts named like the background ones, so
+ * nothing but the transaction pattern gives them away. Cycles and structuring
+ * are kept inside the ruleset's limits (CYCLE_MAX_LEN, CYCLE_WINDOW_HOURS,
+ * STRUCTURING_WINDOW_HOURS), so every injected instance is one the detectors
+ * can find and recall measures detection, not the generator:
+ *
+ *  - cycle           A → B → … → A with a small skim per hop, closed inside the cycle window
+ *  - fan_in          many senders → one collector, which then cashes out
+ *  - fan_out         one distributor → many receivers
+ *  - shell_chain     source → pass-through shells (one in, one out) → sink
+ *  - scatter_gather  source → several mules → one sink
+ *  - structuring     repeated deposits just under the reporting limit, inside one window
+ *  - round_trip      A → B and back again within tolerance, several times
+ */
+
+import { Transaction } from './types';
+import { THRESHOLDS, Thresholds } from './detectors/constants';
+import { DEFAULT_JURISDICTION, JURISDICTION_PRESETS, JurisdictionId } from './structuring';
+
+export type Typology =
+  | 'cycle'
+  | 'fan_in'
+  | 'fan_out'
+  | 'shell_chain'
+  | 'scatter_gather'
+  | 'structuring'
+  | 'round_trip';
+
+export interface TypologyConfig {
+  count: number;  // instances to inject
+  size: number;   // meaning depends on the typology — see TYPOLOGIES
+}
+
+export interface SyntheticConfig {
+  seed: string;
+  accounts: number;       // background customers (merchants are added at ~5%)
+  backgroundTx: number;
+  days: number;
+  startDate: string;      // ISO; the dataset never reads the clock
+  jurisdiction: JurisdictionId; // structuring targets its lowest reporting limit
+  typologies: Record<Typology, TypologyConfig>;
+}
+
+export const TYPOLOGIES: Record<Typology, { label: string; size: string; min: number; max: number }> = {
+  cycle:          { label: 'Cycles',          size: 'Length',       min: 3, max: 8 },
+  fan_in:         { label: 'Fan-in',          size: 'Senders',      min: 3, max: 50 },
+  fan_out:        { label: 'Fan-out',         size: 'Receivers',    min: 3, max: 50 },
+  shell_chain:    { label: 'Shell chains',    size: 'Shells',       min: 1, max: 10 },
+  scatter_gather: { label: 'Scatter-gather',  size: 'Mules',        min: 2, max: 20 },
+  structuring:    { label: 'Structuring',     size: 'Deposits',     min: 2, max: 30 },
+  round_trip:     { label: 'Round-trips',     size: 'Round-trips',  min: 1, max: 10 },
+};
+
+export const DEFAULT_SYNTHETIC_CONFIG: SyntheticConfig = {
+  seed: 'muleguard',
+  accounts: 2_000,
+  backgroundTx: 20_000,
+  days: 30,
+  startDate: '2025-01-01T00:00:00.000Z',
+  jurisdiction: DEFAULT_JURISDICTION,
+  typologies: {
+    cycle:          { count: 10, size: 4 },
+    fan_in:         { count: 5,  size: 15 },
+    fan_out:        { count: 5,  size: 15 },
+    shell_chain:    { count: 8,  size: 3 },
+    scatter_gather: { count: 5,  size: 5 },
+    structuring:    { count: 8,  size: 5 },
+    round_trip:     { count: 8,  size: 3 },
+  },
+};
+
+/** Sizes a typology can take under `thresholds` — cycles longer than CYCLE_MAX_LEN are never searched for. */
+export function typologySizeRange(typology: Typology, thresholds: Thresholds = THRESHOLDS): { min: number; max: number } {
+  const { min, max } = TYPOLOGIES[typology];
+  if (typology !== 'cycle') return { min, max };
+  const lo = Math.max(min, thresholds.CYCLE_MIN_LEN);
+  return { min: lo, max: Math.max(lo, Math.min(max, thresholds.CYCLE_MAX_LEN)) };
+}
+
+const HOUR = 3600 * 1000;
+const DAY = 24 * HOUR;
+
+/** Mulberry32 seeded from an FNV-1a hash of the seed string. */
+function createRng(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+export function generateSyntheticDataset(config: SyntheticConfig, thresholds: Thresholds = THRESHOLDS): Transaction[] {
+  const rng = createRng(config.seed);
+  const start = new Date(config.startDate).getTime();
+  const span = Math.max(1, config.days) * DAY;
+
+  const between = (lo: number, hi: number) => lo + rng() * (hi - lo);
+  const int = (lo: number, hi: number) => Math.floor(between(lo, hi + 1));
+  const pick = <T>(list: T[]) => list[Math.floor(rng() * list.length)];
+  const money = (v: number) => Math.round(v * 100) / 100;
+  // Log-normal amounts: most payments small, a long tail of large ones
+  const logNormal = (median: number, sigma: number) => {
+    const u = Math.max(rng(), 1e-12);
+    return median * Math.exp(sigma * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng()));
+  };
+
+  // PaySim-style ids: C… for customers, M… for merchants, never repeated
+  const used = new Set<string>();
+  const newAccount = (prefix: 'C' | 'M') => {
+    let id: string;
+    do id = `${prefix}${int(100_000_000, 999_999_999)}`; while (used.has(id));
+    used.add(id);
+    return id;
+  };
+
+  const txs: Transaction[] = [];
+  const push = (sender: string, receiver: string, amount: number, time: number, txType: string, typology?: Typology) => {
+    txs.push({
+      sender,
+      receiver,
+      amount: money(amount),
+      timestamp: new Date(time).toISOString(),
+      txType,
+      isFraud: !!typology,
+      ...(typology && { typology }),
+    });
+  };
+
+  // ── Background population ─────────────────────────────────────────────────
+  const customers = Array.from({ length: Math.max(2, config.accounts) }, () => newAccount('C'));
+  const merchants = Array.from({ length: Math.max(1, Math.round(config.accounts * 0.05)) }, () => newAccount('M'));
+  // A few popular merchants take most of the payments
+  const popularMerchants = merchants.slice(0, Math.max(1, Math.ceil(merchants.length * 0.2)));
+
+  // Daytime-weighted timestamps so time-of-day signals see a realistic baseline
+  const backgroundTime = () => {
+    const day = Math.floor(rng() * config.days);
+    const hour = rng() < 0.85 ? between(8, 21) : between(0, 24);
+    return Math.min(start + span - 1, start + day * DAY + hour * HOUR);
+  };
+
+  for (let i = 0; i < config.backgroundTx; i++) {
+    const r = rng();
+    const time = backgroundTime();
+    const customer = pick(customers);
+    if (r < 0.5) {
+      const merchant = rng() < 0.7 ? pick(popularMerchants) : pick(merchants);
+      push(customer, merchant, logNormal(60, 0.9), time, 'PAYMENT');
+    } else if (r < 0.75) {
+      let peer = pick(customers);
+      if (peer === customer) peer = customers[(customers.indexOf(customer) + 1) % customers.length];
+      push(customer, peer, logNormal(150, 1.0), time, 'TRANSFER');
+    } else if (r < 0.85) {
+      push(pick(merchants), customer, logNormal(2_500, 0.4), time, 'CASH_IN');   // payroll / refunds
+    } else if (r < 0.95) {
+      push(customer, pick(merchants), logNormal(200, 0.7), time, 'CASH_OUT');
+    } else {
+      push(customer, pick(merchants), logNormal(40, 0.6), time, 'DEBIT');
+    }
+  }
+
+  // ── Injected typologies ───────────────────────────────────────────────────
+  // Each instance starts early enough to finish inside the dataset
+  const instanceStart = (durationMs: number) => start + rng() * Math.max(0, span - durationMs);
+  const limit = Math.min(...JURISDICTION_PRESETS[config.jurisdiction].thresholds.map(t => t.limit));
+  const band = thresholds.STRUCTURING_BAND_PCT;
+
+  const inject: Record<Typology, (size: number) => void> = {
+    cycle: (length) => {
+      const ring = Array.from({ length }, () => newAccount('C'));
+      let amount = between(5_000, 50_000);
+      // Up to 12h per hop, but the first and last hop must close inside the cycle window
+      const maxGap = Math.min(12, thresholds.CYCLE_WINDOW_HOURS / (length - 1));
+      let t = instanceStart((length - 1) * maxGap * HOUR);
+      for (let i = 0; i < length; i++) {
+        push(ring[i], ring[(i + 1) % length], amount, t, 'TRANSFER', 'cycle');
+        amount *= 1 - between(0.01, 0.05);
+        t += between(Math.min(1, maxGap), maxGap) * HOUR;
+      }
+    },
+
+    fan_in: (senders) => {
+      const collector = newAccount('C');
+      let t = instanceStart(60 * HOUR);
+      let total = 0;
+      for (let i = 0; i < senders; i++) {
+        const amount = between(500, 3_000);
+        total += amount;
+        push(newAccount('C'), collector, amount, t, 'TRANSFER', 'fan_in');
+        t += between(0.5, 48 / senders) * HOUR;
+      }
+      push(collector, newAccount('C'), total * between(0.9, 0.98), t + between(1, 12) * HOUR, 'CASH_OUT', 'fan_in');
+    },
+
+    fan_out: (receivers) => {
+      const distributor = newAccount('C');
+      const total = between(20_000, 100_000);
+      let t = instanceStart(48 * HOUR);
+      for (let i = 0; i < receivers; i++) {
+        push(distributor, newAccount('C'), (total / receivers) * between(0.85, 1.15), t, 'TRANSFER', 'fan_out');
+        t += between(0.25, 48 / receivers) * HOUR;
+      }
+    },
+
+    shell_chain: (shells) => {
+      const path = Array.from({ length: shells + 2 }, () => newAccount('C'));
+      let amount = between(10_000, 80_000);
+      let t = instanceStart((shells + 1) * 24 * HOUR);
+      for (let i = 0; i < path.length - 1; i++) {
+        push(path[i], path[i + 1], amount, t, i === path.length - 2 ? 'CASH_OUT' : 'TRANSFER', 'shell_chain');
+        amount *= 1 - between(0, 0.03);
+        t += between(1, 24) * HOUR;
+      }
+    },
+
+    scatter_gather: (mules) => {
+      const source = newAccount('C');
+      const sink = newAccount('C');
+      const total = between(20_000, 100_000);
+      const t0 = instanceStart(72 * HOUR);
+      for (let i = 0; i < mules; i++) {
+        const mule = newAccount('C');
+        const amount = (total / mules) * between(0.9, 1.1);
+        const out = t0 + between(0, 24) * HOUR;
+        push(source, mule, amount, out, 'TRANSFER', 'scatter_gather');
+        push(mule, sink, amount * between(0.9, 0.98), out + between(2, 36) * HOUR, 'TRANSFER', 'scatter_gather');
+      }
+    },
+
+    structuring: (deposits) => {
+      // One depositor splitting their own funds, or several feeding one beneficiary
+      const beneficiary = newAccount('C');
+      const depositors = rng() < 0.5 ? [newAccount('C')] : Array.from({ length: Math.min(deposits, 3) }, () => newAccount('C'));
+      // All deposits inside one detector window, and inside the dataset when that is shorter
+      const gap = Math.min(thresholds.STRUCTURING_WINDOW_HOURS * HOUR, span) / deposits;
+      let t = instanceStart(gap * deposits);
+      for (let i = 0; i < deposits; i++) {
+        push(pick(depositors), beneficiary, between(limit * (1 - band), limit - 1), t, 'CASH_IN', 'structuring');
+        t += between(Math.min(4 * HOUR, gap / 2), gap);
+      }
+    },
+
+    round_trip: (trips) => {
+      const a = newAccount('C');
+      const b = newAccount('C');
+      let t = instanceStart(trips * 72 * HOUR);
+      for (let i = 0; i < trips; i++) {
+        const amount = between(5_000, 40_000);
+        push(a, b, amount, t, 'TRANSFER', 'round_trip');
+        t += between(2, 48) * HOUR;
+        push(b, a, amount * between(0.95, 1.0), t, 'TRANSFER', 'round_trip');
+        t += between(2, 24) * HOUR;
+      }
+    },
+  };
+
+  for (const typology of Object.keys(TYPOLOGIES) as Typology[]) {
+    const { count, size } = config.typologies[typology];
+    const { min, max } = typologySizeRange(typology, thresholds);
+    for (let i = 0; i < count; i++) inject[typology](Math.min(max, Math.max(min, Math.round(size))));
+  }
+
+  // Chronological like an export; the sort is stable so equal times keep generation order
+  txs.sort((x, y) => (x.timestamp < y.timestamp ? -1 : x.timestamp > y.timestamp ? 1 : 0));
+  const prefix = `syn-${config.seed}`;
+  return txs.map((tx, i) => ({ ...tx, id: `${prefix}-${i}` }));
+}
+
+/** CSV in the column layout FileUpload detects, labels included. */
+export function syntheticToCsv(txs: Transaction[]): string {
+  const lines = ['id,timestamp,sender,receiver,amount,type,isFraud,typology'];
+  for (const tx of txs) {
+    lines.push([tx.id ?? '', tx.timestamp, tx.sender, tx.receiver, tx.amount, tx.txType ?? '', tx.isFraud ? 1 : 0, tx.typology ?? ''].join(','));
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,149 @@
+/**
+ * Taint Propagation — how much of each account's money came from fraud
+ *
+ * Taint enters the graph at the seeds: every outflow of an account confirmed
+ * as fraudulent by an analyst and, only when label seeding is switched on,
+ * every transaction labelled `isFraud`. Transactions are replayed in time
+ * order (ingestion order among equal timestamps, which PaySim's hourly steps
+ * produce all the time) and each account keeps a running balance of what it
+ * received, so every outflow carries part of the taint on to the next
+ * account. Three attribution models:
+ *
+ *  - poison:  once an account receives any tainted funds, everything it
+ *             sends afterwards is tainted in full.
+ *  - haircut: taint is spread proportionally over the balance; an outflow
+ *             carries the balance's tainted share.
+ *  - fifo:    inflows are queued as lots and outflows consume the oldest
+ *             lots first, carrying their taint with them.
+ *
+ * Outflows larger than the tracked balance are paid from funds that predate
+ * the data and count as clean (except in the poison model). Per account the
+ * result is the tainted value received and its share of all inflows.
+ */
+
+import { TaintModel, TaintStats } from './types';
+
+export interface TaintTransfer {
+  from: string;
+  to: string;
+  ts: number;
+  amount: number;
+  txId: string;
+  seq: number; // ingestion order, breaks timestamp ties
+}
+
+export interface TaintSeeds {
+  /** Transactions that are tainted in full (labelled fraud, when label seeding is on) */
+  txIds: ReadonlySet<string>;
+  /** Accounts whose every outflow is tainted in full (confirmed fraud) */
+  accounts: ReadonlySet<string>;
+}
+
+interface Lot {
+  amount: number;
+  tainted: number;
+}
+
+interface AccountState {
+  balance: number;
+  tainted: number;  // haircut: tainted part of the balance
+  poisoned: boolean;
+  lots: Lot[];      // fifo queue, consumed from `head`
+  head: number;
+  received: number;
+  taintedIn: number;
+  sources: Map<string, number>; // txId → tainted amount received
+}
+
+const MAX_SOURCE_TX = 20;
+
+function stateOf(states: Map<string, AccountState>, id: string): AccountState {
+  let s = states.get(id);
+  if (!s) {
+    s = { balance: 0, tainted: 0, poisoned: false, lots: [], head: 0, received: 0, taintedIn: 0, sources: new Map() };
+    states.set(id, s);
+  }
+  return s;
+}
+
+/** Tainted part of an outflow of `amount` under the model, updating the sender's state. */
+function spend(s: AccountState, amount: number, model: TaintModel): number {
+  if (model === 'poison') {
+    s.balance = Math.max(0, s.balance - amount);
+    return s.poisoned ? amount : 0;
+  }
+
+  if (model === 'haircut') {
+    const fromBalance = Math.min(amount, s.balance);
+    const tainted = s.balance > 0 ? s.tainted * (fromBalance / s.balance) : 0;
+    s.balance -= fromBalance;
+    s.tainted = Math.max(0, s.tainted - tainted);
+    return tainted;
+  }
+
+  // fifo
+  let remaining = amount, tainted = 0;
+  while (remaining > 0 && s.head < s.lots.length) {
+    const lot = s.lots[s.head];
+    const used = Math.min(remaining, lot.amount);
+    const share = lot.tainted * (used / lot.amount);
+    tainted += share;
+    lot.amount -= used;
+    lot.tainted -= share;
+    remaining -= used;
+    if (lot.amount <= 1e-9) s.head++;
+  }
+  s.balance = Math.max(0, s.balance - amount);
+  // Compact the consumed prefix now and then
+  if (s.head > 1024 && s.head * 2 > s.lots.length) {
+    s.lots = s.lots.slice(s.head);
+    s.head = 0;
+  }
+  return tainted;
+}
+
+function receive(s: AccountState, amount: number, tainted: number, txId: string, model: TaintModel): void {
+  s.balance += amount;
+  s.received += amount;
+  if (model === 'fifo') s.lots.push({ amount, tainted });
+  if (tainted <= 0) return;
+  s.taintedIn += tainted;
+  s.sources.set(txId, (s.sources.get(txId) || 0) + tainted);
+  if (model === 'poison') s.poisoned = true;
+  else if (model === 'haircut') s.tainted += tainted;
+}
+
+/**
+ * Replays `transfers` (any order; sorted here) from the seeds and returns
+ * taint stats for every account that received tainted funds or is a seed.
+ */
+export function propagateTaint(transfers: TaintTransfer[], seeds: TaintSeeds, model: TaintModel): Map<string, TaintStats> {
+  const states = new Map<string, AccountState>();
+  const sorted = [...transfers].sort((a, b) => a.ts - b.ts || a.seq - b.seq);
+
+  for (const t of sorted) {
+    const sender = stateOf(states, t.from);
+    const fromSeed = seeds.accounts.has(t.from) || seeds.txIds.has(t.txId);
+    const carried = spend(sender, t.amount, model);
+    const tainted = fromSeed ? t.amount : Math.min(t.amount, carried);
+    receive(stateOf(states, t.to), t.amount, tainted, t.txId, model);
+  }
+
+  const result = new Map<string, TaintStats>();
+  for (const [id, s] of states) {
+    const seed = seeds.accounts.has(id);
+    if (!seed && s.taintedIn <= 0) continue;
+    result.set(id, {
+      model,
+      seed,
+      tainted_amount: parseFloat(s.taintedIn.toFixed(2)),
+      received_amount: parseFloat(s.received.toFixed(2)),
+      tainted_pct: seed ? 100 : s.received > 0 ? parseFloat((s.taintedIn / s.received * 100).toFixed(2)) : 0,
+      source_tx_ids: Array.from(s.sources)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_SOURCE_TX)
+        .map(([txId]) => txId),
+    });
+  }
+  return result;
+}
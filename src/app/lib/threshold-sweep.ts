@@ -0,0 +1,97 @@
+/**
+ * Threshold Sweep — detection quality at every flag threshold
+ *
+ * A node counts as flagged at threshold t when its total score is ≥ t, so
+ * the sweep runs from 0 (everything flagged) to 100. Each step records the
+ * confusion matrix plus the points of the ROC curve (FPR, recall) and the
+ * precision-recall curve.
+ *
+ * AUCs are computed from the scores themselves rather than the 101 sweep
+ * steps: ROC AUC is the Mann-Whitney statistic (ties count half) and PR AUC
+ * is average precision over the distinct score levels. Precision@k ranks
+ * nodes by score; ties at the cut are broken by account id.
+ */
+
+import { PrecisionAtK, ThresholdPoint } from './types';
+
+export interface LabelledScore {
+  id: string;
+  score: number;
+  fraud: boolean;
+}
+
+export interface ThresholdSweep {
+  sweep: ThresholdPoint[];
+  rocAuc: number;
+  prAuc: number;
+  precisionAtK: PrecisionAtK[];
+}
+
+const PRECISION_AT_K = [10, 25, 50, 100, 250, 500];
+
+const round4 = (v: number) => parseFloat(v.toFixed(4));
+
+function pointAt(threshold: number, tp: number, fp: number, fraud: number, legit: number): ThresholdPoint {
+  return {
+    threshold,
+    tp,
+    fp,
+    tn: legit - fp,
+    fn: fraud - tp,
+    // Nothing flagged → precision is undefined; 1 keeps the PR curve anchored at recall 0
+    precision: round4(tp + fp > 0 ? tp / (tp + fp) : 1),
+    recall: round4(fraud > 0 ? tp / fraud : 0),
+    fpr: round4(legit > 0 ? fp / legit : 0),
+  };
+}
+
+export function sweepThresholds(nodes: LabelledScore[]): ThresholdSweep {
+  const fraud = nodes.reduce((n, x) => n + (x.fraud ? 1 : 0), 0);
+  const legit = nodes.length - fraud;
+
+  // Descending by score; id breaks ties so precision@k is deterministic
+  const ranked = [...nodes].sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  // Sweep from 100 down, flagging nodes as the threshold drops below their score
+  const sweep: ThresholdPoint[] = [];
+  let tp = 0, fp = 0, i = 0;
+  for (let t = 100; t >= 0; t--) {
+    while (i < ranked.length && ranked[i].score >= t) {
+      if (ranked[i].fraud) tp++; else fp++;
+      i++;
+    }
+    sweep.push(pointAt(t, tp, fp, fraud, legit));
+  }
+  sweep.reverse();
+
+  // ROC AUC and average precision, one step per distinct score level
+  let rocAuc = 0, prAuc = 0;
+  tp = 0; fp = 0;
+  for (let j = 0; j < ranked.length;) {
+    const level = ranked[j].score;
+    let dtp = 0, dfp = 0;
+    for (; j < ranked.length && ranked[j].score === level; j++) {
+      if (ranked[j].fraud) dtp++; else dfp++;
+    }
+    // Fraud at this level beats every legit node below it and ties with the legit ones here
+    rocAuc += dtp * (legit - fp - dfp) + dtp * dfp / 2;
+    tp += dtp;
+    fp += dfp;
+    if (dtp > 0) prAuc += (dtp / fraud) * (tp / (tp + fp));
+  }
+
+  const precisionAtK: PrecisionAtK[] = PRECISION_AT_K
+    .filter(k => k <= ranked.length)
+    .map(k => {
+      let hits = 0;
+      for (let j = 0; j < k; j++) if (ranked[j].fraud) hits++;
+      return { k, hits, precision: round4(hits / k) };
+    });
+
+  return {
+    sweep,
+    rocAuc: fraud > 0 && legit > 0 ? round4(rocAuc / (fraud * legit)) : 0,
+    prAuc: fraud > 0 ? round4(prAuc) : 0,
+    precisionAtK,
+  };
+}
@@ -0,0 +1,592 @@
+/**
+ * Transaction Parsing — column detection and row parsing for uploaded data
+ *
+ * Uploads come from many exporters, so columns are matched by name rather
+ * than position: sender / receiver / amount are required, a timestamp is
+ * strongly preferred (numeric PaySim steps are read as hours), and labelled
+ * datasets may add the PaySim columns (type, isFraud, balances) and an
+ * injected typology. Keys are detected once per file from the first usable
+ * row and reused for every row after it.
+ *
+ * Uploaded files and pasted text are read here too — inside the analysis
+ * worker, so large files never block the page. Files are streamed: parsed
+ * rows go to the engine chunk by chunk and are never collected into one
+ * array. The command-line analyzer streams files from disk through the same
+ * CSV and JSON readers.
+ */
+
+import Papa from 'papaparse';
+import JSZip from 'jszip';
+import { Transaction } from './types';
+import type { TransactionChunk } from './chunked-uploader';
+
+/**
+ * Default row limit (Settings → Row Limit); larger files are analysed on their
+ * first rows. 0 = no limit. The engine keeps per-row state, so peak memory
+ * still grows with every row: about 1–1.3 GB for 200k PaySim-style rows
+ * (roughly 4–6 KB per row, detection and results included).
+ */
+export const DEFAULT_MAX_TRANSACTIONS = 200_000;
+
+export type ColumnKeys = ReturnType<typeof detectKeys>;
+
+/** Columns beyond sender / receiver / amount / timestamp (PaySim and labelled datasets). */
+export interface OptionalKeys {
+  typeKey?: string;
+  isFraudKey?: string;
+  isFlaggedFraudKey?: string;
+  oldBalanceOrigKey?: string;
+  newBalanceOrigKey?: string;
+  oldBalanceDestKey?: string;
+  newBalanceDestKey?: string;
+  typologyKey?: string;
+}
+
+/** Maps a row's column names onto transaction fields (exact name first, then a safe partial match). */
+export function detectKeys(row: Record<string, any>) {
+  const keys = Object.keys(row);
+  const findKey = (candidates: string[]) => {
+    // First try exact match (case-insensitive)
+    const exactMatch = keys.find(k => candidates.includes(k.toLowerCase().trim()));
+    if (exactMatch) return exactMatch;
+
+    // Then try partial match – require the candidate to appear as a
+    // whole word or at the START/END of the key to avoid false positives
+    // e.g. 'orig' should match 'nameOrig' but NOT 'originalprice'
+    const partialMatch = keys.find(k => {
+      const kl = k.toLowerCase().trim();
+      return candidates.some(c => {
+        if (c.length < 3) return false; // skip very short candidates for partial match (e.g. 'to')
+        // Match if key ends with candidate or candidate is a distinct segment
+        return kl.endsWith(c) || kl.startsWith(c) || kl.includes('_' + c) || kl.includes(c + '_');
+      });
+    });
+    if (partialMatch) return partialMatch;
+
+    return '';
+  };
+
+  return {
+    senderKey: findKey(['sender', 'nameorig', 'source', 'from', 'origin', 'orig',
+      'customer', 'account', 'payer', 'buyer', 'client', 'user',
+      'accountid', 'customerid', 'client_id', 'sender_id', 'debtor']),
+    receiverKey: findKey(['receiver', 'namedest', 'target', 'to', 'destination', 'dest',
+      'merchant', 'payee', 'seller', 'beneficiary', 'vendor',
+      'merchantid', 'merchant_id', 'receiver_id', 'creditor']),
+    amountKey: findKey(['amount', 'value', 'amt', 'sum', 'total', 'transactionamount']),
+    timestampKey: findKey(['timestamp', 'date', 'datetime', 'time', 'step', 'created_at', 'tx_date']),
+    // PaySim-specific + general fraud dataset column detection
+    typeKey: findKey(['type', 'category', 'txtype', 'transaction_type', 'tx_type']),
+    isFraudKey: findKey(['isfraud', 'is_fraud', 'fraud', 'label', 'flagged']),
+    isFlaggedFraudKey: findKey(['isflaggedfraud', 'is_flagged_fraud', 'flaggedfraud']),
+    oldBalanceOrigKey: findKey(['oldbalanceorg', 'oldbalanceorig', 'old_balance_org', 'balance_orig']),
+    newBalanceOrigKey: findKey(['newbalanceorig', 'newbalanceorg', 'new_balance_orig']),
+    oldBalanceDestKey: findKey(['oldbalancedest', 'old_balance_dest', 'balance_dest']),
+    newBalanceDestKey: findKey(['newbalancedest', 'new_balance_dest']),
+    typologyKey: findKey(['typology', 'fraud_typology', 'laundering_type']),
+  };
+}
+
+/** Parses one row with the detected columns; null when the row is not a usable transaction. */
+export function parseRow(
+  row: Record<string, any>,
+  senderKey: string,
+  receiverKey: string,
+  amountKey: string,
+  timestampKey: string,
+  now: Date,
+  paySimKeys?: OptionalKeys
+): Transaction | null {
+  const rawAmount = String(row[amountKey] || '').replace(/[^0-9.-]/g, '');
+  const amount = parseFloat(rawAmount);
+  if (isNaN(amount)) return null;
+
+  const sender = String(row[senderKey] || '').trim();
+  const receiver = String(row[receiverKey] || '').trim();
+  if (!sender || !receiver) return null;
+
+  // Rows without a timestamp, and PaySim steps, are placed relative to `now`
+  let timestamp = now.toISOString();
+  if (timestampKey && row[timestampKey]) {
+    const val = row[timestampKey];
+    if (!isNaN(Number(val)) && String(val).trim().length < 10) {
+      // Numeric step column (e.g. PaySim "step")
+      const step = Number(val);
+      timestamp = new Date(
+        now.getTime() - 30 * 24 * 3600 * 1000 + step * 3600 * 1000
+      ).toISOString();
+    } else {
+      const d = new Date(val);
+      if (!isNaN(d.getTime())) timestamp = d.toISOString();
+    }
+  }
+
+  const tx: Transaction = { sender, receiver, amount, timestamp };
+
+  // Attach PaySim-specific fields when columns are present
+  if (paySimKeys) {
+    if (paySimKeys.typeKey && row[paySimKeys.typeKey]) {
+      tx.txType = String(row[paySimKeys.typeKey]).trim().toUpperCase();
+    }
+    if (paySimKeys.isFraudKey && row[paySimKeys.isFraudKey] !== undefined) {
+      // Handle native JSON booleans/numbers AND CSV string values
+      const raw = row[paySimKeys.isFraudKey];
+      const v = String(raw).trim();
+      tx.isFraud = raw === true || raw === 1 || v === '1' || v.toLowerCase() === 'true';
+    }
+    if (paySimKeys.isFlaggedFraudKey && row[paySimKeys.isFlaggedFraudKey] !== undefined) {
+      const raw = row[paySimKeys.isFlaggedFraudKey];
+      const v = String(raw).trim();
+      tx.isFlaggedFraud = raw === true || raw === 1 || v === '1' || v.toLowerCase() === 'true';
+    }
+    const parseOpt = (key: string | undefined) => {
+      if (!key || !row[key]) return undefined;
+      const n = parseFloat(row[key]);
+      return isNaN(n) ? undefined : n;
+    };
+    tx.oldBalanceOrig = parseOpt(paySimKeys.oldBalanceOrigKey);
+    tx.newBalanceOrig = parseOpt(paySimKeys.newBalanceOrigKey);
+    tx.oldBalanceDest = parseOpt(paySimKeys.oldBalanceDestKey);
+    tx.newBalanceDest = parseOpt(paySimKeys.newBalanceDestKey);
+    if (paySimKeys.typologyKey && row[paySimKeys.typologyKey]) {
+      tx.typology = String(row[paySimKeys.typologyKey]).trim();
+    }
+  }
+
+  return tx;
+}
+
+/** The optional columns present in `keys`, or undefined when there are none to read. */
+export function optionalKeys(keys: ColumnKeys): OptionalKeys | undefined {
+  if (!keys.isFraudKey && !keys.typeKey && !keys.oldBalanceOrigKey && !keys.typologyKey) return undefined;
+  return {
+    typeKey: keys.typeKey || undefined,
+    isFraudKey: keys.isFraudKey || undefined,
+    isFlaggedFraudKey: keys.isFlaggedFraudKey || undefined,
+    oldBalanceOrigKey: keys.oldBalanceOrigKey || undefined,
+    newBalanceOrigKey: keys.newBalanceOrigKey || undefined,
+    oldBalanceDestKey: keys.oldBalanceDestKey || undefined,
+    newBalanceDestKey: keys.newBalanceDestKey || undefined,
+    typologyKey: keys.typologyKey || undefined,
+  };
+}
+
+// ── Uploads ───────────────────────────────────────────────────────────────────
+
+/** How much of an upload to read, and how to name its rows. */
+export interface ReadOptions {
+  maxTransactions?: number; // stop after this many rows (0 or unset: read everything)
+  idPrefix?: string;        // ids are `<prefix><row>` (default: `tx-<time>-`)
+  now?: Date;               // anchor for PaySim steps and rows without a timestamp (default: the time of reading)
+}
+
+/** How a streamed read ended: rows read, and whether the row limit cut it short. */
+export interface ReadSummary {
+  count: number;
+  hitLimit: boolean;
+}
+
+/** Transactions read from pasted text. */
+export interface ParsedUpload {
+  transactions: Transaction[];
+  hitLimit: boolean;
+}
+
+/** Collects parsed rows between chunks, assigning ids and enforcing the row limit. */
+export interface TransactionSink {
+  /** Adds one transaction; false once the row limit has been reached. */
+  push(tx: Transaction): boolean;
+  /** Hands over the transactions added since the last call. */
+  take(): Transaction[];
+  readonly count: number;
+  readonly hitLimit: boolean;
+  /** Time that PaySim steps and rows without a timestamp are placed relative to. */
+  readonly now: Date;
+}
+
+export function createTransactionSink(options: ReadOptions = {}): TransactionSink {
+  const limit = options.maxTransactions || Infinity;
+  const idPrefix = options.idPrefix ?? `tx-${Date.now()}-`;
+  const now = options.now ?? new Date();
+  let pending: Transaction[] = [];
+  let count = 0;
+  let hitLimit = false;
+  return {
+    push(tx) {
+      if (count >= limit) {
+        hitLimit = true;
+        return false;
+      }
+      pending.push({ ...tx, id: tx.id || `${idPrefix}${count}` });
+      count++;
+      return true;
+    },
+    take() {
+      const taken = pending;
+      pending = [];
+      return taken;
+    },
+    get count() { return count; },
+    get hitLimit() { return hitLimit; },
+    now,
+  };
+}
+
+// Bytes Papa reads per chunk — one engine chunk of roughly 10k PaySim rows
+const CSV_CHUNK_BYTES = 1 << 20;
+// Records per chunk when feeding a parsed JSON array
+const JSON_CHUNK_ROWS = 10_000;
+
+/**
+ * Streams a CSV (File/Blob in the browser, a Readable in Node) into `sink`,
+ * yielding a chunk per block Papa reads. Papa stays paused until the chunk
+ * has been consumed, so the file's text is never held whole; closing the
+ * generator early aborts the parse. Columns are detected on the first row.
+ * Returns false when they were not recognised. `toFraction` turns Papa's
+ * character cursor into overall progress.
+ */
+export async function* readCsvChunks(
+  source: Papa.LocalFile | Blob,
+  sink: TransactionSink,
+  toFraction?: (cursor: number) => number
+): AsyncGenerator<TransactionChunk, boolean> {
+  const { now } = sink;
+  let keys: ColumnKeys | null = null;
+  let extras: OptionalKeys | undefined;
+
+  // Set from Papa's callbacks — declared with `as` so they are not narrowed to their initial values
+  let parser = null as Papa.Parser | null;
+  let block = null as { rows: Record<string, string>[]; cursor: number } | null;
+  let finished = false as boolean;
+  let failure = null as Error | null;
+  let wake: (() => void) | null = null;
+  const notify = () => { wake?.(); wake = null; };
+  // Papa pauses only its own parsing; a Node stream must be paused too or it queues the whole file
+  const stream = 'pipe' in source ? source : null;
+
+  Papa.parse<Record<string, string>>(source as File, {
+    header: true,
+    skipEmptyLines: true,
+    chunkSize: CSV_CHUNK_BYTES,
+    // Let PapaParse auto-detect the delimiter
+    chunk(results, p) {
+      parser = p;
+      p.pause();
+      stream?.pause();
+      block = { rows: results.data, cursor: results.meta.cursor };
+      notify();
+    },
+    complete: () => { finished = true; notify(); },
+    error: (err: Error) => { failure = err; finished = true; notify(); },
+  });
+
+  try {
+    while (true) {
+      if (!block && !finished) await new Promise<void>(resolve => { wake = resolve; });
+      if (!block) {
+        if (failure) throw failure;
+        return true;
+      }
+
+      const { rows, cursor } = block;
+      block = null;
+      let full = false;
+      for (const row of rows) {
+        if (!keys) {
+          const detected = detectKeys(row);
+          if (!detected.senderKey || !detected.receiverKey || !detected.amountKey) return false;
+          keys = detected;
+          extras = optionalKeys(detected);
+        }
+        const tx = parseRow(row, keys.senderKey, keys.receiverKey, keys.amountKey, keys.timestampKey, now, extras);
+        if (tx && !sink.push(tx)) {
+          full = true;
+          break;
+        }
+      }
+
+      const transactions = sink.take();
+      if (transactions.length) yield { transactions, fraction: toFraction?.(cursor) };
+      if (full) return true;
+      if (!finished) {
+        parser?.resume();
+        stream?.resume();
+      }
+    }
+  } finally {
+    if (!finished) parser?.abort();
+  }
+}
+
+/**
+ * Feeds a parsed JSON array into `sink` in chunks. Records may differ in
+ * shape, so columns are detected per record. Returns false when no record
+ * had usable columns. `toFraction` turns the records consumed into progress.
+ */
+export function* readJsonChunks(
+  items: unknown[],
+  sink: TransactionSink,
+  toFraction: (consumed: number) => number = consumed => consumed / items.length
+): Generator<TransactionChunk, boolean> {
+  const { now } = sink;
+  let recognised = false;
+  for (let i = 0; i < items.length; i += JSON_CHUNK_ROWS) {
+    let full = false;
+    for (const item of items.slice(i, i + JSON_CHUNK_ROWS)) {
+      if (typeof item !== 'object' || item === null) continue;
+      const keys = detectKeys(item);
+      if (!keys.senderKey || !keys.receiverKey || !keys.amountKey) continue;
+      recognised = true;
+      const tx = parseRow(item, keys.senderKey, keys.receiverKey, keys.amountKey, keys.timestampKey, now, optionalKeys(keys));
+      if (tx && !sink.push(tx)) {
+        full = true;
+        break;
+      }
+    }
+    const transactions = sink.take();
+    if (transactions.length) yield { transactions, fraction: toFraction(Math.min(items.length, i + JSON_CHUNK_ROWS)) };
+    if (full) break;
+  }
+  return recognised;
+}
+
+/** Parses an uploaded JSON file, which must hold an array of transactions. */
+export function parseJsonArray(content: string): unknown[] {
+  let data: unknown;
+  try { data = JSON.parse(content); } catch { throw new Error('Invalid JSON format'); }
+  if (!Array.isArray(data)) throw new Error('JSON file must contain an array of transactions');
+  return data;
+}
+
+/**
+ * Streams a CSV/TSV, JSON array or ZIP of those as transaction chunks, for
+ * the engine to build its graph from while the file is still being read.
+ * Throws with a user-facing message when nothing usable is found.
+ */
+export async function* readTransactionFile(file: File, options: ReadOptions = {}): AsyncGenerator<TransactionChunk, ReadSummary> {
+  const sink = createTransactionSink(options);
+
+  // ── ZIP ──────────────────────────────────────────────────────────────
+  if (
+    file.name.endsWith('.zip') ||
+    file.type === 'application/zip' ||
+    file.type === 'application/x-zip-compressed'
+  ) {
+    const zip = await JSZip.loadAsync(file);
+    const entries = Object.values(zip.files)
+      .filter(entry => !entry.dir && !entry.name.startsWith('__MACOSX') && !entry.name.startsWith('.'));
+    let processedAny = false;
+
+    for (const [index, entry] of entries.entries()) {
+      if (sink.hitLimit) break;
+      const share = (fraction: number) => (index + Math.min(1, fraction)) / entries.length;
+
+      if (entry.name.endsWith('.csv') || entry.name.endsWith('.tsv')) {
+        // Use blob → streaming Papa to avoid loading 2+ GB strings into the JS heap
+        const blob = await entry.async('blob');
+        if (yield* readCsvChunks(blob, sink, cursor => share(cursor / (blob.size || 1)))) processedAny = true;
+      } else if (entry.name.endsWith('.json')) {
+        let items: unknown[];
+        try { items = parseJsonArray(await entry.async('string')); } catch { continue; /* skip bad JSON */ }
+        yield* readJsonChunks(items, sink, consumed => share(consumed / items.length));
+        processedAny = true;
+      }
+    }
+
+    if (!processedAny && sink.count === 0) {
+      throw new Error('No valid CSV or JSON files found in the ZIP archive.');
+    }
+
+    // ── JSON file ────────────────────────────────────────────────────────
+  } else if (file.name.endsWith('.json') || file.type === 'application/json') {
+    yield* readJsonChunks(parseJsonArray(await file.text()), sink);
+
+    // ── CSV file (direct) ────────────────────────────────────────────────
+  } else if (!(yield* readCsvChunks(file, sink, cursor => cursor / (file.size || 1)))) {
+    throw new Error('Missing required fields: sender (or nameOrig), receiver (or nameDest), amount');
+  }
+
+  if (sink.count === 0) {
+    throw new Error('No valid transactions extracted from the file.');
+  }
+  return { count: sink.count, hitLimit: sink.hitLimit };
+}
+
+/** Reads pasted CSV or JSON (an array, or an object wrapping one). */
+export function parseTransactionText(text: string, options: ReadOptions = {}): ParsedUpload {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('Please paste transaction data or select a file first.');
+
+  const sink = createTransactionSink(options);
+  const { now } = sink;
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let jsonData: any;
+    try {
+      jsonData = JSON.parse(trimmed);
+    } catch (parseErr: any) {
+      throw new Error(
+        `Invalid JSON syntax: ${parseErr.message}\n\n` +
+        'Make sure your JSON is valid. Example:\n' +
+        '[{"sender":"Alice","receiver":"Bob","amount":1000}]'
+      );
+    }
+
+    // Unwrap common nested structures: {"transactions": [...]}, {"data": [...]}, etc.
+    let arr: any[];
+    if (Array.isArray(jsonData)) {
+      arr = jsonData;
+    } else if (typeof jsonData === 'object' && jsonData !== null) {
+      // Try to find a nested array in common wrapper keys
+      const wrapperKeys = ['transactions', 'data', 'records', 'results', 'items', 'rows', 'entries'];
+      const nestedArr = wrapperKeys.reduce<any[] | null>((found, key) => {
+        if (found) return found;
+        const val = jsonData[key] || jsonData[key.charAt(0).toUpperCase() + key.slice(1)];
+        return Array.isArray(val) ? val : null;
+      }, null);
+
+      if (nestedArr) {
+        arr = nestedArr;
+      } else {
+        // Single object — wrap in array
+        arr = [jsonData];
+      }
+    } else {
+      throw new Error(
+        'JSON must be an array of transactions or an object containing a transactions array.\n\n' +
+        'Example:\n[{"sender":"Alice","receiver":"Bob","amount":1000}]'
+      );
+    }
+
+    if (arr.length === 0) {
+      throw new Error('JSON array is empty — no transactions to analyze.');
+    }
+
+    // Show what fields were found if key detection fails on the first item
+    let jsonFieldsForError = '';
+    let firstItemDetected = false;
+
+    for (const item of arr) {
+      if (typeof item !== 'object' || item === null) continue;
+      const keys = detectKeys(item);
+
+      if (!firstItemDetected) {
+        firstItemDetected = true;
+        if (!keys.senderKey || !keys.receiverKey || !keys.amountKey) {
+          const foundFields = Object.keys(item).join(', ');
+          jsonFieldsForError = foundFields;
+        }
+      }
+
+      if (!keys.senderKey || !keys.receiverKey || !keys.amountKey) continue;
+      const psKeys = optionalKeys(keys);
+      const tx = parseRow(item, keys.senderKey, keys.receiverKey, keys.amountKey, keys.timestampKey, now, psKeys);
+      if (tx && !sink.push(tx)) break;
+    }
+
+    // Better error for JSON with unrecognized field names
+    if (sink.count === 0 && jsonFieldsForError) {
+      throw new Error(
+        `Could not map JSON fields to transaction columns.\n\n` +
+        `Your fields: ${jsonFieldsForError}\n\n` +
+        `Expected field names:\n` +
+        `  Sender:   "sender", "nameOrig", "source", "from"\n` +
+        `  Receiver: "receiver", "nameDest", "target", "to"\n` +
+        `  Amount:   "amount", "value", "amt"\n\n` +
+        `Example:\n[{"sender":"Alice","receiver":"Bob","amount":1000}]`
+      );
+    }
+  } else {
+    // Let Papa Parse auto-detect the delimiter
+    const results = Papa.parse<Record<string, string>>(trimmed, {
+      header: true,
+      skipEmptyLines: true,
+    });
+
+    // Check if we got any data (Papa can report minor errors but still parse successfully)
+    if (results.data.length === 0) {
+      throw new Error('Could not parse data as CSV or JSON. Please check the format.');
+    }
+
+    // Detect keys from first valid row
+    let senderKey = '';
+    let receiverKey = '';
+    let amountKey = '';
+    let timestampKey = '';
+    let pastedPaySimKeys: OptionalKeys | undefined = undefined;
+
+    // Try to detect keys from the first few rows (in case first row has empty values)
+    for (const row of results.data.slice(0, 5)) {
+      const keys = detectKeys(row);
+      if (keys.senderKey && keys.receiverKey && keys.amountKey) {
+        senderKey = keys.senderKey;
+        receiverKey = keys.receiverKey;
+        amountKey = keys.amountKey;
+        timestampKey = keys.timestampKey;
+
+        pastedPaySimKeys = optionalKeys(keys);
+        break; // Keys detected successfully
+      }
+    }
+
+    // If no valid keys found, throw error
+    if (!senderKey || !receiverKey || !amountKey) {
+      // Provide helpful debug information
+      const availableColumns = results.data.length > 0 ? Object.keys(results.data[0]).join(', ') : 'none';
+      throw new Error(
+        `Could not detect required columns (sender, receiver, amount).\n\n` +
+        `Available columns: ${availableColumns}\n\n` +
+        `Expected column names:\n` +
+        `- Sender: "sender", "nameOrig", "source", "from", "origin"\n` +
+        `- Receiver: "receiver", "nameDest", "target", "to", "destination"\n` +
+        `- Amount: "amount", "value", "amt"`
+      );
+    }
+
+    // Parse all rows using detected keys
+    let parsedCount = 0;
+    let skippedCount = 0;
+    for (const row of results.data) {
+      const tx = parseRow(row, senderKey, receiverKey, amountKey, timestampKey, now, pastedPaySimKeys);
+      if (tx) {
+        if (!sink.push(tx)) break;
+        parsedCount++;
+      } else {
+        skippedCount++;
+      }
+    }
+
+    // If we detected columns but couldn't parse any rows, provide detailed error
+    if (sink.count === 0 && parsedCount === 0 && results.data.length > 0) {
+      // Show sample of first row data to help debug
+      const firstRow = results.data[0];
+      const sampleData = [
+        `${senderKey}: "${firstRow[senderKey]}"`,
+        `${receiverKey}: "${firstRow[receiverKey]}"`,
+        `${amountKey}: "${firstRow[amountKey]}"`
+      ].join(', ');
+
+      throw new Error(
+        `Found columns but could not parse any transactions.\n\n` +
+        `Detected columns:\n` +
+        `- Sender: "${senderKey}"\n` +
+        `- Receiver: "${receiverKey}"\n` +
+        `- Amount: "${amountKey}"\n\n` +
+        `Sample data from first row:\n${sampleData}\n\n` +
+        `Common issues:\n` +
+        `- Amount values must be valid numbers\n` +
+        `- Sender/receiver values cannot be empty\n` +
+        `- Check for data format mismatches`
+      );
+    }
+  }
+
+  if (sink.count === 0) throw new Error(
+    'No valid transactions found in the pasted data.\n\n' +
+    'Expected CSV with header row (sender, receiver, amount) or JSON array.\n\n' +
+    'Example CSV:\nsender,receiver,amount\nAlice,Bob,1000\nBob,Carol,950\n\n' +
+    'Example JSON:\n[{"sender":"Alice","receiver":"Bob","amount":1000}]'
+  );
+
+  return { transactions: sink.take(), hitLimit: sink.hitLimit };
+}
@@ -1,3 +1,7 @@
+import type { AppliedRuleset } from './ruleset';
+import type { PeerIndex } from './money-trace';
+import type { JurisdictionId } from './structuring';
+
 export interface Transaction {
   sender: string;
   receiver: string;
@@ -12,6 +16,7 @@ export interface Transaction {
   newBalanceOrig?: number;    // Originator balance after tx
   oldBalanceDest?: number;    // Destination balance before tx
   newBalanceDest?: number;    // Destination balance after tx
+  typology?: string;          // Injected laundering typology (synthetic datasets)
 }
 
 export interface NodeMetrics {
@@ -23,10 +28,54 @@ export interface NodeMetrics {
   active_days: number;
   velocity: number; // tx/hour
   unique_counterparties: number;
-  time_concentration: number; // ratio
-  amount_variance: number;
+  time_concentration: number; // hour-of-day Gini above chance for the tx count (0 = random hours, 1 = one hour)
+  amount_variance: number; // population variance of amounts
+  amount_cv?: number; // coefficient of variation of amounts (stddev / mean)
   flow_through: number; // ratio
-  pagerank?: number; // Added for advanced metrics
+  pagerank?: number; // Amount-weighted PageRank (sums to 1 over all nodes)
+  betweenness?: number; // Approximate betweenness, normalised 0–1 (bridge accounts)
+  hub_score?: number; // HITS hub score, 0–1 (sends to strong authorities)
+  authority_score?: number; // HITS authority score, 0–1 (receives from strong hubs)
+  dwell?: DwellStats; // FIFO inflow → outflow hold times (absent when nothing was forwarded)
+  lifecycle?: LifecycleTimeline; // activity segments split at dormant gaps
+  taint?: TaintStats; // share of inflows traced to confirmed fraud (absent when untouched)
+}
+
+export interface LifecyclePhase {
+  kind: 'active' | 'dormant' | 'silent';
+  start: number; // epoch ms
+  end: number;   // epoch ms
+  tx_count: number;
+  amount_in: number;
+  amount_out: number;
+}
+
+export interface LifecycleTimeline {
+  phases: LifecyclePhase[];
+  longest_dormant_days: number;
+  reactivated_at?: number; // start of the burst that followed a dormant gap
+  mule_lifecycle: boolean; // new → funded → cashed out → silent
+}
+
+export type TaintModel = 'poison' | 'haircut' | 'fifo';
+
+export interface TaintStats {
+  model: TaintModel;
+  seed: boolean;           // confirmed fraudulent by an analyst
+  tainted_amount: number;  // tainted value received
+  received_amount: number;
+  tainted_pct: number;     // tainted share of all inflows (100 for seeds)
+  source_tx_ids: string[]; // inbound transactions carrying the most taint
+}
+
+export interface DwellStats {
+  median_hold_hours: number;  // amount-weighted
+  p10_hold_hours: number;     // amount-weighted
+  forwarded_1h_pct: number;   // % of inflow forwarded within 1 hour
+  forwarded_24h_pct: number;  // % of inflow forwarded within 24 hours
+  matched_amount: number;     // inflow matched to a later outflow
+  inflow_amount: number;
+  hold_histogram: number[];   // amount per DWELL_BUCKETS bucket
 }
 
 export interface NodeData extends NodeMetrics {
@@ -51,23 +100,224 @@ export interface SuspicionScore {
   details: {
     patterns: string[];
     risk_factors: string[];
+    evidence?: RiskEvidence[]; // transactions behind a risk factor, where one applies
+    contributions?: ScoreContribution[]; // every point, by the rule that granted it
   };
 }
 
+/**
+ * Points one rule added to (or removed from) one score component. `applied`
+ * is what counted after the component cap; the components' applied points
+ * sum to the component scores (before the total is capped at 100).
+ */
+export interface ScoreContribution {
+  detector: string;                // detector id, or 'rings' for ring membership
+  rule: string;                    // rule within the detector (risk factor / pattern id)
+  component: 'structural' | 'behavioral' | 'network';
+  points: number;                  // as granted by the rule
+  applied: number;
+  capped: boolean;                 // the component cap clipped some or all of the points
+  weight?: string;                 // SCORES weight the points derive from, e.g. 'BEHAVIORAL.BURST'
+  tx_ids?: string[];               // transactions that triggered the rule
+  instance_ids?: string[];         // rings formed from the rule's pattern instances
+}
+
+/** Transactions cited by a risk factor. */
+export interface RiskEvidence {
+  factor: string;
+  tx_ids: string[];
+  note: string;
+}
+
+/** One transaction-backed hop of a detected money path (e.g. a cycle leg). */
+export interface PatternHop {
+  from: string;
+  to: string;
+  tx_id: string;
+  amount: number;
+  timestamp: number; // epoch ms
+}
+
+export type RingShape = 'cycle' | 'path' | 'hub_spoke' | 'scatter_gather' | 'cluster';
+
+/** One edge of a ring's structure and the transactions that moved along it. */
+export interface RingLeg {
+  from: string;
+  to: string;
+  tx_ids: string[];  // capped per leg; tx_count is exact
+  tx_count: number;
+  amount: number;
+  first_ts: number;  // epoch ms
+  last_ts: number;
+}
+
+export interface RingMember {
+  id: string;
+  role: 'member' | 'hub' | 'spoke' | 'source' | 'intermediary' | 'sink';
+  suspicious: boolean; // false for accounts that complete the structure without scoring
+}
+
+export interface RingStructure {
+  shape: RingShape;
+  members: RingMember[]; // every account, in path order (hub / source first)
+  legs: RingLeg[];       // in path order for cycles and paths, time order for round trips
+  total_value: number;   // gross value over all legs
+  tx_count: number;
+  first_ts: number;
+  last_ts: number;
+  span_hours: number;
+}
+
 export interface Ring {
   id: string;
-  nodes: string[];
+  nodes: string[];   // suspicious members only; the full structure is in `structure`
   risk_score: number;
   patterns: string[];
   average_suspicion: number;
   central_hub?: string; // Optional: for fan-in/fan-out patterns
+  hops?: PatternHop[];  // Optional: time-ordered legs for cycle patterns
+  community?: CommunityStats; // Optional: for community_cluster rings
+  layering?: LayeringStats;   // Optional: for layering_path rings (legs are in hops)
+  scatter_gather?: ScatterGatherStats; // Optional: for scatter_gather rings
+  round_trip?: RoundTripStats; // Optional: for round_trip rings (legs are in hops)
+  structure?: RingStructure;   // absent on rings saved before structures were recorded
+}
+
+export interface RoundTripPair {
+  out_tx: string;
+  back_tx: string;
+  out_amount: number;
+  back_amount: number;
+  lag_hours: number;
+}
+
+export interface RoundTripStats {
+  accounts: [string, string];
+  pairs: RoundTripPair[];
+  gross_volume: number;  // both directions, matched legs only
+  net_flow: number;      // accounts[0] → accounts[1] minus the reverse, matched legs only
+}
+
+export interface ScatterGatherStats {
+  source: string;
+  sink: string;
+  intermediaries: string[];
+  total_value: number;        // scattered from source to the intermediaries
+  gathered_value: number;     // collected by the sink from the same intermediaries
+  span_hours: number;         // first scatter leg → last gather leg
+}
+
+export interface LayeringStats {
+  source: string;
+  sink: string;
+  hop_count: number;
+  amount_in: number;          // first leg
+  amount_out: number;         // last leg
+  cumulative_skim: number;    // amount_in − amount_out
+  skim_pct: number;           // cumulative_skim as % of amount_in
+  max_dwell_hours: number;    // longest wait between receiving and forwarding
+}
+
+export interface CommunityStats {
+  member_count: number;       // all accounts in the community (suspicious or not)
+  suspicious_members: number;
+  modularity: number;         // this community's contribution to Q
+  global_modularity: number;  // Q of the whole partition
+  internal_flow: number;      // amount moved between members
+  external_flow: number;      // amount moved across the community boundary
+  flow_ratio: number;         // internal / external (Infinity-safe: capped at 999)
+}
+
+/** Node-level detection quality when every score ≥ threshold is flagged. */
+export interface ThresholdPoint {
+  threshold: number;
+  tp: number;
+  fp: number;
+  tn: number;
+  fn: number;
+  precision: number;
+  recall: number;   // true positive rate
+  fpr: number;      // false positive rate
+}
+
+export interface PrecisionAtK {
+  k: number;
+  hits: number;       // fraud nodes among the k highest-scoring
+  precision: number;  // hits / k
+}
+
+/** Labelled-fraud share of what one pattern flagged. */
+export interface PatternPrecision {
+  pattern: string;
+  flagged: number;    // transactions flagged through this pattern
+  fraud: number;      // …of which labelled isFraud
+  precision: number;  // fraud / flagged
+}
+
+/** How much of one injected typology was caught (datasets with typology labels). */
+export interface TypologyRecall {
+  typology: string;
+  tx: number;                 // labelled fraud transactions of this typology
+  flaggedTx: number;
+  txRecall: number;           // flaggedTx / tx
+  accounts: number;           // accounts party to them
+  highRiskAccounts: number;
+  accountRecall: number;      // highRiskAccounts / accounts
+}
+
+/**
+ * Transaction-level evaluation: a transaction is flagged when it is part of
+ * a ring or touches a high-risk account.
+ */
+export interface TransactionGroundTruth {
+  flagged: number;
+  tp: number;
+  fp: number;
+  tn: number;
+  fn: number;
+  precision: number;
+  recall: number;
+  inRing: { flagged: number; fraud: number };
+  highRiskNode: { flagged: number; fraud: number };
+  byPattern: PatternPrecision[];  // most flagged first
+  byTypology: TypologyRecall[];   // empty unless transactions carry a typology
+}
+
+/** How much of one ring is labelled fraud. */
+export interface RingPurity {
+  ringId: string;
+  pattern: string;
+  members: number;
+  fraudMembers: number;   // members party to any labelled fraud transaction
+  txCount: number;
+  fraudTx: number;
+  txPurity: number;       // fraudTx / txCount
+  memberPurity: number;   // fraudMembers / members
+}
+
+export interface RingPatternPurity {
+  pattern: string;
+  rings: number;
+  txCount: number;
+  fraudTx: number;
+  txPurity: number;       // pooled over the pattern's rings
+  memberPurity: number;   // mean over the pattern's rings
+  pureRings: number;      // rings with txPurity ≥ 0.5
+}
+
+export interface RingGroundTruth {
+  rings: RingPurity[];
+  byPattern: RingPatternPurity[];  // most rings first
+  avgTxPurity: number;
+  avgMemberPurity: number;
 }
 
 export interface GroundTruthMetrics {
   available: boolean;
   totalFraudTx: number;
   totalLegitTx: number;
-  // Node-level confusion matrix
+  // Node-level confusion matrix at the analysis risk threshold (flagged = score ≥ threshold)
+  threshold: number;
   truePositives: number;   // flagged by us AND actually fraudulent
   falsePositives: number;  // flagged by us but NOT fraudulent
   trueNegatives: number;   // NOT flagged and NOT fraudulent
@@ -81,6 +331,39 @@ export interface GroundTruthMetrics {
   // Score distribution for fraud vs legit (for ROC-like insights)
   avgScoreFraudNodes: number;
   avgScoreLegitNodes: number;
+  // Threshold sweep: sweep[t] is the confusion matrix at flag threshold t (0–100)
+  sweep: ThresholdPoint[];
+  rocAuc: number;
+  prAuc: number;            // average precision
+  precisionAtK: PrecisionAtK[];
+  // Transaction- and ring-level scopes
+  transactions: TransactionGroundTruth;
+  rings: RingGroundTruth;
+  // Accounts party to any labelled fraud transaction (weight calibration labels)
+  fraudNodes: string[];
+}
+
+/** How much of the search space a budgeted detector actually covered. */
+export interface DetectorCoverage {
+  detector: string;
+  components_total: number;    // candidate components (SCCs for cycles, entry transactions for layering)
+  components_searched: number; // components searched exhaustively before the budget ran out
+  instances_found: number;     // e.g. elementary cycles enumerated
+  budget_exhausted: boolean;   // true → results are partial
+  iterations: number;
+  elapsed_ms: number;
+}
+
+/** Run settings besides the ruleset that change scores, as resolved for the run. */
+export interface RunSettings {
+  jurisdiction: JurisdictionId;
+  dormancyDays: number;
+  disabledDetectors: string[];
+  customRules: string;
+  taintModel: TaintModel;
+  taintSeeds: string[];
+  taintLabelSeeds: boolean;
+  riskThreshold: number;
 }
 
 export interface GraphAnalysisResult {
@@ -94,4 +377,8 @@ export interface GraphAnalysisResult {
     processed_at: string;
   };
   ground_truth?: GroundTruthMetrics;
+  coverage?: DetectorCoverage[];
+  ruleset?: AppliedRuleset; // rules that produced this result (absent on pre-ruleset history)
+  run_settings?: RunSettings; // the rest of the run's configuration (absent on older history)
+  peers?: PeerIndex;        // uncapped peer refs for money traces (absent on history entries)
 }
\ No newline at end of file
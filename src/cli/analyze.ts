@@ -0,0 +1,269 @@
+/**
+ * MuleGuard command-line analyzer
+ *
+ * Runs the same engine as the dashboard without a browser, for batch
+ * screening from cron and for comparing runs in scripts:
+ *
+ *   npm run build:cli
+ *   node dist-cli/analyze.js transactions.csv --out reports --ruleset tuned.json
+ *
+ * Input is anything FileUpload accepts (CSV/TSV, a JSON array, or a ZIP of
+ * those), read with the same column detection and streamed into the engine,
+ * so files of any size are analysed in full unless --max-tx is given. Three
+ * files are written to the output directory, named after the input:
+ *
+ *   <name>-results.json    same layout as the dashboard's JSON download
+ *   <name>-entities.csv    suspicious accounts, highest score first
+ *   <name>-rings.csv       fraud rings
+ *
+ * Exit codes: 0 — no alert, 1 — error, 2 — alert threshold met (at least
+ * --alert-count accounts scored ≥ --alert-score).
+ */
+
+import { parseArgs } from 'node:util';
+import { createReadStream } from 'node:fs';
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Readable } from 'node:stream';
+import JSZip from 'jszip';
+import { RunSettings, TaintModel } from '../app/lib/types';
+import { analyzeTransactionStream, EngineConfig, TransactionChunk } from '../app/lib/chunked-uploader';
+import { TransactionSink, createTransactionSink, parseJsonArray, readCsvChunks, readJsonChunks } from '../app/lib/transaction-parser';
+import { DEFAULT_RULESET, Ruleset, loadRuleset } from '../app/lib/ruleset';
+import { JURISDICTION_PRESETS, JurisdictionId } from '../app/lib/structuring';
+import { DEFAULT_RISK_THRESHOLD, RISK_THRESHOLDS } from '../app/lib/forensics-semantics';
+import { buildResultsJson, ringsCsv, suspiciousEntitiesCsv } from '../app/lib/result-export';
+
+// Fixed instead of the clock, so timestamps read from steps do not change between runs
+const DEFAULT_ANCHOR_DATE = '2025-01-01T00:00:00.000Z';
+
+const USAGE = `Usage: analyze <input.csv|.json|.zip> [options]
+
+Options:
+  --out <dir>              Output directory (default: current directory)
+  --ruleset <file>         Ruleset JSON, or a results JSON to reuse its ruleset and run settings;
+                           the options below override the reused settings (default: built-in)
+  --jurisdiction <id>      Reporting thresholds: ${Object.keys(JURISDICTION_PRESETS).join(', ')} (default: US)
+  --dormancy-days <n>      Gap that counts as dormant (default: the ruleset's)
+  --disable <ids>          Comma-separated detector ids to skip
+  --rules <file>           Custom rule-language file; each rule runs as a detector
+  --taint-model <model>    poison, haircut or fifo (default: haircut)
+  --taint-seeds <file>     Confirmed fraudulent account ids, one per line or comma-separated
+  --taint-labels           Also seed taint from isFraud labels (ground truth is then scored without taint)
+  --risk-threshold <n>     Score from 0 to 100 that counts as flagged in ground-truth metrics (default: ${DEFAULT_RISK_THRESHOLD})
+  --max-tx <n>             Stop reading after n rows (default: no limit)
+  --anchor-date <iso>      Date that PaySim steps and rows without a timestamp are placed relative to
+                           (default: ${DEFAULT_ANCHOR_DATE}, so repeated runs give identical results)
+  --alert-score <n>        Score that counts an account towards the alert (default: ${RISK_THRESHOLDS.HIGH_MIN})
+  --alert-count <n>        Accounts at or above --alert-score that trigger exit code 2 (default: 1)
+  --verbose                Print engine progress and detector logs to stderr
+  --help                   Show this message
+`;
+
+const EXIT_ALERT = 2;
+
+class UsageError extends Error {}
+
+// ── Input ─────────────────────────────────────────────────────────────────────
+
+/** Streams the input file into `sink` as engine chunks; nothing is held beyond the current chunk. */
+async function* readTransactionChunks(file: string, sink: TransactionSink): AsyncGenerator<TransactionChunk> {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === '.zip') {
+    const zip = await JSZip.loadAsync(await readFile(file));
+    const entries = Object.values(zip.files)
+      .filter(entry => !entry.dir && !entry.name.startsWith('__MACOSX') && !path.basename(entry.name).startsWith('.'));
+    let processedAny = false;
+    for (const [index, entry] of entries.entries()) {
+      if (sink.hitLimit) break;
+      const entryExt = path.extname(entry.name).toLowerCase();
+      const share = () => (index + 1) / entries.length;
+      if (entryExt === '.csv' || entryExt === '.tsv') {
+        if (yield* readCsvChunks(entry.nodeStream() as Readable, sink, share)) processedAny = true;
+      } else if (entryExt === '.json') {
+        let items: unknown[];
+        try { items = parseJsonArray(await entry.async('string')); } catch { continue; /* skip bad JSON, as the upload does */ }
+        if (yield* readJsonChunks(items, sink, share)) processedAny = true;
+      }
+    }
+    if (!processedAny) throw new Error('No valid CSV or JSON files found in the ZIP archive.');
+  } else if (ext === '.json') {
+    yield* readJsonChunks(parseJsonArray(await readFile(file, 'utf8')), sink);
+  } else {
+    const { size } = await stat(file);
+    if (!(yield* readCsvChunks(createReadStream(file), sink, cursor => cursor / (size || 1)))) {
+      throw new Error('Missing required fields: sender (or nameOrig), receiver (or nameDest), amount');
+    }
+  }
+
+  if (sink.count === 0) throw new Error('No valid transactions extracted from the file.');
+}
+
+// ── Options ───────────────────────────────────────────────────────────────────
+
+const TAINT_MODELS: TaintModel[] = ['poison', 'haircut', 'fifo'];
+
+/** The run settings stored in a results JSON; throws when they are malformed. */
+function readRunSettings(file: string, value: any): RunSettings {
+  const strings = (v: unknown) => Array.isArray(v) && v.every(s => typeof s === 'string');
+  const valid = value && typeof value === 'object' &&
+    value.jurisdiction in JURISDICTION_PRESETS &&
+    typeof value.dormancyDays === 'number' && value.dormancyDays >= 0 &&
+    strings(value.disabledDetectors) &&
+    typeof value.customRules === 'string' &&
+    TAINT_MODELS.includes(value.taintModel) &&
+    strings(value.taintSeeds) &&
+    typeof value.taintLabelSeeds === 'boolean' &&
+    Number.isInteger(value.riskThreshold) && value.riskThreshold >= 0 && value.riskThreshold <= 100;
+  if (!valid) throw new Error(`Invalid run_settings in ${file}`);
+  return value;
+}
+
+/** A ruleset file, or a results JSON with the ruleset and run settings that produced it. */
+async function readRuleset(file: string): Promise<{ ruleset: Ruleset; settings?: RunSettings }> {
+  let json: any;
+  try { json = JSON.parse(await readFile(file, 'utf8')); } catch (err: any) {
+    throw new Error(`Could not read ruleset ${file}: ${err.message}`);
+  }
+  const isResults = json && json.suspicious_entities && json.ruleset;
+  const { ruleset, errors } = loadRuleset(isResults ? json.ruleset : json);
+  if (!ruleset) throw new Error(`Invalid ruleset ${file}:\n  ${errors.join('\n  ')}`);
+  return {
+    ruleset,
+    settings: isResults && json.run_settings ? readRunSettings(file, json.run_settings) : undefined,
+  };
+}
+
+function nonNegative(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) throw new UsageError(`--${name} must be a non-negative number`);
+  return n;
+}
+
+/**
+ * Runs `fn` with the detectors' console.log / console.info / console.warn
+ * output sent to stderr (verbose) or dropped, restoring the console afterwards.
+ */
+async function withEngineLogs<T>(verbose: boolean, fn: () => Promise<T>): Promise<T> {
+  const { log, info, warn } = console;
+  console.log = console.info = console.warn = verbose ? console.error : () => {};
+  try {
+    return await fn();
+  } finally {
+    console.log = log;
+    console.info = info;
+    console.warn = warn;
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out:             { type: 'string' },
+      ruleset:         { type: 'string' },
+      jurisdiction:    { type: 'string' },
+      'dormancy-days': { type: 'string' },
+      disable:         { type: 'string' },
+      rules:           { type: 'string' },
+      'taint-model':   { type: 'string' },
+      'taint-seeds':   { type: 'string' },
+      'taint-labels':  { type: 'boolean', default: false },
+      'risk-threshold': { type: 'string' },
+      'max-tx':        { type: 'string' },
+      'anchor-date':   { type: 'string' },
+      'alert-score':   { type: 'string' },
+      'alert-count':   { type: 'string' },
+      verbose:         { type: 'boolean', default: false },
+      help:            { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) throw new UsageError('Expected exactly one input file.');
+  const input = positionals[0];
+
+  const jurisdiction = values.jurisdiction?.toUpperCase();
+  if (jurisdiction && !(jurisdiction in JURISDICTION_PRESETS)) {
+    throw new UsageError(`Unknown jurisdiction "${values.jurisdiction}" (expected ${Object.keys(JURISDICTION_PRESETS).join(', ')})`);
+  }
+  const taintModel = values['taint-model'];
+  if (taintModel && !TAINT_MODELS.includes(taintModel as TaintModel)) {
+    throw new UsageError(`Unknown taint model "${taintModel}" (expected poison, haircut or fifo)`);
+  }
+  const riskThreshold = values['risk-threshold'] !== undefined ? Math.round(nonNegative('risk-threshold', values['risk-threshold'], 0)) : undefined;
+  if (riskThreshold !== undefined && riskThreshold > 100) throw new UsageError('--risk-threshold must be between 0 and 100');
+  const alertScore = nonNegative('alert-score', values['alert-score'], RISK_THRESHOLDS.HIGH_MIN);
+  const alertCount = Math.max(1, Math.round(nonNegative('alert-count', values['alert-count'], 1)));
+  const maxTx = Math.round(nonNegative('max-tx', values['max-tx'], 0));
+  const anchorDate = new Date(values['anchor-date'] ?? DEFAULT_ANCHOR_DATE);
+  if (isNaN(anchorDate.getTime())) throw new UsageError(`Invalid --anchor-date "${values['anchor-date']}" (expected an ISO date)`);
+
+  // Keep stdout for the summary
+  const log = (line: string) => process.stdout.write(line + '\n');
+
+  // A results JSON also brings the rest of its run's settings; explicit options win
+  const { ruleset, settings: saved } = values.ruleset ? await readRuleset(values.ruleset) : { ruleset: DEFAULT_RULESET };
+  const config: EngineConfig = {
+    jurisdiction: (jurisdiction as JurisdictionId | undefined) ?? saved?.jurisdiction,
+    dormancyDays: values['dormancy-days'] !== undefined ? nonNegative('dormancy-days', values['dormancy-days'], 0) : saved?.dormancyDays,
+    disabledDetectors: values.disable?.split(',').map(s => s.trim()).filter(Boolean) ?? saved?.disabledDetectors,
+    ruleset,
+    customRules: values.rules ? await readFile(values.rules, 'utf8') : saved?.customRules,
+    taintModel: (taintModel as TaintModel | undefined) ?? saved?.taintModel,
+    taintSeeds: values['taint-seeds']
+      ? (await readFile(values['taint-seeds'], 'utf8')).split(/[\s,]+/).filter(Boolean)
+      : saved?.taintSeeds,
+    taintLabelSeeds: values['taint-labels'] || saved?.taintLabelSeeds,
+    riskThreshold: riskThreshold ?? saved?.riskThreshold,
+  };
+  if (saved && values.verbose) process.stderr.write(`Reusing the run settings stored in ${values.ruleset}.\n`);
+
+  // Stable ids and timestamps so two runs over the same file can be diffed
+  const sink = createTransactionSink({ maxTransactions: maxTx, idPrefix: 'tx-', now: anchorDate });
+  const started = performance.now();
+  const result = await withEngineLogs(values.verbose, () => analyzeTransactionStream(readTransactionChunks(input, sink), progress => {
+    if (values.verbose) process.stderr.write(`[${progress.percent}%] ${progress.message}\n`);
+  }, config));
+  const elapsed = performance.now() - started;
+  if (sink.hitLimit) {
+    process.stderr.write(`Warning: analysed the first ${sink.count.toLocaleString('en-US')} transactions (--max-tx ${maxTx.toLocaleString('en-US')}).\n`);
+  }
+
+  const outDir = values.out ?? '.';
+  const name = path.basename(input).replace(/\.[^/.]+$/, '');
+  await mkdir(outDir, { recursive: true });
+  const files: [string, string][] = [
+    [`${name}-results.json`, JSON.stringify(buildResultsJson(result, elapsed), null, 2)],
+    [`${name}-entities.csv`, suspiciousEntitiesCsv(result)],
+    [`${name}-rings.csv`, ringsCsv(result)],
+  ];
+  for (const [file, content] of files) await writeFile(path.join(outDir, file), content);
+
+  const alerting = result.suspicious_nodes.filter(n => n.score.total >= alertScore).length;
+  log(`${input}: ${result.metadata.total_transactions.toLocaleString('en-US')} transactions, ` +
+    `${result.suspicious_nodes.length.toLocaleString('en-US')} suspicious accounts, ${result.rings.length.toLocaleString('en-US')} rings ` +
+    `(ruleset ${ruleset.name} v${ruleset.version}, ${(elapsed / 1000).toFixed(1)}s)`);
+  for (const [file] of files) log(`  wrote ${path.join(outDir, file)}`);
+
+  if (alerting >= alertCount) {
+    log(`ALERT: ${alerting} account${alerting === 1 ? '' : 's'} scored ≥ ${alertScore} (alert count ${alertCount})`);
+    return EXIT_ALERT;
+  }
+  log(`${alerting} account${alerting === 1 ? '' : 's'} scored ≥ ${alertScore} — below alert count ${alertCount}`);
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  err => {
+    process.stderr.write(`${err.message}\n`);
+    if (err instanceof UsageError || String(err.code).startsWith('ERR_PARSE_ARGS')) process.stderr.write(`\n${USAGE}`);
+    process.exitCode = 1;
+  },
+);